@@ -1,4 +1,5 @@
-import type { CursorMode as editorTool, PlaceableType, Direction, Machine, SinkMachine } from '../game/types';
+import type { CursorMode as editorTool, PlaceableType, Direction, Machine, SinkMachine, CommandMachine, CommandKillReason } from '../game/types';
+import type { Fragment } from '../util/fragment';
 
 export interface GameEventMap {
   // -- editor.ts (grid editing actions) --
@@ -9,6 +10,7 @@ export interface GameEventMap {
   configureMachine: { machine: Machine };
   directionChange: { dir: Direction };
   placeableChange: { placeable: PlaceableType };
+  compositesChanged: undefined;
 
   // -- editorInput.ts (pointer & keyboard → events) --
   '+place': { grid_x: number; grid_y: number };
@@ -22,9 +24,18 @@ export interface GameEventMap {
   selectPlaceable: { placeable: PlaceableType };
   modeChange: { mode: editorTool };
   rotate: undefined;
+  undo: undefined;
+  redo: undefined;
+  copySelection: undefined;
+  cutSelection: undefined;
+  deleteSelection: undefined;
+  pasteClipboard: undefined;
+  cancelSelection: undefined;
+  stampBlueprint: { fragment: Fragment };
+  compositeFromSelection: undefined;
 
   // -- index.ts (keyboard router / focus) --
-  editorKeyPress: { key: string; preventDefault: () => void };
+  editorKeyPress: { key: string; ctrlKey: boolean; shiftKey: boolean; preventDefault: () => void };
   simulationKeyPress: { char: string };
   focusModeChange: { mode: 'editor' | 'simulationPassthrough' | 'virtualMachine' };
   panHold: { held: boolean };
@@ -48,7 +59,10 @@ export interface GameEventMap {
   requestKeyboardFocus: undefined;
   cameraToFactory: undefined;
   openNetwork: undefined;
+  openPackages: undefined;
   openPresets: undefined;
+  openBlueprints: undefined;
+  openSnapshots: undefined;
   openSettings: undefined;
   openHelp: undefined;
   openManual: undefined;
@@ -68,8 +82,8 @@ export interface GameEventMap {
   machineReceive: { char: string };
   sinkReceive: { char: string };
   sinkOutput: { sink: SinkMachine; content: string };
-  commandStart: { machineId: string; command: string; input: string; inputMode?: 'pipe' | 'args'; stream?: boolean };
-  commandComplete: { machineId: string; command: string; output: string; durationMs: number; error: boolean; stream?: boolean };
+  commandStart: { machineId: string; command: string; input: string; inputMode?: 'pipe' | 'args'; stream?: boolean; worker?: number };
+  commandComplete: { machineId: string; command: string; output: string; durationMs: number; error: boolean; stream?: boolean; killed?: CommandKillReason; worker?: number };
   commandError: { machineId: string; command: string; stderr: string };
   streamWrite: { machineId: string; bytes: number };
   pack: { machineId: string; length: number };
@@ -100,6 +114,7 @@ export interface GameEventMap {
   configureStart: undefined;
   toast: { message: string };
   sinkRename: { machine: SinkMachine };
+  commandKill: { machine: CommandMachine };
 
 }
 
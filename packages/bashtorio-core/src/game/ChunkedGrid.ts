@@ -1,11 +1,13 @@
-import { CellType, Direction, type Cell, type Machine, type MachineCell, type BeltCell } from './types';
+import { CellType, Direction, BeltTier, BeltKind, type Cell, type Machine, type MachineCell, type BeltCell, type CrossingCell } from './types';
 
 export const CHUNK_SIZE = 16;
 export const NO_MACHINE = 0xFFFF;
 
 interface Chunk {
-  cellType: Uint8Array;       // 256 entries: CellType.EMPTY=0, BELT=1, MACHINE=2
+  cellType: Uint8Array;       // 256 entries: CellType.EMPTY=0, BELT=1, MACHINE=2, CROSSING=3
   conveyorDir: Uint8Array;    // 256 entries: Direction (0-3)
+  beltTier: Uint8Array;       // 256 entries: BeltTier, NORMAL=0
+  beltKind: Uint8Array;       // 256 entries: BeltKind, PLAIN=0
   machineIndex: Uint16Array;  // 256 entries: index into state.machines[], 0xFFFF = none
 }
 
@@ -27,6 +29,8 @@ function createChunk(): Chunk {
   return {
     cellType: new Uint8Array(256),
     conveyorDir: new Uint8Array(256),
+    beltTier: new Uint8Array(256),
+    beltKind: new Uint8Array(256),
     machineIndex,
   };
 }
@@ -60,17 +64,41 @@ export class ChunkedGrid {
     return chunk.conveyorDir[localIndex(x, y)] as Direction;
   }
 
+  getBeltTier(x: number, y: number): BeltTier {
+    const chunk = this.getChunk(x, y);
+    if (!chunk) return BeltTier.NORMAL;
+    return chunk.beltTier[localIndex(x, y)] as BeltTier;
+  }
+
+  getBeltKind(x: number, y: number): BeltKind {
+    const chunk = this.getChunk(x, y);
+    if (!chunk) return BeltKind.PLAIN;
+    return chunk.beltKind[localIndex(x, y)] as BeltKind;
+  }
+
   getMachineIndex(x: number, y: number): number {
     const chunk = this.getChunk(x, y);
     if (!chunk) return NO_MACHINE;
     return chunk.machineIndex[localIndex(x, y)];
   }
 
-  setBelt(x: number, y: number, dir: Direction): void {
+  setBelt(x: number, y: number, dir: Direction, tier: BeltTier = BeltTier.NORMAL, kind: BeltKind = BeltKind.PLAIN): void {
     const chunk = this.getOrCreateChunk(x, y);
     const idx = localIndex(x, y);
     chunk.cellType[idx] = CellType.BELT;
     chunk.conveyorDir[idx] = dir;
+    chunk.beltTier[idx] = tier;
+    chunk.beltKind[idx] = kind;
+    chunk.machineIndex[idx] = NO_MACHINE;
+  }
+
+  setCrossing(x: number, y: number): void {
+    const chunk = this.getOrCreateChunk(x, y);
+    const idx = localIndex(x, y);
+    chunk.cellType[idx] = CellType.CROSSING;
+    chunk.conveyorDir[idx] = 0;
+    chunk.beltTier[idx] = BeltTier.NORMAL;
+    chunk.beltKind[idx] = BeltKind.PLAIN;
     chunk.machineIndex[idx] = NO_MACHINE;
   }
 
@@ -78,6 +106,8 @@ export class ChunkedGrid {
     const chunk = this.getOrCreateChunk(x, y);
     const idx = localIndex(x, y);
     chunk.cellType[idx] = CellType.MACHINE;
+    chunk.beltTier[idx] = BeltTier.NORMAL;
+    chunk.beltKind[idx] = BeltKind.PLAIN;
     chunk.machineIndex[idx] = machineIdx;
   }
 
@@ -87,6 +117,8 @@ export class ChunkedGrid {
     const idx = localIndex(x, y);
     chunk.cellType[idx] = CellType.EMPTY;
     chunk.conveyorDir[idx] = 0;
+    chunk.beltTier[idx] = BeltTier.NORMAL;
+    chunk.beltKind[idx] = BeltKind.PLAIN;
     chunk.machineIndex[idx] = NO_MACHINE;
   }
 
@@ -98,11 +130,13 @@ export class ChunkedGrid {
     const ct = chunk.cellType[idx] as CellType;
     switch (ct) {
       case CellType.BELT:
-        return { type: CellType.BELT, dir: chunk.conveyorDir[idx] as Direction } as BeltCell;
+        return { type: CellType.BELT, dir: chunk.conveyorDir[idx] as Direction, tier: chunk.beltTier[idx] as BeltTier, kind: chunk.beltKind[idx] as BeltKind } as BeltCell;
       case CellType.MACHINE: {
         const mi = chunk.machineIndex[idx];
         return { type: CellType.MACHINE, machine: machines[mi] } as MachineCell;
       }
+      case CellType.CROSSING:
+        return { type: CellType.CROSSING } as CrossingCell;
       default:
         return { type: CellType.EMPTY };
     }
@@ -128,7 +162,7 @@ export class ChunkedGrid {
   }
 
   /** Iterate all belt cells across all chunks. */
-  forEachBelt(cb: (x: number, y: number, dir: Direction) => void): void {
+  forEachBelt(cb: (x: number, y: number, dir: Direction, tier: BeltTier, kind: BeltKind) => void): void {
     for (const [key, chunk] of this.chunks) {
       const cx = ((key >>> 16) & 0xFFFF) - 0x8000;
       const cy = (key & 0xFFFF) - 0x8000;
@@ -138,7 +172,7 @@ export class ChunkedGrid {
         for (let ly = 0; ly < CHUNK_SIZE; ly++) {
           const idx = (lx << 4) | ly;
           if (chunk.cellType[idx] === CellType.BELT) {
-            cb(baseX + lx, baseY + ly, chunk.conveyorDir[idx] as Direction);
+            cb(baseX + lx, baseY + ly, chunk.conveyorDir[idx] as Direction, chunk.beltTier[idx] as BeltTier, chunk.beltKind[idx] as BeltKind);
           }
         }
       }
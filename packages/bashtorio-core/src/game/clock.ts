@@ -1,12 +1,70 @@
 export let now = 0;
 export let delta = 0;
 
+/** Simulation step (ms) used by the fixed-timestep and headless loops. */
+export const FIXED_STEP_MS = 1000 / 60;
+
+/** Upper bound on catch-up steps per frame so a stalled tab doesn't spiral. */
+const MAX_STEPS_PER_FRAME = 8;
+
+let fixedTimestep = false;
+let lastFrame = 0;
+let accumulator = 0;
+
+export function isFixedTimestep(): boolean { return fixedTimestep; }
+
+/** Switch between variable (`tick`) and fixed (`accumulate` + `step`) timing. */
+export function setFixedTimestep(enabled: boolean): void {
+  if (enabled === fixedTimestep) return;
+  fixedTimestep = enabled;
+  lastFrame = 0;
+  accumulator = 0;
+  // Variable mode measures against wall time again, so realign to it
+  if (!enabled) {
+    now = performance.now();
+    delta = 0;
+  }
+}
+
+/** Advance the clock by real elapsed time (variable timestep). */
 export function tick(): void {
   const t = performance.now();
   delta = now > 0 ? t - now : 0;
   now = t;
 }
 
+/** Advance the clock by exactly `dt` ms, independent of wall time. */
+export function step(dt: number = FIXED_STEP_MS): void {
+  delta = dt;
+  now += dt;
+}
+
+/**
+ * Feed a wall-clock timestamp into the fixed-step accumulator and return how
+ * many steps of `stepMs` are now due. The caller runs `step()` + simulation
+ * update that many times.
+ */
+export function accumulate(frameTime: number, stepMs: number = FIXED_STEP_MS): number {
+  if (lastFrame > 0) accumulator += frameTime - lastFrame;
+  lastFrame = frameTime;
+
+  let steps = Math.floor(accumulator / stepMs);
+  accumulator -= steps * stepMs;
+  if (steps > MAX_STEPS_PER_FRAME) {
+    steps = MAX_STEPS_PER_FRAME;
+    accumulator = 0;
+  }
+  return steps;
+}
+
+/** Reset the clock to `start` ms (headless runs start from a known time). */
+export function resetClock(start: number = 0): void {
+  now = start;
+  delta = 0;
+  lastFrame = 0;
+  accumulator = 0;
+}
+
 export class EmitTimer {
   interval: number;
   timeRemaining: number;
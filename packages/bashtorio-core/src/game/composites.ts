@@ -0,0 +1,176 @@
+import { CellType, Direction, MachineType, type Machine, type PlaceableType, type PortMachine, type PortMode } from './types';
+import { ChunkedGrid } from './ChunkedGrid';
+import { createInitialState, type GameState } from './state';
+import { swapGrid } from './grid';
+import { swapMachines } from './machines';
+import { getSplitterSecondary } from './edit';
+import type { Fragment } from '../util/fragment';
+import { deserializeMachine, cellTier, cellKind } from '../util/saveload';
+
+/**
+ * A saved subfactory: a fragment of belts and machines whose PORT machines
+ * become the inputs and outputs of a single-cell block.
+ */
+export interface CompositeDef {
+  id: string;
+  label: string;
+  fragment: Fragment;
+}
+
+/** The private grid, machines and packets of one placed composite */
+export interface CompositeWorld {
+  grid: ChunkedGrid;
+  machines: Machine[];
+  state: GameState;
+}
+
+// ---------------------------------------------------------------------------
+// Definitions (saved with the factory)
+// ---------------------------------------------------------------------------
+
+const defs = new Map<string, CompositeDef>();
+/** Definitions whose world is being built, so a self-referencing save can't recurse forever */
+const building = new Set<string>();
+
+export function getCompositeDefs(): CompositeDef[] {
+  return [...defs.values()];
+}
+
+export function getCompositeDef(id: string): CompositeDef | undefined {
+  return defs.get(id);
+}
+
+export function registerCompositeDef(def: CompositeDef): void {
+  defs.set(def.id, def);
+}
+
+export function clearCompositeDefs(): void {
+  defs.clear();
+}
+
+/** Create and register a definition, deriving a unique id from the label. */
+export function defineComposite(label: string, fragment: Fragment): CompositeDef {
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'subfactory';
+  let id = slug;
+  for (let n = 2; defs.has(id); n++) id = `${slug}-${n}`;
+  // Nested definitions are registered already, so the copy doesn't need to carry them
+  const { composites: _carried, ...own } = fragment;
+  const def = { id, label, fragment: own };
+  defs.set(id, def);
+  return def;
+}
+
+/** The definitions a fragment's composites run, nested ones included. */
+export function usedCompositeDefs(fragment: Fragment): CompositeDef[] {
+  const used = new Map<string, CompositeDef>();
+  const visit = (f: Fragment) => {
+    for (const sm of f.machines) {
+      if (sm.type !== MachineType.COMPOSITE || !sm.compositeId || used.has(sm.compositeId)) continue;
+      const def = defs.get(sm.compositeId);
+      if (!def) continue;
+      used.set(def.id, def);
+      visit(def.fragment);
+    }
+  };
+  visit(fragment);
+  return [...used.values()];
+}
+
+/**
+ * Register the definitions a fragment carries and return the fragment with
+ * its composites pointing at them. A definition already known under the same
+ * id is reused; one whose id is taken by a different definition is added
+ * under a fresh id.
+ */
+export function adoptCompositeDefs(fragment: Fragment): Fragment {
+  const carried = fragment.composites ?? [];
+  if (carried.length === 0) return fragment;
+
+  const ids = new Map<string, string>();
+  const taken = new Set(defs.keys());
+  for (const def of carried) {
+    const known = defs.get(def.id);
+    if (known && JSON.stringify(known.fragment) === JSON.stringify(def.fragment)) {
+      ids.set(def.id, def.id);
+      continue;
+    }
+    let id = def.id;
+    for (let n = 2; taken.has(id); n++) id = `${def.id}-${n}`;
+    taken.add(id);
+    ids.set(def.id, id);
+  }
+
+  const remap = (f: Fragment): Fragment => ({
+    ...f,
+    machines: f.machines.map(sm => sm.compositeId && ids.has(sm.compositeId) ? { ...sm, compositeId: ids.get(sm.compositeId) } : sm),
+  });
+  for (const def of carried) {
+    const id = ids.get(def.id)!;
+    if (!defs.has(id)) defs.set(id, { ...def, id, fragment: remap(def.fragment) });
+  }
+  const { composites: _carried, ...own } = remap(fragment);
+  return own;
+}
+
+/** Placeable id for a definition, as used by the machine picker */
+export function compositePlaceable(id: string): PlaceableType {
+  return `composite:${id}`;
+}
+
+/** The definition id behind a composite placeable, or null for built-in placeables. */
+export function compositeIdOf(placeable: PlaceableType): string | null {
+  return placeable.startsWith('composite:') ? placeable.slice('composite:'.length) : null;
+}
+
+export function fragmentHasPorts(fragment: Fragment): boolean {
+  return fragment.machines.some(sm => sm.type === MachineType.PORT);
+}
+
+// ---------------------------------------------------------------------------
+// Worlds (runtime)
+// ---------------------------------------------------------------------------
+
+/** Build a fresh inner world for the definition, or null if it is unknown. */
+export function createCompositeWorld(id: string): CompositeWorld | null {
+  const def = defs.get(id);
+  if (!def || building.has(id)) return null;
+
+  const grid = new ChunkedGrid();
+  building.add(id);
+  let machines: Machine[];
+  try {
+    machines = def.fragment.machines.map(sm => deserializeMachine(sm));
+  } finally {
+    building.delete(id);
+  }
+  machines.forEach((m, idx) => {
+    grid.setMachine(m.x, m.y, idx);
+    if (m.type === MachineType.SPLITTER) {
+      const sec = getSplitterSecondary(m);
+      grid.setMachine(sec.x, sec.y, idx);
+    }
+  });
+  for (const c of def.fragment.cells) {
+    if (grid.getCellType(c.x, c.y) !== CellType.EMPTY) continue;
+    if (c.type === 'belt') grid.setBelt(c.x, c.y, c.dir ?? Direction.RIGHT, cellTier(c), cellKind(c));
+    else if (c.type === 'crossing') grid.setCrossing(c.x, c.y);
+  }
+
+  return { grid, machines, state: createInitialState() };
+}
+
+/** Run `fn` with the composite's grid and machines swapped in as the active ones. */
+export function withWorld<T>(world: CompositeWorld, fn: () => T): T {
+  const prevGrid = swapGrid(world.grid);
+  const prevMachines = swapMachines(world.machines);
+  try {
+    return fn();
+  } finally {
+    swapGrid(prevGrid);
+    swapMachines(prevMachines);
+  }
+}
+
+export function worldPorts(world: CompositeWorld, mode: PortMode): PortMachine[] {
+  return world.machines.filter((m): m is PortMachine => m.type === MachineType.PORT && m.portMode === mode);
+}
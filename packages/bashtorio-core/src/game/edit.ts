@@ -1,7 +1,11 @@
-import { CellType, MachineType, Direction, type Cell, type Machine, type SplitterMachine, type MachineByType, type MachineBase } from './types';
-import { getCellType, getCell, getMachineIndex, setMachineCell, setBelt, setEmpty, reindexAfterSplice } from './grid';
+import { CellType, MachineType, Direction, BeltTier, BeltKind, DirDelta, UNDERGROUND_MAX_SPAN, type Cell, type Machine, type SplitterMachine, type CompositeMachine, type MachineByType, type MachineBase, type SplitterSide } from './types';
+import { getCellType, getCell, getMachineIndex, getBeltDir, getBeltTier, getBeltKind, setMachineCell, setBelt, setCrossing, setEmpty, reindexAfterSplice } from './grid';
 import { NO_MACHINE } from './ChunkedGrid';
 import { machines, createMachine } from './machines';
+import { recordEdit, beginGesture, endGesture } from './history';
+import { createCompositeWorld } from './composites';
+import { EmitTimer } from './clock';
+import { emitGameEvent } from '../events/bus';
 
 // ---------------------------------------------------------------------------
 // Splitter helpers
@@ -14,6 +18,12 @@ export function getSplitterSecondary(m: { dir: Direction; x: number; y: number }
   return { x: m.x + 1, y: m.y };
 }
 
+/** Which splitter cell is on `side`, looking along `dir`: 0 the primary, 1 the secondary. */
+export function splitterSideCell(dir: Direction, side: SplitterSide): number {
+  const primaryOnLeft = dir === Direction.RIGHT || dir === Direction.UP;
+  return (side === 'left') === primaryOnLeft ? 0 : 1;
+}
+
 // ---------------------------------------------------------------------------
 // Machine lookup / modification
 // ---------------------------------------------------------------------------
@@ -41,24 +51,185 @@ export function getMachineBounds(): { minX: number; minY: number; maxX: number;
   return { minX, minY, maxX, maxY };
 }
 
+function isStringRecord(v: unknown): v is Record<string, string> {
+  return typeof v === 'object' && v !== null && Object.getPrototypeOf(v) === Object.prototype;
+}
+
+/** Config equality that looks inside timers and byte arrays, which modals rebuild on every save. */
+function sameConfigValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a instanceof EmitTimer && b instanceof EmitTimer) return a.interval === b.interval;
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    return a.length === b.length && a.every((v, i) => v === b[i]);
+  }
+  if (isStringRecord(a) && isStringRecord(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(k => a[k] === b[k]);
+  }
+  return false;
+}
+
 export function updateConfig<T extends MachineType>(
   x: number, y: number, type: T,
   updates: Partial<Omit<MachineByType[T], keyof MachineBase | 'type'>>,
 ): void {
   const machine = getMachineAt(x, y);
-  if (machine && machine.type === type) {
-    Object.assign(machine, updates);
+  if (!machine || machine.type !== type) return;
+
+  const target = machine as unknown as Record<string, unknown>;
+  const before: Record<string, unknown> = {};
+  const after: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(updates)) {
+    if (sameConfigValue(target[key], value)) continue;
+    before[key] = target[key];
+    after[key] = value;
   }
+  if (Object.keys(after).length === 0) return;
+
+  Object.assign(machine, after);
+  recordEdit({
+    undo: () => Object.assign(machine, before),
+    redo: () => Object.assign(machine, after),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Machine attach / detach (shared by placement, erase and undo)
+// ---------------------------------------------------------------------------
+
+function attachMachine(machine: Machine): void {
+  machines.push(machine);
+  const idx = machines.length - 1;
+  setMachineCell(machine.x, machine.y, idx);
+  if (machine.type === MachineType.SPLITTER) {
+    const sec = getSplitterSecondary(machine);
+    setMachineCell(sec.x, sec.y, idx);
+  }
+}
+
+function detachMachine(machine: Machine): void {
+  // Stop shell if simulation is running
+  if (machine.type === MachineType.COMMAND && machine.shell) {
+    machine.shell.stop();
+    machine.shell = null;
+  }
+
+  // For splitters, clear both cells
+  setEmpty(machine.x, machine.y);
+  if (machine.type === MachineType.SPLITTER) {
+    const sec = getSplitterSecondary(machine);
+    setEmpty(sec.x, sec.y);
+  }
+
+  // Remove machine from list and reindex
+  const idx = machines.indexOf(machine);
+  if (idx !== -1) {
+    machines.splice(idx, 1);
+    reindexAfterSplice(idx);
+  }
+}
+
+function recordPlaced(machine: Machine): void {
+  recordEdit({
+    undo: () => {
+      emitGameEvent('machineDelete', { machine });
+      detachMachine(machine);
+    },
+    redo: () => attachMachine(machine),
+  });
+}
+
+function recordRemoved(machine: Machine): void {
+  recordEdit({
+    undo: () => attachMachine(machine),
+    redo: () => {
+      emitGameEvent('machineDelete', { machine });
+      detachMachine(machine);
+    },
+  });
+}
+
+interface BeltState {
+  dir: Direction;
+  tier: BeltTier;
+  kind: BeltKind;
+}
+
+function beltAt(x: number, y: number): BeltState {
+  return { dir: getBeltDir(x, y), tier: getBeltTier(x, y), kind: getBeltKind(x, y) };
+}
+
+/** What a non-machine cell holds, for undo: a belt, a crossing, or null when empty */
+type LaidState = BeltState | 'crossing' | null;
+
+function laidAt(x: number, y: number): LaidState {
+  const ct = getCellType(x, y);
+  if (ct === CellType.BELT) return beltAt(x, y);
+  return ct === CellType.CROSSING ? 'crossing' : null;
+}
+
+function restoreLaid(x: number, y: number, laid: LaidState): void {
+  if (laid === null) setEmpty(x, y);
+  else if (laid === 'crossing') setCrossing(x, y);
+  else setBelt(x, y, laid.dir, laid.tier, laid.kind);
 }
 
 // ---------------------------------------------------------------------------
 // Placement
 // ---------------------------------------------------------------------------
 
-export function placeBelt(x: number, y: number, dir: Direction): void {
+export function placeBelt(
+  x: number, y: number, dir: Direction,
+  tier: BeltTier = BeltTier.NORMAL, kind: BeltKind = BeltKind.PLAIN,
+): void {
+  if (getCellType(x, y) === CellType.MACHINE) return;
+  const before = laidAt(x, y);
+  if (typeof before === 'object' && before?.dir === dir && before.tier === tier && before.kind === kind) return;
+
+  setBelt(x, y, dir, tier, kind);
+  recordEdit({
+    undo: () => restoreLaid(x, y, before),
+    redo: () => setBelt(x, y, dir, tier, kind),
+  });
+}
+
+/** Lay a crossing, replacing any belt there. */
+export function placeCrossing(x: number, y: number): void {
   const ct = getCellType(x, y);
-  if (ct === CellType.MACHINE) return;
-  setBelt(x, y, dir);
+  if (ct === CellType.MACHINE || ct === CellType.CROSSING) return;
+  const before = laidAt(x, y);
+
+  setCrossing(x, y);
+  recordEdit({
+    undo: () => restoreLaid(x, y, before),
+    redo: () => setCrossing(x, y),
+  });
+}
+
+/**
+ * How far (x, y) is ahead of an underground entrance at (fromX, fromY)
+ * facing `dir`, if it is in line and close enough for an exit; else null.
+ */
+export function undergroundSpan(fromX: number, fromY: number, dir: Direction, x: number, y: number): number | null {
+  const d = DirDelta[dir];
+  const span = d.dx !== 0 ? (x - fromX) * d.dx : (y - fromY) * d.dy;
+  const inLine = d.dx !== 0 ? y === fromY : x === fromX;
+  return inLine && span >= 1 && span <= UNDERGROUND_MAX_SPAN ? span : null;
+}
+
+/** Place an underground entrance and its exit as one edit. Both cells must be free of machines. */
+export function placeUnderground(
+  x: number, y: number, exitX: number, exitY: number, dir: Direction,
+  tier: BeltTier = BeltTier.NORMAL,
+): boolean {
+  if (undergroundSpan(x, y, dir, exitX, exitY) === null) return false;
+  if (getCellType(x, y) === CellType.MACHINE || getCellType(exitX, exitY) === CellType.MACHINE) return false;
+
+  beginGesture();
+  placeBelt(x, y, dir, tier, BeltKind.ENTRANCE);
+  placeBelt(exitX, exitY, dir, tier, BeltKind.EXIT);
+  endGesture();
+  return true;
 }
 
 export function placeSplitter(x: number, y: number, dir: Direction): SplitterMachine | null {
@@ -69,10 +240,8 @@ export function placeSplitter(x: number, y: number, dir: Direction): SplitterMac
   if (ct2 !== CellType.EMPTY) return null;
 
   const machine = createMachine(x, y, MachineType.SPLITTER, dir) as SplitterMachine;
-  machines.push(machine);
-  const idx = machines.length - 1;
-  setMachineCell(x, y, idx);
-  setMachineCell(sec.x, sec.y, idx);
+  attachMachine(machine);
+  recordPlaced(machine);
   return machine;
 }
 
@@ -80,9 +249,14 @@ export function clearCell(x: number, y: number): void | Cell {
   const ct = getCellType(x, y);
   if (ct === CellType.EMPTY) return;
 
-  if (ct === CellType.BELT) {
+  if (ct === CellType.BELT || ct === CellType.CROSSING) {
     const cell = getCell(x, y);
+    const before = laidAt(x, y);
     setEmpty(x, y);
+    recordEdit({
+      undo: () => restoreLaid(x, y, before),
+      redo: () => setEmpty(x, y),
+    });
     return cell;
   }
 
@@ -90,32 +264,64 @@ export function clearCell(x: number, y: number): void | Cell {
     const mi = getMachineIndex(x, y);
     if (mi === NO_MACHINE) return;
     const machine = machines[mi];
+    if (!machine) return;
 
-    // Stop shell if simulation is running
-    if (machine?.type === MachineType.COMMAND && machine.shell) {
-      machine.shell.stop();
-      machine.shell = null;
-    }
+    detachMachine(machine);
+    recordRemoved(machine);
+    return;
+  }
 
-    // For splitters, clear both cells
-    if (machine?.type === MachineType.SPLITTER) {
-      const sec = getSplitterSecondary(machine);
-      setEmpty(machine.x, machine.y);
-      setEmpty(sec.x, sec.y);
-    } else {
-      setEmpty(x, y);
+  setEmpty(x, y);
+}
+
+/**
+ * Shift machines by (dx, dy) as one undo step. The machines themselves move,
+ * so sink ids, names and output survive. Belts and crossings where they land
+ * are replaced; the caller checks that no other machine is in the way.
+ */
+export function shiftMachines(list: Machine[], dx: number, dy: number): void {
+  const lift = () => { for (const m of list) detachMachine(m); };
+  const drop = () => { for (const m of list) attachMachine(m); };
+  const offset = (sx: number, sy: number) => {
+    for (const m of list) {
+      m.x += sx;
+      m.y += sy;
     }
+  };
 
-    // Remove machine from list and reindex
-    const idx = machines.indexOf(machine);
-    if (idx !== -1) {
-      machines.splice(idx, 1);
-      reindexAfterSplice(idx);
+  beginGesture();
+  lift();
+  recordEdit({ undo: drop, redo: lift });
+  offset(dx, dy);
+  for (const m of list) {
+    const cells = [{ x: m.x, y: m.y }];
+    if (m.type === MachineType.SPLITTER) cells.push(getSplitterSecondary(m));
+    for (const c of cells) {
+      if (getCellType(c.x, c.y) !== CellType.EMPTY) clearCell(c.x, c.y);
     }
-    return;
   }
+  drop();
+  recordEdit({
+    undo: () => { lift(); offset(-dx, -dy); },
+    redo: () => { offset(dx, dy); drop(); },
+  });
+  endGesture();
+}
 
-  setEmpty(x, y);
+/** Place an already-built machine (e.g. from a paste). Belts and crossings underneath are replaced; machines block. */
+export function insertMachine(machine: Machine): boolean {
+  const cells = [{ x: machine.x, y: machine.y }];
+  if (machine.type === MachineType.SPLITTER) cells.push(getSplitterSecondary(machine));
+  if (cells.some(c => getCellType(c.x, c.y) === CellType.MACHINE)) return false;
+
+  beginGesture();
+  for (const c of cells) {
+    if (getCellType(c.x, c.y) !== CellType.EMPTY) clearCell(c.x, c.y);
+  }
+  attachMachine(machine);
+  recordPlaced(machine);
+  endGesture();
+  return true;
 }
 
 export function placeMachine(x: number, y: number, machineType: MachineType, dir: Direction = Direction.RIGHT): Machine | null {
@@ -123,8 +329,21 @@ export function placeMachine(x: number, y: number, machineType: MachineType, dir
   if (ct === CellType.MACHINE) return null;
   if (machineType === MachineType.SPLITTER) return null;
 
+  // A belt or crossing underneath is replaced; record its removal in the same step
+  beginGesture();
+  if (ct !== CellType.EMPTY) clearCell(x, y);
   const machine = createMachine(x, y, machineType, dir);
-  machines.push(machine);
-  setMachineCell(x, y, machines.length - 1);
+  attachMachine(machine);
+  recordPlaced(machine);
+  endGesture();
+  return machine;
+}
+
+/** Place a single-cell block running the subfactory definition `compositeId`. */
+export function placeComposite(x: number, y: number, compositeId: string): CompositeMachine | null {
+  const machine = placeMachine(x, y, MachineType.COMPOSITE) as CompositeMachine | null;
+  if (!machine) return null;
+  machine.compositeId = compositeId;
+  machine.world = createCompositeWorld(compositeId);
   return machine;
 }
@@ -1,4 +1,4 @@
-import { CellType, Direction, type Cell } from './types';
+import { CellType, Direction, BeltTier, BeltKind, DirDelta, UNDERGROUND_MAX_SPAN, type Cell } from './types';
 import { ChunkedGrid } from './ChunkedGrid';
 import { machines } from './machines';
 
@@ -20,6 +20,13 @@ export function clearGrid(): void {
   grid.clear();
 }
 
+/** Make `next` the active grid and return the previous one (see swapMachines). */
+export function swapGrid(next: ChunkedGrid): ChunkedGrid {
+  const prev = grid;
+  grid = next;
+  return prev;
+}
+
 // ---------------------------------------------------------------------------
 // Grid accessors
 // ---------------------------------------------------------------------------
@@ -36,15 +43,41 @@ export function getBeltDir(x: number, y: number): Direction {
   return grid.getBeltDir(x, y);
 }
 
+export function getBeltTier(x: number, y: number): BeltTier {
+  return grid.getBeltTier(x, y);
+}
+
+export function getBeltKind(x: number, y: number): BeltKind {
+  return grid.getBeltKind(x, y);
+}
+
 export function getMachineIndex(x: number, y: number): number {
   return grid.getMachineIndex(x, y);
 }
 
+/**
+ * The exit an underground entrance at (x, y) facing `dir` leads to: the
+ * nearest exit facing the same way within UNDERGROUND_MAX_SPAN cells. Another
+ * entrance facing that way in between starts its own tunnel, so there is none.
+ */
+export function findUndergroundExit(x: number, y: number, dir: Direction): { x: number; y: number } | null {
+  const d = DirDelta[dir];
+  for (let i = 1; i <= UNDERGROUND_MAX_SPAN; i++) {
+    const nx = x + d.dx * i;
+    const ny = y + d.dy * i;
+    if (grid.getCellType(nx, ny) !== CellType.BELT || grid.getBeltDir(nx, ny) !== dir) continue;
+    const kind = grid.getBeltKind(nx, ny);
+    if (kind === BeltKind.EXIT) return { x: nx, y: ny };
+    if (kind === BeltKind.ENTRANCE) return null;
+  }
+  return null;
+}
+
 // ---------------------------------------------------------------------------
 // Sparse iteration (for renderer, saveload)
 // ---------------------------------------------------------------------------
 
-export function forEachBelt(cb: (x: number, y: number, dir: Direction) => void): void {
+export function forEachBelt(cb: (x: number, y: number, dir: Direction, tier: BeltTier, kind: BeltKind) => void): void {
   grid.forEachBelt(cb);
 }
 
@@ -56,8 +89,12 @@ export function forEachNonEmpty(cb: (x: number, y: number, cellType: CellType) =
 // Low-level setters (for saveload deserialization and edit.ts)
 // ---------------------------------------------------------------------------
 
-export function setBelt(x: number, y: number, dir: Direction): void {
-  grid.setBelt(x, y, dir);
+export function setBelt(x: number, y: number, dir: Direction, tier: BeltTier = BeltTier.NORMAL, kind: BeltKind = BeltKind.PLAIN): void {
+  grid.setBelt(x, y, dir, tier, kind);
+}
+
+export function setCrossing(x: number, y: number): void {
+  grid.setCrossing(x, y);
 }
 
 export function setMachineCell(x: number, y: number, idx: number): void {
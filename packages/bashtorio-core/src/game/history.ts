@@ -0,0 +1,88 @@
+/**
+ * Undo/redo stack for grid edits.
+ *
+ * Edit functions in edit.ts record a reversible op for every change they make.
+ * Ops recorded between beginGesture() and endGesture() (e.g. one drag-paint or
+ * drag-erase) are grouped so they undo and redo as a single step.
+ */
+
+/** A reversible grid edit. Neither callback may record history itself. */
+export interface EditOp {
+  undo(): void;
+  redo(): void;
+}
+
+const MAX_HISTORY = 200;
+
+const undoStack: EditOp[][] = [];
+const redoStack: EditOp[][] = [];
+let gesture: EditOp[] | null = null;
+let gestureDepth = 0;
+let replaying = false;
+
+function commit(ops: EditOp[]): void {
+  if (ops.length === 0) return;
+  undoStack.push(ops);
+  if (undoStack.length > MAX_HISTORY) undoStack.shift();
+  redoStack.length = 0;
+}
+
+/** Start grouping recorded ops into one undo step. Calls may nest. */
+export function beginGesture(): void {
+  if (gestureDepth++ === 0) gesture = [];
+}
+
+/** Close the current gesture; the outermost call commits it. */
+export function endGesture(): void {
+  if (gestureDepth === 0) return;
+  if (--gestureDepth > 0) return;
+  const ops = gesture!;
+  gesture = null;
+  commit(ops);
+}
+
+export function recordEdit(op: EditOp): void {
+  if (replaying) return;
+  if (gesture) gesture.push(op);
+  else commit([op]);
+}
+
+export function canUndo(): boolean { return undoStack.length > 0; }
+export function canRedo(): boolean { return redoStack.length > 0; }
+
+/** Revert the most recent edit step. Returns false if there was nothing to undo. */
+export function undo(): boolean {
+  while (gestureDepth > 0) endGesture();
+  const ops = undoStack.pop();
+  if (!ops) return false;
+  replaying = true;
+  try {
+    for (let i = ops.length - 1; i >= 0; i--) ops[i].undo();
+  } finally {
+    replaying = false;
+  }
+  redoStack.push(ops);
+  return true;
+}
+
+/** Re-apply the most recently undone step. Returns false if there was nothing to redo. */
+export function redo(): boolean {
+  while (gestureDepth > 0) endGesture();
+  const ops = redoStack.pop();
+  if (!ops) return false;
+  replaying = true;
+  try {
+    for (const op of ops) op.redo();
+  } finally {
+    replaying = false;
+  }
+  undoStack.push(ops);
+  return true;
+}
+
+export function clearHistory(): void {
+  undoStack.length = 0;
+  redoStack.length = 0;
+  gesture = null;
+  gestureDepth = 0;
+}
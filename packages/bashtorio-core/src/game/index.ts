@@ -2,6 +2,8 @@ export * from './types';
 export * from './state';
 export * from './grid';
 export * from './edit';
+export * from './history';
+export * from './composites';
 export * from './packets';
 export * from './simulation';
 export * from './clock';
@@ -1,7 +1,9 @@
-import { MachineType, Direction, type Machine, type MachineByType, type MachineBase } from './types';
+import { MachineType, Direction, type Machine, type MachineByType, type MachineBase, type SourceMachine } from './types';
 import { EmitTimer } from './clock';
+import { utf8ToBinary } from '../util/bytes';
+import { GUEST_WORKSPACE } from '../vm/bridge';
 
-export const machines: Machine[] = [];
+export let machines: Machine[] = [];
 let sinkIdCounter = 1;
 let commandIdCounter = 1;
 
@@ -13,6 +15,16 @@ export function nextCommandId(): number { return commandIdCounter++; }
 export function getCommandIdCounter(): number { return commandIdCounter; }
 export function setCommandIdCounter(v: number): void { commandIdCounter = v; }
 
+/**
+ * Make `list` the active machine list and return the previous one. Used to
+ * run a composite's inner world through the regular simulation code.
+ */
+export function swapMachines(list: Machine[]): Machine[] {
+  const prev = machines;
+  machines = list;
+  return prev;
+}
+
 export function clearMachines(): void {
   machines.length = 0;
   sinkIdCounter = 1;
@@ -26,7 +38,17 @@ export function clearMachines(): void {
 export type MachineDefaults<T extends MachineType> = Omit<MachineByType[T], keyof MachineBase | 'type'>;
 
 export function sourceDefaults(): MachineDefaults<MachineType.SOURCE> {
-  return { sourceText: 'Hello World!\n', sourcePos: 0, clock: new EmitTimer(500), gapTimer: new EmitTimer(0), loop: false };
+  return { sourceText: 'Hello World!\n', sourceBytes: { text: '', bytes: '' }, sourcePos: 0, clock: new EmitTimer(500), gapTimer: new EmitTimer(0), loop: false };
+}
+
+/** A Source's text as the bytes it emits, encoded again only after the text changes */
+export function getSourceBytes(machine: SourceMachine): string {
+  const cache = machine.sourceBytes;
+  if (cache.text !== machine.sourceText) {
+    cache.text = machine.sourceText;
+    cache.bytes = utf8ToBinary(machine.sourceText);
+  }
+  return cache.bytes;
 }
 
 export function sinkDefaults(): MachineDefaults<MachineType.SINK> {
@@ -38,9 +60,12 @@ export function commandDefaults(): MachineDefaults<MachineType.COMMAND> {
   const id = nextCommandId();
   return {
     label: `Shell ${id}`,
-    command: 'cat', autoStart: false, stream: false, inputMode: 'pipe',
+    command: 'cat', autoStart: false, stream: false, repl: false, replEnd: '', replSentinel: '', inputMode: 'pipe',
     pendingInput: '', outputBuffer: '', processing: false, lastInputTime: 0,
-    autoStartRan: false, cwd: '/', shell: null, pollPending: false, bytesIn: 0, bytesOut: 0,
+    autoStartRan: false, cwd: GUEST_WORKSPACE, env: {}, shell: null, pollPending: false, bytesIn: 0, bytesOut: 0,
+    stderrDir: null, onFailure: 'ignore', errorBuffer: '', currentInput: '',
+    timeoutMs: 0, cpuLimit: 0, outputLimit: 0, workers: 1, ordered: true,
+    batchLines: 1, batchMs: 250, framing: 'delimiter', recordDelimiter: '\n', recordLength: 8, pendingPackets: [],
   };
 }
 
@@ -61,7 +86,7 @@ export function duplicatorDefaults(): MachineDefaults<MachineType.DUPLICATOR> {
 }
 
 export function filterDefaults(): MachineDefaults<MachineType.FILTER> {
-  return { filterByte: '\n', filterMode: 'pass', outputQueue: [] };
+  return { filterByte: '\n', filterMatch: 'byte', filterPattern: '', filterMode: 'pass', outputQueue: [] };
 }
 
 export function counterDefaults(): MachineDefaults<MachineType.COUNTER> {
@@ -85,7 +110,7 @@ export function unpackerDefaults(): MachineDefaults<MachineType.UNPACKER> {
 }
 
 export function routerDefaults(): MachineDefaults<MachineType.ROUTER> {
-  return { routerByte: '\n', routerMatchDir: Direction.RIGHT, routerElseDir: Direction.DOWN, matchQueue: [], elseQueue: [] };
+  return { routerByte: '\n', routerMatch: 'byte', routerPattern: '', routerMatchDir: Direction.RIGHT, routerElseDir: Direction.DOWN, matchQueue: [], elseQueue: [] };
 }
 
 export function gateDefaults(): MachineDefaults<MachineType.GATE> {
@@ -114,7 +139,11 @@ export function latchDefaults(): MachineDefaults<MachineType.LATCH> {
 
 
 export function splitterDefaults(dir: Direction): MachineDefaults<MachineType.SPLITTER> {
-  return { dir, toggle: 0, outputQueue: [] };
+  return { dir, splitterMode: 'round-robin', splitterSide: 'left', splitterSet: '0-9', toggle: 0, outputQueue: [], inputLanes: [] };
+}
+
+export function mergerDefaults(): MachineDefaults<MachineType.MERGER> {
+  return { mergerPolicy: 'fair', mergerPriorityDir: Direction.LEFT, inputQueues: [[], [], [], []], mergerTurn: Direction.RIGHT };
 }
 
 export function sevensegDefaults(): MachineDefaults<MachineType.SEVENSEG> {
@@ -157,6 +186,22 @@ export function buttonDefaults(): MachineDefaults<MachineType.BUTTON> {
   return { buttonByte: '1', buttonChannel: 0, outputQueue: [] };
 }
 
+export function fileSourceDefaults(): MachineDefaults<MachineType.FILESOURCE> {
+  return { filePath: '', clock: new EmitTimer(100), loop: false, fileData: null, fileLoading: false, filePos: 0 };
+}
+
+export function fileSinkDefaults(): MachineDefaults<MachineType.FILESINK> {
+  return { filePath: 'out.txt', append: false, fileBase: null, fileBuffer: '', fileDirty: false, fileWriting: false };
+}
+
+export function portDefaults(): MachineDefaults<MachineType.PORT> {
+  return { portMode: 'in', portSide: Direction.LEFT, outputQueue: [] };
+}
+
+export function compositeDefaults(): MachineDefaults<MachineType.COMPOSITE> {
+  return { compositeId: '', world: null };
+}
+
 // ---------------------------------------------------------------------------
 // Machine factory
 // ---------------------------------------------------------------------------
@@ -189,6 +234,7 @@ export function createMachine(x: number, y: number, machineType: MachineType, di
     case MachineType.LATCH:      return { ...base, type: MachineType.LATCH, ...latchDefaults() };
 
     case MachineType.SPLITTER:   return { ...base, type: MachineType.SPLITTER, ...splitterDefaults(dir) };
+    case MachineType.MERGER:     return { ...base, type: MachineType.MERGER, ...mergerDefaults() };
     case MachineType.SEVENSEG:   return { ...base, type: MachineType.SEVENSEG, ...sevensegDefaults() };
     case MachineType.DRUM:       return { ...base, type: MachineType.DRUM, ...drumDefaults() };
     case MachineType.TONE:       return { ...base, type: MachineType.TONE, ...toneDefaults() };
@@ -199,5 +245,10 @@ export function createMachine(x: number, y: number, machineType: MachineType, di
     case MachineType.PUNCHCARD:  return { ...base, type: MachineType.PUNCHCARD, ...punchCardDefaults() };
     case MachineType.TNT:        return { ...base, type: MachineType.TNT, ...tntDefaults() };
     case MachineType.BUTTON:     return { ...base, type: MachineType.BUTTON, ...buttonDefaults() };
+    case MachineType.FILESOURCE: return { ...base, type: MachineType.FILESOURCE, ...fileSourceDefaults() };
+    case MachineType.FILESINK:   return { ...base, type: MachineType.FILESINK, ...fileSinkDefaults() };
+
+    case MachineType.PORT:       return { ...base, type: MachineType.PORT, ...portDefaults() };
+    case MachineType.COMPOSITE:  return { ...base, type: MachineType.COMPOSITE, ...compositeDefaults() };
   }
 }
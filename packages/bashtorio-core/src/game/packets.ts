@@ -1,5 +1,6 @@
-import { GRID_SIZE, Direction, type Packet } from './types';
+import { GRID_SIZE, Direction, BELT_TIERS, type BeltTier, type Packet } from './types';
 import type { GameState } from './state';
+import { getBeltTier } from './grid';
 
 export function createPacket(state: GameState, x: number, y: number, content: string, dir: Direction): Packet {
   // Start near the edge the packet enters from (close to the emitting machine)
@@ -35,31 +36,56 @@ export function removePacket(state: GameState, packet: Packet): void {
   }
 }
 
+/** How far a packet is through its cell along its direction of travel, 0 to 1 */
+export function packetProgress(p: Packet): number {
+  switch (p.dir) {
+    case Direction.RIGHT: return p.offsetX / GRID_SIZE;
+    case Direction.LEFT:  return 1 - p.offsetX / GRID_SIZE;
+    case Direction.DOWN:  return p.offsetY / GRID_SIZE;
+    case Direction.UP:    return 1 - p.offsetY / GRID_SIZE;
+  }
+}
+
+export function setPacketProgress(p: Packet, progress: number): void {
+  switch (p.dir) {
+    case Direction.RIGHT: p.offsetX = progress * GRID_SIZE; break;
+    case Direction.LEFT:  p.offsetX = (1 - progress) * GRID_SIZE; break;
+    case Direction.DOWN:  p.offsetY = progress * GRID_SIZE; break;
+    case Direction.UP:    p.offsetY = (1 - progress) * GRID_SIZE; break;
+  }
+}
+
 export function getPacketAt(state: GameState, x: number, y: number, minProgress = 0): Packet | undefined {
-  return state.packets.find(p => {
-    if (p.x !== x || p.y !== y) return false;
+  return state.packets.find(p => p.x === x && p.y === y && !p.tunnel && packetProgress(p) < minProgress + 0.4);
+}
 
-    // Calculate how far through the cell this packet is (0 to 1)
-    let progress = 0;
-    switch (p.dir) {
-      case Direction.RIGHT:
-        progress = p.offsetX / GRID_SIZE;
-        break;
-      case Direction.LEFT:
-        progress = 1 - p.offsetX / GRID_SIZE;
-        break;
-      case Direction.DOWN:
-        progress = p.offsetY / GRID_SIZE;
-        break;
-      case Direction.UP:
-        progress = 1 - p.offsetY / GRID_SIZE;
-        break;
-    }
+/**
+ * Whether another packet can enter (x, y): the cell holds fewer packets than
+ * its belt tier's capacity and the last one in has moved a slot along.
+ * Machine cells and normal belts hold one packet, so they must be empty.
+ * With `tunnel` (the tier of an underground run) this asks about the space
+ * below the cell instead, which surface packets don't share.
+ */
+export function hasRoom(state: GameState, x: number, y: number, tunnel?: BeltTier): boolean {
+  const below = tunnel !== undefined;
+  const capacity = BELT_TIERS[below ? tunnel : getBeltTier(x, y)].capacity;
+  let count = 0;
+  for (const p of state.packets) {
+    if (p.x !== x || p.y !== y || !!p.tunnel !== below) continue;
+    if (++count >= capacity || packetProgress(p) < 1 / capacity) return false;
+  }
+  return true;
+}
 
-    return progress < minProgress + 0.4;
-  });
+function isHorizontal(dir: Direction): boolean {
+  return dir === Direction.LEFT || dir === Direction.RIGHT;
 }
 
-export function isCellEmpty(state: GameState, x: number, y: number): boolean {
-  return !state.packets.some(p => p.x === x && p.y === y);
+/**
+ * Whether a packet heading `dir` can enter the crossing at (x, y). Each axis
+ * holds one packet, so only one travelling the same way (or back) blocks it.
+ */
+export function hasCrossingRoom(state: GameState, x: number, y: number, dir: Direction): boolean {
+  const horizontal = isHorizontal(dir);
+  return !state.packets.some(p => p.x === x && p.y === y && !p.tunnel && isHorizontal(p.dir) === horizontal);
 }
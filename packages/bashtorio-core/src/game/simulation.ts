@@ -4,42 +4,120 @@ import {
   CellType,
   MachineType,
   DirDelta,
+  BELT_TIERS,
+  BeltKind,
   type Packet,
   type Machine,
   type CommandMachine,
+  type CommandKillReason,
   type BeltCell,
   type MachineCell,
   type SplitterMachine,
+  type MergerMachine,
+  type CompositeMachine,
+  type FileSourceMachine,
+  type FileSinkMachine,
   type MathOp,
   SINK_DRAIN_SLOTS,
+  MERGER_INPUT_SLOTS,
   PACKET_SIZE,
 } from './types';
 import { viewportBounds } from './camera';
 
 import type { GameState } from './state';
-import { getCell } from './grid';
-import { getSplitterSecondary } from './edit';
-import { machines } from './machines';
-import { createPacket, isCellEmpty } from './packets';
+import { getCell, getBeltDir, getBeltTier, getBeltKind, findUndergroundExit } from './grid';
+import { getSplitterSecondary, splitterSideCell } from './edit';
+import { machines, getSourceBytes } from './machines';
+import { withWorld, worldPorts } from './composites';
+import { createPacket, hasRoom, hasCrossingRoom, packetProgress, setPacketProgress } from './packets';
 import { emitGameEvent, onGameEvent } from '../events/bus';
 import type { Settings } from '../util/settings';
 import { saveSettings } from '../util/settings';
-import { MarkerShell } from '../vm/markerShell';
+import { MarkerShell, type MarkerResult } from '../vm/markerShell';
+import type { Shell } from '../vm/shell';
+import { ReplShell } from '../vm/replShell';
 import * as vm from './vm';
-import { now, delta } from './clock';
+import { now, delta, step, FIXED_STEP_MS } from './clock';
 import { createLogger } from '../util/logger';
+import { utf8ToBinary, binaryToUtf8, bytesToBinary, binaryToBytes } from '../util/bytes';
+import { matchPacket } from '../util/match';
 
 const log = createLogger('CMD');
 
-/** MarkerShell instances for non-stream COMMAND machines (keyed by machine object) */
-const markerShells = new WeakMap<CommandMachine, MarkerShell>();
+/** One shell of a pipe/args-mode COMMAND machine and the line it is running */
+interface CommandWorker {
+  shell: Shell;
+  marker: MarkerShell;
+  /** Input line in flight, or null while idle */
+  input: string | null;
+  /** Position of that line in the machine's input */
+  seq: number;
+  pollPending: boolean;
+  /** Set while a kill is on its way to the guest */
+  killReason: CommandKillReason | null;
+  killTime: number;
+  /** Waiting on a replacement shell */
+  starting: boolean;
+}
+
+/** A finished line waiting for its turn on the belt */
+interface CommandResult {
+  input: string;
+  output: string;
+  exitCode: number;
+}
+
+interface WorkerPool {
+  workers: CommandWorker[];
+  nextSeq: number;
+  /** Next result to release when the machine keeps input order */
+  nextOut: number;
+  /** Results that finished ahead of an earlier line */
+  held: Map<number, CommandResult>;
+  /** Bytes the workers' in-flight reads may still bring back */
+  reading: number;
+  /** When the oldest line of a partial batch arrived (simulated ms), or null */
+  batchSince: number | null;
+}
+
+/** Worker pools for pipe/args-mode COMMAND machines (keyed by machine object) */
+const workerPools = new WeakMap<CommandMachine, WorkerPool>();
+/** ReplShell instances for REPL-mode COMMAND machines */
+const replShells = new WeakMap<CommandMachine, ReplShell>();
+/** The composite each inner machine runs in (keyed by machine object) */
+const worldOwners = new WeakMap<Machine, CompositeMachine>();
+
+/** Record which composite the machines of its world belong to. */
+function adoptWorld(machine: CompositeMachine): void {
+  for (const inner of machine.world?.machines ?? []) worldOwners.set(inner, machine);
+}
+
+/**
+ * Id for command log and audio events. Machines inside a composite are
+ * prefixed with the composite's own id, as their coordinates are only
+ * unique within its world.
+ */
+function eventMachineId(machine: Machine): string {
+  const owner = worldOwners.get(machine);
+  const id = `m_${machine.x}_${machine.y}`;
+  return owner ? `${eventMachineId(owner)}/${id}` : id;
+}
+
+/**
+ * Output waiting to go onto the belt before a command machine stops reading
+ * its shell. Unread output stays in the guest until the belt catches up.
+ */
+const COMMAND_OUTPUT_LIMIT = 4096;
+
+/** How long a killed command gets to report its end before its shell is replaced */
+const KILL_GRACE_MS = 2000;
 
 /** Wire event-bus listeners that belong to the simulation layer. */
 export function setupSimulationEvents(state: GameState, settings: Settings): void {
   onGameEvent('simulationKeyPress', ({ char }) => {
     for (const machine of machines) {
       if (machine.type === MachineType.KEYBOARD) {
-        machine.outputBuffer += char;
+        machine.outputBuffer += utf8ToBinary(char);
       }
     }
   });
@@ -75,24 +153,53 @@ export function setupSimulationEvents(state: GameState, settings: Settings): voi
     switch (machine.type) {
       case MachineType.BUTTON:
         machine.outputQueue.push(machine.buttonByte);
-        machine.lastCommandTime = performance.now();
+        machine.lastCommandTime = now;
         break;
       case MachineType.KEYBOARD:
         emitGameEvent('requestKeyboardFocus');
         break;
     }
   });
+
+  onGameEvent('commandKill', ({ machine }) => {
+    if (state.running) killCommand(machine, 'manual', now);
+  });
 }
 
 export async function startSimulation(state: GameState): Promise<void> {
   if (state.running) return;
 
+  await installFactoryPackages();
+  if (state.running) return;
+
   state.running = true;
   state.packets = [];
   state.orphanedPackets = [];
+  resetMachines(machines);
 
-  // Reset machines
-  for (const machine of machines) {
+  // Pre-create shells for autoStart commands before the sim loop ticks
+  await createAllAutostartShells();
+}
+
+/**
+ * Install the packages the factory declares before its commands need them.
+ * A failed install is reported but doesn't stop the run.
+ */
+async function installFactoryPackages(): Promise<void> {
+  const missing = vm.missingPackages();
+  if (missing.length === 0) return;
+  emitGameEvent('toast', { message: `Installing ${missing.join(' ')} from the package cache...` });
+  try {
+    await vm.ensurePackages();
+  } catch (e) {
+    log.error('Package install failed:', e);
+    emitGameEvent('toast', { message: `Package install failed: ${e instanceof Error ? e.message : String(e)}` });
+  }
+}
+
+/** Reset runtime state for a run, descending into composite worlds. */
+function resetMachines(list: Machine[]): void {
+  for (const machine of list) {
     switch (machine.type) {
       case MachineType.SOURCE:
         machine.sourcePos = 0;
@@ -105,6 +212,7 @@ export async function startSimulation(state: GameState): Promise<void> {
         break;
       case MachineType.COMMAND:
         machine.pendingInput = '';
+        machine.pendingPackets = [];
         machine.outputBuffer = '';
         machine.processing = false;
         machine.lastInputTime = 0;
@@ -113,7 +221,10 @@ export async function startSimulation(state: GameState): Promise<void> {
         machine.pollPending = false;
         machine.bytesIn = 0;
         machine.bytesOut = 0;
-        markerShells.delete(machine);
+        machine.errorBuffer = '';
+        machine.currentInput = '';
+        workerPools.delete(machine);
+        replShells.delete(machine);
         break;
       case MachineType.DISPLAY:
         machine.displayBuffer = '';
@@ -166,8 +277,13 @@ export async function startSimulation(state: GameState): Promise<void> {
         break;
       case MachineType.SPLITTER:
         machine.outputQueue = [];
+        machine.inputLanes = [];
         machine.toggle = 0;
         break;
+      case MachineType.MERGER:
+        machine.inputQueues = [[], [], [], []];
+        machine.mergerTurn = Direction.RIGHT;
+        break;
       case MachineType.SEVENSEG:
         machine.lastByte = -1;
         machine.outputQueue = [];
@@ -184,10 +300,10 @@ export async function startSimulation(state: GameState): Promise<void> {
         break;
       // TONE - silence on start
       case MachineType.TONE:
-        emitGameEvent('toneNote', { machineId: `m_${machine.x}_${machine.y}`, byte: 0, waveform: machine.waveform, dutyCycle: machine.dutyCycle });
+        emitGameEvent('toneNote', { machineId: eventMachineId(machine), byte: 0, waveform: machine.waveform, dutyCycle: machine.dutyCycle });
         break;
       case MachineType.NOISE:
-        emitGameEvent('noiseNote', { machineId: `m_${machine.x}_${machine.y}`, byte: 0, mode: machine.noiseMode });
+        emitGameEvent('noiseNote', { machineId: eventMachineId(machine), byte: 0, mode: machine.noiseMode });
         break;
       case MachineType.SPEAK:
         machine.accumulatedBuffer = '';
@@ -213,32 +329,82 @@ export async function startSimulation(state: GameState): Promise<void> {
         machine.stored = [];
         machine.exploded = false;
         break;
+      case MachineType.FILESOURCE:
+        machine.fileData = null;
+        machine.fileLoading = false;
+        machine.filePos = 0;
+        machine.clock.reset();
+        break;
+      case MachineType.FILESINK:
+        machine.fileBase = null;
+        machine.fileBuffer = '';
+        machine.fileDirty = false;
+        break;
       case MachineType.BUTTON:
+      case MachineType.PORT:
         machine.outputQueue = [];
         break;
+      case MachineType.COMPOSITE:
+        if (machine.world) {
+          adoptWorld(machine);
+          const inner = machine.world.state;
+          inner.running = true;
+          inner.packets = [];
+          inner.orphanedPackets = [];
+          resetMachines(machine.world.machines);
+        }
+        break;
       // SINK, NULL - no runtime state to reset
     }
   }
+}
 
-  // Pre-create shells for autoStart commands before the sim loop ticks
-  await createAllAutostartShells();
+/** Visit every machine, including those inside composites. */
+function forEachMachineDeep(list: Machine[], cb: (m: Machine) => void): void {
+  for (const machine of list) {
+    cb(machine);
+    if (machine.type === MachineType.COMPOSITE && machine.world) {
+      forEachMachineDeep(machine.world.machines, cb);
+    }
+  }
 }
 
-/** Create a ShellInstance for a command machine */
+/** Create a shell for a command machine */
 async function initCommandShell(machine: CommandMachine): Promise<void> {
-  const machineId = `m_${machine.x}_${machine.y}`;
+  const machineId = eventMachineId(machine);
   machine.processing = true;
 
   try {
-    const shell = await vm.createShell(machine.cwd);
+    const shell = await vm.createShell(machine.cwd, machine.env);
+
+    // REPL machines get a ReplShell, other non-stream machines a pool of MarkerShells
+    if (machine.repl) {
+      try {
+        replShells.set(machine, new ReplShell(shell, machine.replEnd, machine.replSentinel));
+      } catch (e) {
+        log.error(`Bad REPL end pattern for ${machineId}:`, e);
+        emitGameEvent('toast', { message: `${machine.label}: invalid response end pattern` });
+      }
+    } else if (!machine.stream) {
+      // The machine's own shell is the first worker; the rest start alongside it
+      const extra = await Promise.all(
+        Array.from({ length: machine.workers - 1 }, () => vm.createShell(machine.cwd, machine.env)),
+      );
+      workerPools.set(machine, {
+        workers: [shell, ...extra].map(s => ({
+          shell: s, marker: new MarkerShell(s), input: null, seq: 0,
+          pollPending: false, killReason: null, killTime: 0, starting: false,
+        })),
+        nextSeq: 0,
+        nextOut: 0,
+        held: new Map(),
+        reading: 0,
+        batchSince: null,
+      });
+    }
     machine.shell = shell;
     machine.processing = false;
     log.info(`Shell ready for ${machineId}`);
-
-    // Non-stream machines get a MarkerShell wrapper
-    if (!machine.stream) {
-      markerShells.set(machine, new MarkerShell(shell));
-    }
   } catch (e) {
     log.error(`Failed to create shell for ${machineId}:`, e);
     machine.processing = false;
@@ -251,11 +417,11 @@ async function createAllAutostartShells(): Promise<void> {
   if (!vm.isReady() || !vm.isFs9pReady()) return;
 
   const promises: Promise<void>[] = [];
-  for (const machine of machines) {
+  forEachMachineDeep(machines, machine => {
     if (machine.type === MachineType.COMMAND && machine.autoStart) {
       promises.push(initCommandShell(machine));
     }
-  }
+  });
   await Promise.all(promises);
 }
 
@@ -264,11 +430,15 @@ export function stopSimulation(state: GameState): void {
   state.orphanedPackets = [];
 
   // Stop active shells, silence tones, cancel speech
-  for (const machine of machines) {
+  forEachMachineDeep(machines, machine => {
     if (machine.type === MachineType.COMMAND) {
       if (machine.shell) machine.shell.stop();
+      for (const worker of workerPools.get(machine)?.workers ?? []) {
+        if (worker.shell !== machine.shell) worker.shell.stop();
+      }
       machine.shell = null;
       machine.pendingInput = '';
+      machine.pendingPackets = [];
       machine.outputBuffer = '';
       machine.processing = false;
       machine.lastInputTime = 0;
@@ -276,20 +446,27 @@ export function stopSimulation(state: GameState): void {
       machine.pollPending = false;
       machine.bytesIn = 0;
       machine.bytesOut = 0;
-      markerShells.delete(machine);
+      machine.errorBuffer = '';
+      machine.currentInput = '';
+      workerPools.delete(machine);
+      replShells.delete(machine);
     }
     if (machine.type === MachineType.TONE) {
-      emitGameEvent('toneNote', { machineId: `m_${machine.x}_${machine.y}`, byte: 0, waveform: machine.waveform, dutyCycle: machine.dutyCycle });
+      emitGameEvent('toneNote', { machineId: eventMachineId(machine), byte: 0, waveform: machine.waveform, dutyCycle: machine.dutyCycle });
     }
     if (machine.type === MachineType.NOISE) {
-      emitGameEvent('noiseNote', { machineId: `m_${machine.x}_${machine.y}`, byte: 0, mode: machine.noiseMode });
+      emitGameEvent('noiseNote', { machineId: eventMachineId(machine), byte: 0, mode: machine.noiseMode });
     }
     if (machine.type === MachineType.TNT) {
       machine.packetCount = 0;
       machine.stored = [];
       machine.exploded = false;
     }
-  }
+    if (machine.type === MachineType.COMPOSITE && machine.world) {
+      machine.world.state.running = false;
+      machine.world.state.packets = [];
+    }
+  });
   emitGameEvent('speakCancel');
 }
 
@@ -321,8 +498,10 @@ export function setSpeed(state: GameState, speed: number): void {
   state.timescale = speed;
 }
 
+/** First outward-facing belt around the machine, skipping the `exclude` side. */
 function findMachineOutput(
-  machine: Machine
+  machine: Machine,
+  exclude: Direction | null = null,
 ): { x: number; y: number; dir: Direction } | null {
   const directions = [Direction.RIGHT, Direction.DOWN, Direction.LEFT, Direction.UP];
   const deltas = [
@@ -333,6 +512,7 @@ function findMachineOutput(
   ];
 
   for (let i = 0; i < 4; i++) {
+    if (directions[i] === exclude) continue;
     const nx = machine.x + deltas[i].dx;
     const ny = machine.y + deltas[i].dy;
     const cell = getCell(nx, ny);
@@ -374,15 +554,39 @@ function findFlipperOutputs(
 
 /** Write pending input to a command machine's shell */
 function processCommandInput(machine: CommandMachine): void {
-  if (!machine.shell || machine.processing) return;
+  if (!machine.shell) return;
 
-  const machineId = `m_${machine.x}_${machine.y}`;
+  const machineId = eventMachineId(machine);
+
+  // REPL mode: start the program once, then feed it a line per response
+  if (machine.repl) {
+    const rs = replShells.get(machine);
+    if (!rs) return;
+    if (!machine.autoStartRan) {
+      machine.autoStartRan = true;
+      rs.start(machine.command);
+    }
+    if (!rs.ready || machine.processing) return;
+
+    const newlineIdx = machine.pendingInput.indexOf('\n');
+    if (newlineIdx === -1) return;
+    const input = machine.pendingInput.substring(0, newlineIdx);
+    machine.pendingInput = machine.pendingInput.substring(newlineIdx + 1);
+
+    rs.send(input, now);
+    machine.currentInput = input;
+    machine.bytesIn += input.length;
+    machine.processing = true;
+    emitGameEvent('vmStatusChange', { status: 'busy' });
+    emitGameEvent('commandStart', { machineId, command: machine.command, input: binaryToUtf8(input), inputMode: machine.inputMode });
+    return;
+  }
 
   // Stream mode: start command on first input, then write raw
   if (machine.stream) {
     if (!machine.autoStartRan) {
       machine.autoStartRan = true;
-      machine.shell.write(`stdbuf -o0 ${machine.command}\n`);
+      machine.shell.write(`stdbuf -o0 ${utf8ToBinary(machine.command)}\n`);
       emitGameEvent('commandStart', { machineId, command: machine.command, input: '', stream: true });
     }
     if (machine.pendingInput.length > 0) {
@@ -395,90 +599,411 @@ function processCommandInput(machine: CommandMachine): void {
     return;
   }
 
-  const ms = markerShells.get(machine);
-  if (!ms) return;
+  const pool = workerPools.get(machine);
+  if (!pool) return;
 
-  // AutoStart commands run without input
+  // AutoStart commands run once without input, on the first worker
   if (machine.autoStart && !machine.autoStartRan) {
+    const first = pool.workers[0];
+    if (first.input !== null || first.starting) return;
     machine.autoStartRan = true;
-    ms.execBare(machine.command);
-    machine.processing = true;
-    emitGameEvent('vmStatusChange', { status: 'busy' });
-    emitGameEvent('commandStart', { machineId, command: machine.command, input: '', inputMode: machine.inputMode });
+    startJob(machine, pool, 0, '', true);
     return;
   }
 
-  if (machine.pendingInput.length === 0) return;
+  // In order, one slow line holds back every result after it; stop handing
+  // out lines once a pool's worth is waiting behind it
+  if (machine.ordered && pool.held.size >= pool.workers.length) return;
+
+  // Each idle worker takes the next complete line, or batch of lines
+  pool.workers.forEach((worker, index) => {
+    if (worker.input !== null || worker.starting) return;
+    const input = takeCommandInput(machine, pool);
+    if (input !== null) startJob(machine, pool, index, input, false);
+  });
+}
 
-  // Non-stream: process when we have a complete line
-  const newlineIdx = machine.pendingInput.indexOf('\n');
-  if (newlineIdx === -1) return;
+/**
+ * Where the `index`th complete record of a Shell machine's pending input,
+ * starting at `start`, ends (delimiter excluded) and where the next begins.
+ * Null if that record hasn't fully arrived.
+ */
+function findRecord(machine: CommandMachine, start: number, index: number): { end: number; next: number } | null {
+  switch (machine.framing) {
+    case 'delimiter': {
+      const at = machine.pendingInput.indexOf(machine.recordDelimiter, start);
+      return at === -1 ? null : { end: at, next: at + machine.recordDelimiter.length };
+    }
+    case 'fixed': {
+      const end = start + Math.max(1, machine.recordLength);
+      return end <= machine.pendingInput.length ? { end, next: end } : null;
+    }
+    case 'packet':
+      return index < machine.pendingPackets.length
+        ? { end: start + machine.pendingPackets[index], next: start + machine.pendingPackets[index] }
+        : null;
+  }
+}
+
+/**
+ * Cut the next invocation's input off a Shell machine's pending input. Pipe
+ * mode keeps each record's delimiter, so a line reaches the command as the
+ * line `sh` would have read and line tools end their output the same way;
+ * args mode drops the final one, as an argument has no use for it. A
+ * batching pipe-mode machine takes up to `batchLines` records at once, and a
+ * short batch only after it has waited `batchMs`. Returns null while there
+ * is nothing ready to run.
+ */
+function takeCommandInput(machine: CommandMachine, pool: WorkerPool): string | null {
+  const limit = machine.inputMode === 'pipe' ? Math.max(1, machine.batchLines) : 1;
+  let end = 0;
+  let next = 0;
+  let records = 0;
+  while (records < limit) {
+    const record = findRecord(machine, next, records);
+    if (!record) break;
+    ({ end, next } = record);
+    records++;
+  }
+
+  if (records === 0) {
+    pool.batchSince = null;
+    return null;
+  }
+  if (records < limit) {
+    pool.batchSince ??= now;
+    if (now - pool.batchSince < machine.batchMs) return null;
+  }
+  pool.batchSince = null;
 
-  const line = machine.pendingInput.substring(0, newlineIdx + 1);
-  machine.pendingInput = machine.pendingInput.substring(newlineIdx + 1);
-  const input = line.replace(/\n$/, '');
+  const input = machine.pendingInput.substring(0, machine.inputMode === 'pipe' ? next : end);
+  machine.pendingInput = machine.pendingInput.substring(next);
+  machine.pendingPackets.splice(0, records);
+  return input;
+}
 
-  ms.exec(machine.command, input, machine.inputMode);
+/** Run one input line (or the bare command) on a worker's MarkerShell. */
+function startJob(machine: CommandMachine, pool: WorkerPool, index: number, input: string, bare: boolean): void {
+  const worker = pool.workers[index];
+  if (bare) worker.marker.execBare(machine.command, machine.cpuLimit, now);
+  else worker.marker.exec(machine.command, input, machine.inputMode, machine.cpuLimit, now);
+  worker.input = input;
+  worker.seq = pool.nextSeq++;
   machine.bytesIn += input.length;
-  machine.processing = true;
   emitGameEvent('vmStatusChange', { status: 'busy' });
-  emitGameEvent('commandStart', { machineId, command: machine.command, input, inputMode: machine.inputMode });
+  emitGameEvent('commandStart', {
+    machineId: eventMachineId(machine), command: machine.command, input: binaryToUtf8(input), inputMode: machine.inputMode, worker: index,
+  });
+}
+
+/** Read a shell's new stderr, onto the machine's error side if it has one. */
+function pollCommandStderr(machine: CommandMachine, shell: Shell): void {
+  // stderr bound for a belt waits for it like stdout does
+  const errRoom = machine.stderrDir !== null ? COMMAND_OUTPUT_LIMIT - machine.errorBuffer.length : undefined;
+  if (errRoom !== undefined && errRoom <= 0) return;
+  shell.readErr(errRoom).then(stderr => {
+    if (!stderr) return;
+    if (machine.stderrDir !== null) machine.errorBuffer += stderr;
+    emitGameEvent('commandError', { machineId: eventMachineId(machine), command: machine.command, stderr: binaryToUtf8(stderr) });
+  }).catch(() => {});
 }
 
 /** Poll a command machine's shell for output */
 function pollCommandOutput(machine: CommandMachine): void {
-  if (!machine.shell) return;
+  // A kill can swap the shell out while a read is in flight
+  const shell = machine.shell;
+  if (!shell) return;
+
+  // Back-pressure: leave output in the guest while the belt is backed up
+  const room = COMMAND_OUTPUT_LIMIT - machine.outputBuffer.length;
+  if (room <= 0) return;
+
+  const pool = workerPools.get(machine);
+  if (pool) {
+    pollWorkers(machine, pool, room);
+    return;
+  }
 
   if (machine.pollPending) return;
   machine.pollPending = true;
 
-  const machineId = `m_${machine.x}_${machine.y}`;
+  const machineId = eventMachineId(machine);
 
-  const pollStderr = () => {
-    machine.shell!.readErr().then(stderr => {
-      if (stderr) emitGameEvent('commandError', { machineId, command: machine.command, stderr });
-    }).catch(() => {});
-  };
+  if (machine.repl) {
+    const rs = replShells.get(machine);
+    if (!rs) { machine.pollPending = false; return; }
 
-  if (machine.stream) {
-    // Stream mode: output flows continuously, no markers
-    machine.shell.read().then(output => {
-      if (!output) return;
-      machine.outputBuffer += output;
-      machine.bytesOut += output.length;
-      machine.lastCommandTime = performance.now();
+    rs.poll(room).then(response => {
+      if (response === null || replShells.get(machine) !== rs) return;
+      // Output nobody asked for (a banner, a stray line) isn't a response
+      if (!machine.processing) return;
+
+      if (response.length > 0) {
+        machine.outputBuffer += response;
+        machine.bytesOut += response.length;
+      }
+      machine.processing = false;
+      machine.lastCommandTime = now;
+      emitGameEvent('vmStatusChange', { status: 'ready' });
+      emitGameEvent('commandComplete', {
+        machineId, command: machine.command, output: binaryToUtf8(response), durationMs: now - rs.lastSendTime, error: false,
+      });
     }).catch(e => {
       log.error('Poll error:', e);
     }).finally(() => {
-      pollStderr();
+      pollCommandStderr(machine, shell);
       machine.pollPending = false;
     });
     return;
   }
 
-  // Non-stream: delegate to MarkerShell
-  const ms = markerShells.get(machine);
-  if (!ms) { machine.pollPending = false; return; }
+  // Stream mode: output flows continuously, no markers
+  shell.read(room).then(output => {
+    if (!output || machine.shell !== shell) return;
+    machine.outputBuffer += output;
+    machine.bytesOut += output.length;
+    machine.lastCommandTime = now;
+  }).catch(e => {
+    log.error('Poll error:', e);
+  }).finally(() => {
+    pollCommandStderr(machine, shell);
+    machine.pollPending = false;
+  });
+}
+
+/**
+ * Poll the busy workers, sharing out the room left under the output limit
+ * with reads still in flight counted against it. Results held for their turn
+ * don't count, or the line they wait on could never be read.
+ */
+function pollWorkers(machine: CommandMachine, pool: WorkerPool, room: number): void {
+  const budget = room - pool.reading;
+  const ready = pool.workers.flatMap((w, index) => w.input !== null && !w.pollPending && !w.starting ? [index] : []);
+  if (budget <= 0 || ready.length === 0) return;
+
+  const share = Math.max(1, Math.floor(budget / ready.length));
+  for (const index of ready) pollWorker(machine, pool, index, share);
+}
+
+/** Poll one worker's MarkerShell for the end of its line, reading at most `room` bytes. */
+function pollWorker(machine: CommandMachine, pool: WorkerPool, index: number, room: number): void {
+  const worker = pool.workers[index];
+  worker.pollPending = true;
+  pool.reading += room;
+
+  const { shell, marker } = worker;
+  marker.poll(room).then(result => {
+    // A replaced shell's late answer belongs to nobody
+    if (result === null || worker.marker !== marker || workerPools.get(machine) !== pool) return;
+    const killed = worker.killReason ?? undefined;
+    worker.killReason = null;
+    finishJob(machine, pool, index, result, killed);
+  }).catch(e => {
+    log.error('Poll error:', e);
+  }).finally(() => {
+    pollCommandStderr(machine, shell);
+    worker.pollPending = false;
+    pool.reading -= room;
+  });
+}
 
-  ms.poll().then(result => {
-    if (result === null) return;
+/** Record a worker's finished line and free the worker for the next one. */
+function finishJob(machine: CommandMachine, pool: WorkerPool, index: number, result: MarkerResult, killed?: CommandKillReason): void {
+  const worker = pool.workers[index];
+  const { exitCode } = result;
+  // Output past the cap is dropped, whether or not the kill got there first
+  const output = machine.outputLimit > 0 ? result.output.slice(0, machine.outputLimit) : result.output;
+
+  pool.held.set(worker.seq, { input: worker.input ?? '', output, exitCode });
+  worker.input = null;
+  releaseResults(machine, pool);
+
+  machine.lastCommandTime = now;
+  if (pool.workers.every(w => w.input === null)) emitGameEvent('vmStatusChange', { status: 'ready' });
+  emitGameEvent('commandComplete', {
+    machineId: eventMachineId(machine), command: machine.command, output: binaryToUtf8(output),
+    durationMs: now - worker.marker.lastExecTime, error: exitCode !== 0, killed, worker: index,
+  });
+}
 
-    if (result.length > 0) {
-      machine.outputBuffer += result;
-      machine.bytesOut += result.length;
+/** Put finished lines on the machine's output, in input order unless it emits as they finish. */
+function releaseResults(machine: CommandMachine, pool: WorkerPool): void {
+  for (;;) {
+    const seq = machine.ordered ? pool.nextOut : pool.held.keys().next().value;
+    const result = seq === undefined ? undefined : pool.held.get(seq);
+    if (seq === undefined || !result) return;
+    pool.held.delete(seq);
+    pool.nextOut = seq + 1;
+
+    if (result.output.length > 0) {
+      machine.outputBuffer += result.output;
+      machine.bytesOut += result.output.length;
     }
+    if (result.exitCode !== 0) handleCommandFailure(machine, result.exitCode, result.input);
+  }
+}
 
-    machine.processing = false;
-    machine.lastCommandTime = performance.now();
-    emitGameEvent('vmStatusChange', { status: 'ready' });
-    emitGameEvent('commandComplete', {
-      machineId, command: machine.command, output: machine.outputBuffer, durationMs: performance.now() - ms.lastExecTime, error: false,
-    });
+/**
+ * Kill what a Shell machine is running. A marker-wrapped line is
+ * interrupted and finishes through the usual poll with status 137; a stream
+ * or REPL program is the machine's whole state, so its shell is replaced.
+ */
+function killCommand(machine: CommandMachine, reason: CommandKillReason, t: number): void {
+  if (!machine.shell) return;
+  if (machine.stream || machine.repl) {
+    restartCommandShell(machine, reason);
+    return;
+  }
+  for (const worker of workerPools.get(machine)?.workers ?? []) killWorker(worker, reason, t);
+}
+
+/** Interrupt a worker's line, starting its grace period at simulated time `t`. */
+function killWorker(worker: CommandWorker, reason: CommandKillReason, t: number): void {
+  if (worker.input === null || worker.killReason) return;
+  worker.killReason = reason;
+  worker.killTime = t;
+  worker.shell.interrupt();
+}
+
+/** Throw away a stream or REPL machine's shell; the update loop starts a fresh one. */
+function restartCommandShell(machine: CommandMachine, reason: CommandKillReason): void {
+  const machineId = eventMachineId(machine);
+  const started = replShells.get(machine)?.lastSendTime;
+  const wasProcessing = machine.processing;
+
+  machine.shell?.stop();
+  machine.shell = null;
+  replShells.delete(machine);
+  machine.processing = false;
+  machine.autoStartRan = false;
+
+  if (wasProcessing) handleCommandFailure(machine, 137, machine.currentInput);
+  emitGameEvent('vmStatusChange', { status: 'ready' });
+  emitGameEvent('commandComplete', {
+    machineId, command: machine.command, output: '', error: true, killed: reason,
+    durationMs: started !== undefined && wasProcessing ? now - started : 0,
+    stream: machine.stream || undefined,
+  });
+}
+
+/**
+ * Give a worker whose shell never answered a kill (wedged on I/O, or the
+ * kill was lost) a fresh shell. Its line counts as killed.
+ */
+function replaceWorker(machine: CommandMachine, pool: WorkerPool, index: number): void {
+  const worker = pool.workers[index];
+  const old = worker.shell;
+  const killed = worker.killReason ?? undefined;
+  worker.killReason = null;
+  worker.starting = true;
+  old.stop();
+  finishJob(machine, pool, index, { output: '', exitCode: 137 }, killed);
+
+  vm.createShell(machine.cwd, machine.env).then(shell => {
+    if (workerPools.get(machine) !== pool) {
+      shell.stop();
+      return;
+    }
+    if (machine.shell === old) machine.shell = shell;
+    worker.shell = shell;
+    worker.marker = new MarkerShell(shell);
+    worker.starting = false;
   }).catch(e => {
-    log.error('Poll error:', e);
+    log.error(`Failed to replace a shell for ${eventMachineId(machine)}:`, e);
+  });
+}
+
+/**
+ * Kill a Shell machine's lines (or REPL response) once they run past the
+ * timeout or output cap. `t` is simulated time, so fast-forwarded and
+ * headless runs time out the same lines as a realtime one.
+ */
+function enforceCommandLimits(machine: CommandMachine, t: number): void {
+  if (!machine.shell) return;
+
+  if (machine.repl) {
+    const rs = replShells.get(machine);
+    if (rs && machine.processing && machine.timeoutMs > 0 && t - rs.lastSendTime > machine.timeoutMs) {
+      restartCommandShell(machine, 'timeout');
+    }
+    return;
+  }
+
+  const pool = workerPools.get(machine);
+  if (!pool) return;
+  pool.workers.forEach((worker, index) => {
+    if (worker.input === null) return;
+    if (worker.killReason) {
+      if (t - worker.killTime > KILL_GRACE_MS) replaceWorker(machine, pool, index);
+    } else if (machine.timeoutMs > 0 && t - worker.marker.lastExecTime > machine.timeoutMs) {
+      killWorker(worker, 'timeout', t);
+    } else if (machine.outputLimit > 0 && worker.marker.pendingBytes > machine.outputLimit) {
+      killWorker(worker, 'output', t);
+    }
+  });
+}
+
+/** Apply a Shell machine's on-failure policy after a line exits non-zero. */
+function handleCommandFailure(machine: CommandMachine, exitCode: number, input: string): void {
+  switch (machine.onFailure) {
+    case 'exitCode':
+      machine.outputBuffer += String.fromCharCode(exitCode & 0xFF);
+      break;
+    case 'errorSide':
+      // Without a stderr side there is nowhere to send the line
+      if (machine.stderrDir !== null) {
+        // Pipe-mode records already end in their delimiter
+        const ended = machine.framing !== 'delimiter' || input.endsWith(machine.recordDelimiter);
+        machine.errorBuffer += ended ? input : input + machine.recordDelimiter;
+      }
+      break;
+    case 'stop':
+      emitGameEvent('toast', { message: `${machine.label}: command exited with status ${exitCode}` });
+      emitGameEvent('endSimulation');
+      break;
+  }
+}
+
+/** Read a File Source's file for this run; it emits nothing until the read lands. */
+function loadFileSource(machine: FileSourceMachine): void {
+  machine.fileLoading = true;
+  vm.readFile(machine.filePath).then(
+    data => { machine.fileData = bytesToBinary(data); },
+    e => {
+      log.warn(`File Source ${machine.filePath}:`, e);
+      emitGameEvent('toast', { message: `File Source: cannot read ${machine.filePath}` });
+      machine.fileData = '';
+    },
+  ).finally(() => { machine.fileLoading = false; });
+}
+
+/**
+ * Write a File Sink's bytes to its file. The whole file is rewritten each
+ * time, so writes are coalesced: while one is in flight, later bytes only
+ * mark the sink dirty and go out with the next write. A reset clears the
+ * sink under a running loop, which then starts the next run's file over
+ * from its own base; the write already in flight is superseded by it.
+ */
+function flushFileSink(machine: FileSinkMachine): void {
+  if (machine.fileWriting || !vm.isFs9pReady()) return;
+  machine.fileWriting = true;
+  (async () => {
+    while (machine.fileDirty) {
+      if (machine.fileBase === null) {
+        const base = machine.append
+          ? await vm.readFile(machine.filePath).then(bytesToBinary, () => '')
+          : '';
+        // A reset while reading leaves nothing of this run to write
+        if (!machine.fileDirty) break;
+        machine.fileBase = base;
+      }
+      machine.fileDirty = false;
+      await vm.writeFile(machine.filePath, binaryToBytes(machine.fileBase + machine.fileBuffer));
+    }
+  })().catch(e => {
+    log.error(`File Sink ${machine.filePath}:`, e);
   }).finally(() => {
-    pollStderr();
-    machine.pollPending = false;
+    machine.fileWriting = false;
   });
 }
 
@@ -495,8 +1020,21 @@ function applyMathOp(op: MathOp, value: number, operand: number): number {
   }
 }
 
-/** Returns true if the machine accepted the packet, false if rejected. */
-function deliverToMachine(state: GameState, machine: Machine, content: string, fromDir?: Direction): boolean {
+/**
+ * Whether `machine` takes a packet coming in from `fromDir` right now. Most
+ * machines queue without limit; a merger holds a few per side, and the belt
+ * feeding a full side waits instead.
+ */
+function machineHasRoom(machine: Machine, fromDir: Direction): boolean {
+  if (machine.type === MachineType.MERGER) return machine.inputQueues[fromDir].length < MERGER_INPUT_SLOTS;
+  return true;
+}
+
+/**
+ * Returns true if the machine accepted the packet, false if rejected. `at` is
+ * the cell the packet came in at, which tells a splitter's two input lanes apart.
+ */
+function deliverToMachine(state: GameState, machine: Machine, content: string, fromDir?: Direction, at?: { x: number; y: number }): boolean {
   if (machine.type === MachineType.SINK) {
     // Push into circular drain-animation ring
     const entry = { char: content, time: now };
@@ -507,12 +1045,18 @@ function deliverToMachine(state: GameState, machine: Machine, content: string, f
       machine.drainRing[machine.drainHead] = entry;
       machine.drainHead = (machine.drainHead + 1) % SINK_DRAIN_SLOTS;
     }
-    emitGameEvent('sinkOutput', { sink: machine, content });
+    // A composite's inner sinks keep the ids of its definition, which outer
+    // sinks and every other instance share; their output stays inside it
+    if (!worldOwners.has(machine)) emitGameEvent('sinkOutput', { sink: machine, content });
     emitGameEvent('sinkReceive', { char: content });
+  } else if (machine.type === MachineType.FILESINK) {
+    machine.fileBuffer += content;
+    machine.fileDirty = true;
+    flushFileSink(machine);
   } else if (machine.type === MachineType.DISPLAY) {
     if (content === '\n' || content === '\r') {
       if (machine.displayBuffer.length > 0) {
-        machine.displayText = machine.displayBuffer;
+        machine.displayText = binaryToUtf8(machine.displayBuffer);
         machine.displayTime = now;
         machine.displayBuffer = '';
       }
@@ -522,9 +1066,10 @@ function deliverToMachine(state: GameState, machine: Machine, content: string, f
     }
   } else if (machine.type === MachineType.COMMAND) {
     machine.pendingInput += content;
+    if (machine.framing === 'packet') machine.pendingPackets.push(content.length);
     machine.lastInputTime = now;
     if (machine.stream) {
-      emitGameEvent('streamWrite', { machineId: `m_${machine.x}_${machine.y}`, bytes: content.length });
+      emitGameEvent('streamWrite', { machineId: eventMachineId(machine), bytes: content.length });
     } else {
       emitGameEvent('machineReceive', { char: content });
     }
@@ -551,9 +1096,9 @@ function deliverToMachine(state: GameState, machine: Machine, content: string, f
     machine.outputQueue.push(content);
     emitGameEvent('flipperRotate');
   }
-  // FILTER: pass or block a specific byte
+  // FILTER: pass or block packets matching a byte, set or regex
   else if (machine.type === MachineType.FILTER) {
-    const match = content === machine.filterByte;
+    const match = matchPacket(machine.filterMatch, machine.filterByte, machine.filterPattern, content);
     if ((machine.filterMode === 'pass' && match) || (machine.filterMode === 'block' && !match)) {
       machine.outputQueue.push(content);
     }
@@ -570,25 +1115,27 @@ function deliverToMachine(state: GameState, machine: Machine, content: string, f
   else if (machine.type === MachineType.DELAY) {
     machine.delayQueue.push({ char: content, time: now });
   }
-  // PACKER: accumulate bytes until delimiter, then flush to outputBuffer
+  // PACKER: accumulate bytes until delimiter, then flush to outputBuffer.
+  // A delimiter typed as a multi-byte character arrives a byte at a time.
   else if (machine.type === MachineType.PACKER) {
-    if (content === machine.packerDelimiter) {
-      const packed = machine.accumulatedBuffer + (machine.preserveDelimiter ? content : '');
+    machine.accumulatedBuffer += content;
+    if (machine.accumulatedBuffer.endsWith(machine.packerDelimiter)) {
+      const packed = machine.preserveDelimiter
+        ? machine.accumulatedBuffer
+        : machine.accumulatedBuffer.slice(0, -machine.packerDelimiter.length);
       machine.outputBuffer += packed;
       machine.accumulatedBuffer = '';
       machine.lastCommandTime = now;
-      emitGameEvent('pack', { machineId: `m_${machine.x}_${machine.y}`, length: packed.length });
-    } else {
-      machine.accumulatedBuffer += content;
+      emitGameEvent('pack', { machineId: eventMachineId(machine), length: packed.length });
     }
   }
   // UNPACKER: dump all chars of received content into outputBuffer
   else if (machine.type === MachineType.UNPACKER) {
     machine.outputBuffer += content;
   }
-  // ROUTER: route by match byte
+  // ROUTER: route by match byte, set or regex
   else if (machine.type === MachineType.ROUTER) {
-    if (content === machine.routerByte) {
+    if (matchPacket(machine.routerMatch, machine.routerByte, machine.routerPattern, content)) {
       machine.matchQueue.push(content);
     } else {
       machine.elseQueue.push(content);
@@ -657,9 +1204,14 @@ function deliverToMachine(state: GameState, machine: Machine, content: string, f
     }
   }
 
-  // SPLITTER: buffer input for alternating dual-output
+  // SPLITTER: buffer input for dual output, remembering which lane it came in on
   else if (machine.type === MachineType.SPLITTER) {
     machine.outputQueue.push(content);
+    machine.inputLanes.push(at && (at.x !== machine.x || at.y !== machine.y) ? 1 : 0);
+  }
+  // MERGER: queue per input side; emitFromMerger picks the side
+  else if (machine.type === MachineType.MERGER) {
+    machine.inputQueues[fromDir ?? Direction.LEFT].push(content);
   }
   // SEVENSEG: passthrough display
   else if (machine.type === MachineType.SEVENSEG) {
@@ -683,26 +1235,26 @@ function deliverToMachine(state: GameState, machine: Machine, content: string, f
   // TONE: continuous oscillator, consumes byte (terminal)
   else if (machine.type === MachineType.TONE) {
     machine.lastCommandTime = now;
-    emitGameEvent('toneNote', { machineId: `m_${machine.x}_${machine.y}`, byte: content.charCodeAt(0), waveform: machine.waveform, dutyCycle: machine.dutyCycle });
+    emitGameEvent('toneNote', { machineId: eventMachineId(machine), byte: content.charCodeAt(0), waveform: machine.waveform, dutyCycle: machine.dutyCycle });
   }
   // NOISE: LFSR noise channel, consumes byte (terminal)
   else if (machine.type === MachineType.NOISE) {
     const byte = content.charCodeAt(0);
     machine.lastCommandTime = byte === 0 ? 0 : now;
-    emitGameEvent('noiseNote', { machineId: `m_${machine.x}_${machine.y}`, byte, mode: machine.noiseMode });
+    emitGameEvent('noiseNote', { machineId: eventMachineId(machine), byte, mode: machine.noiseMode });
   }
   // SPEAK: accumulate bytes, speak on delimiter (terminal)
   else if (machine.type === MachineType.SPEAK) {
-    if (content === machine.speakDelimiter) {
+    machine.accumulatedBuffer += content;
+    if (machine.accumulatedBuffer.endsWith(machine.speakDelimiter)) {
+      machine.accumulatedBuffer = machine.accumulatedBuffer.slice(0, -machine.speakDelimiter.length);
       if (machine.accumulatedBuffer.length > 0) {
-        machine.displayText = machine.accumulatedBuffer;
+        machine.displayText = binaryToUtf8(machine.accumulatedBuffer);
         machine.displayTime = now;
-        emitGameEvent('speak', { text: machine.accumulatedBuffer, rate: machine.speakRate, pitch: machine.speakPitch });
+        emitGameEvent('speak', { text: machine.displayText, rate: machine.speakRate, pitch: machine.speakPitch });
         machine.accumulatedBuffer = '';
         machine.lastCommandTime = now;
       }
-    } else {
-      machine.accumulatedBuffer += content;
     }
   }
   // SCREEN: write bytes into circular buffer (terminal, no re-emission)
@@ -719,7 +1271,7 @@ function deliverToMachine(state: GameState, machine: Machine, content: string, f
     machine.stored.push(content);
     machine.packetCount++;
     machine.lastCommandTime = now;
-    emitGameEvent('tntSpark', { machineId: `m_${machine.x}_${machine.y}`, count: machine.packetCount });
+    emitGameEvent('tntSpark', { machineId: eventMachineId(machine), count: machine.packetCount });
     if (machine.packetCount >= 20) {
       machine.exploded = true;
       const count = machine.stored.length;
@@ -739,9 +1291,22 @@ function deliverToMachine(state: GameState, machine: Machine, content: string, f
         });
       }
       machine.stored = [];
-      emitGameEvent('tntExplode', { machineId: `m_${machine.x}_${machine.y}`, x: machine.x, y: machine.y, count });
+      emitGameEvent('tntExplode', { machineId: eventMachineId(machine), x: machine.x, y: machine.y, count });
     }
   }
+  // PORT: pass-through; inside a composite this is where outside packets enter and leave
+  else if (machine.type === MachineType.PORT) {
+    machine.outputQueue.push(content);
+  }
+  // COMPOSITE: hand the packet to the inner input port on the side it arrived from
+  else if (machine.type === MachineType.COMPOSITE) {
+    if (!machine.world) return false;
+    const inputs = worldPorts(machine.world, 'in');
+    const port = inputs.find(p => p.portSide === fromDir) ?? (fromDir === undefined ? inputs[0] : undefined);
+    if (!port) return false;
+    port.outputQueue.push(content);
+    machine.lastCommandTime = now;
+  }
   // KEYBOARD: output-only, no-op on receive
   return true;
 }
@@ -756,13 +1321,14 @@ function orphanPacket(state: GameState, packet: Packet, cellX: number, cellY: nu
 	const worldX = cellX * GRID_SIZE + packet.offsetX;
 	const worldY = cellY * GRID_SIZE + packet.offsetY;
 	const delta = DirDelta[packet.dir];
+	const speed = state.beltSpeed * BELT_TIERS[getBeltTier(packet.x, packet.y)].speed;
 
 	state.orphanedPackets.push({
 		id: state.packetId++,
 		worldX,
 		worldY,
-		vx: delta.dx * state.beltSpeed * 1.5,
-		vy: delta.dy * state.beltSpeed * 1.5,
+		vx: delta.dx * speed * 1.5,
+		vy: delta.dy * speed * 1.5,
 		content: packet.content,
 		age: 0,
 	});
@@ -803,14 +1369,71 @@ function updateOrphanedPackets(state: GameState, deltaTime: number): void {
 	}
 }
 
+/**
+ * On a belt holding several packets, keep `packet` a slot behind the nearest
+ * one ahead of it in the cell (as of `progress`, where it was before moving).
+ */
+function keepSpacing(state: GameState, packet: Packet, progress: number, slot: number): void {
+  let ahead = Infinity;
+  for (const p of state.packets) {
+    if (p === packet || p.x !== packet.x || p.y !== packet.y || p.dir !== packet.dir || !!p.tunnel !== !!packet.tunnel) continue;
+    const other = packetProgress(p);
+    if (other > progress || (other === progress && p.id < packet.id)) ahead = Math.min(ahead, other);
+  }
+  // Hold back, but never behind where it started this step
+  if (ahead !== Infinity && packetProgress(packet) > ahead - slot) {
+    setPacketProgress(packet, Math.max(ahead - slot, progress));
+  }
+}
+
+/** Stop a packet at the far edge of its cell until the next one has room. */
+function holdAtEdge(packet: Packet): void {
+  if (packet.dir === Direction.RIGHT) packet.offsetX = GRID_SIZE - 1;
+  else if (packet.dir === Direction.LEFT) packet.offsetX = 1;
+  else if (packet.dir === Direction.DOWN) packet.offsetY = GRID_SIZE - 1;
+  else if (packet.dir === Direction.UP) packet.offsetY = 1;
+  packet.waiting = true;
+}
+
+/**
+ * Move a packet on through `tunnel`: from its entrance down below, to the
+ * next cell below ground, or up onto the exit once it gets there. Cells on
+ * the way keep a space of their own below, so the run takes as long as the
+ * same stretch of surface belt would. A packet only goes under once there is
+ * room; until then it waits on the entrance like any surface packet.
+ */
+function moveUnderground(state: GameState, packet: Packet, tunnel: NonNullable<Packet['tunnel']>, nextX: number, nextY: number): boolean {
+  const { exitX, exitY, tier } = tunnel;
+  const surfacing = nextX === exitX && nextY === exitY;
+
+  // The exit was taken away mid-run
+  if (surfacing && (getBeltKind(exitX, exitY) !== BeltKind.EXIT || getBeltDir(exitX, exitY) !== packet.dir)) {
+    orphanPacket(state, packet, nextX, nextY);
+    return false;
+  }
+
+  if (!(surfacing ? hasRoom(state, nextX, nextY) : hasRoom(state, nextX, nextY, tier))) {
+    holdAtEdge(packet);
+    return true;
+  }
+
+  packet.tunnel = surfacing ? undefined : tunnel;
+  packet.x = nextX;
+  packet.y = nextY;
+  packet.waiting = false;
+  return true;
+}
+
 function updatePacket(
   state: GameState,
   packet: Packet,
   deltaTime: number,
 ): boolean {
-  const raw = state.beltSpeed * state.timescale * (deltaTime / 16);
+  const tier = BELT_TIERS[packet.tunnel?.tier ?? getBeltTier(packet.x, packet.y)];
+  const raw = state.beltSpeed * tier.speed * state.timescale * (deltaTime / 16);
   const speed = Math.min(raw, MAX_PACKET_STEP);
   const center = GRID_SIZE / 2;
+  const progress = packetProgress(packet);
 
   const delta = DirDelta[packet.dir];
   packet.offsetX += delta.dx * speed;
@@ -824,6 +1447,8 @@ function updatePacket(
     packet.offsetX += (center - packet.offsetX) * pull;
   }
 
+  if (tier.capacity > 1) keepSpacing(state, packet, progress, 1 / tier.capacity);
+
   // Check if leaving current cell
   let leaving = false;
   let nextX = packet.x;
@@ -849,6 +1474,18 @@ function updatePacket(
 
   if (!leaving) return true;
 
+  if (packet.tunnel) return moveUnderground(state, packet, packet.tunnel, nextX, nextY);
+
+  // Leaving an underground entrance forward dives below to its exit
+  if (getBeltKind(packet.x, packet.y) === BeltKind.ENTRANCE) {
+    const exit = findUndergroundExit(packet.x, packet.y, packet.dir);
+    if (!exit) {
+      orphanPacket(state, packet, nextX, nextY);
+      return false;
+    }
+    return moveUnderground(state, packet, { exitX: exit.x, exitY: exit.y, tier: getBeltTier(packet.x, packet.y) }, nextX, nextY);
+  }
+
   const nextCell = getCell(nextX, nextY);
 
   // Fell into empty space - orphan the packet
@@ -859,21 +1496,25 @@ function updatePacket(
 
   // Entering a machine
   if (nextCell.type === CellType.MACHINE) {
-    const machineCell = nextCell as MachineCell;
-    const accepted = deliverToMachine(state, machineCell.machine, packet.content, ((packet.dir + 2) % 4) as Direction);
+    const machine = (nextCell as MachineCell).machine;
+    const fromDir = ((packet.dir + 2) % 4) as Direction;
+    if (!machineHasRoom(machine, fromDir)) {
+      holdAtEdge(packet);
+      return true;
+    }
+    const accepted = deliverToMachine(state, machine, packet.content, fromDir, { x: nextX, y: nextY });
     if (!accepted) {
       orphanPacket(state, packet, nextX, nextY);
     }
     return false;
   }
 
-  // Block if next cell is occupied
-  if (!isCellEmpty(state, nextX, nextY)) {
-    if (packet.dir === Direction.RIGHT) packet.offsetX = GRID_SIZE - 1;
-    else if (packet.dir === Direction.LEFT) packet.offsetX = 1;
-    else if (packet.dir === Direction.DOWN) packet.offsetY = GRID_SIZE - 1;
-    else if (packet.dir === Direction.UP) packet.offsetY = 1;
-    packet.waiting = true;
+  // Block if next cell is occupied; a crossing only by packets on the same axis
+  const room = nextCell.type === CellType.CROSSING
+    ? hasCrossingRoom(state, nextX, nextY, packet.dir)
+    : hasRoom(state, nextX, nextY);
+  if (!room) {
+    holdAtEdge(packet);
     return true;
   }
 
@@ -882,6 +1523,7 @@ function updatePacket(
   packet.y = nextY;
   packet.waiting = false;
 
+  // Belts turn the packet; across a crossing it keeps going straight
   if (nextCell.type === CellType.BELT) {
     packet.dir = (nextCell as BeltCell).dir;
   }
@@ -900,11 +1542,24 @@ function emitFromSplitter(state: GameState, machine: SplitterMachine): boolean {
   const out1 = { x: sec.x + delta.dx, y: sec.y + delta.dy };
 
   const outputs = [out0, out1];
-  const toggleSide = machine.toggle;
-  const otherSide = 1 - toggleSide;
+  const preferred = splitterSideCell(dir, machine.splitterSide);
+
+  // Input priority takes the oldest packet from the preferred lane, if there is one
+  let index = 0;
+  if (machine.splitterMode === 'input-priority') {
+    index = Math.max(0, machine.inputLanes.indexOf(preferred));
+  }
+  const content = machine.outputQueue[index];
+
+  // Sides to try, in order; a filtered packet has only one
+  let sides: number[];
+  switch (machine.splitterMode) {
+    case 'output-priority': sides = [preferred, 1 - preferred]; break;
+    case 'set': sides = [matchPacket('set', '', machine.splitterSet, content) ? preferred : 1 - preferred]; break;
+    default: sides = [machine.toggle, 1 - machine.toggle];
+  }
 
-  // Try toggle side first, then overflow to other side
-  for (const side of [toggleSide, otherSide]) {
+  for (const side of sides) {
     const o = outputs[side];
     const cell = getCell(o.x, o.y);
     // Accept belt cells matching direction, or machine cells
@@ -912,10 +1567,11 @@ function emitFromSplitter(state: GameState, machine: SplitterMachine): boolean {
       (cell.type === CellType.BELT && (cell as BeltCell).dir === dir) ||
       cell.type === CellType.MACHINE;
     if (!canAccept) continue;
-    if (!isCellEmpty(state, o.x, o.y)) continue;
+    if (!hasRoom(state, o.x, o.y)) continue;
 
-    const packet = machine.outputQueue.shift()!;
-    createPacket(state, o.x, o.y, packet, dir);
+    machine.outputQueue.splice(index, 1);
+    machine.inputLanes.splice(index, 1);
+    createPacket(state, o.x, o.y, content, dir);
     machine.toggle = 1 - machine.toggle;
     return true;
   }
@@ -923,14 +1579,105 @@ function emitFromSplitter(state: GameState, machine: SplitterMachine): boolean {
   return false;
 }
 
+/**
+ * Send on one packet from a merger's input queues. The fair policy goes round
+ * the sides starting after the last one it served, so a side that always has
+ * packets waiting can't starve the others; the priority policy serves its
+ * priority side whenever that has one and shares the rest fairly.
+ */
+function emitFromMerger(state: GameState, machine: MergerMachine): boolean {
+  const output = findMachineOutput(machine);
+  if (!output || !hasRoom(state, output.x, output.y)) return false;
+
+  const queues = machine.inputQueues;
+  let side: Direction | null = null;
+  if (machine.mergerPolicy === 'priority' && queues[machine.mergerPriorityDir].length > 0) {
+    side = machine.mergerPriorityDir;
+  } else {
+    for (let i = 0; i < 4 && side === null; i++) {
+      const d = ((machine.mergerTurn + i) % 4) as Direction;
+      if (queues[d].length > 0) side = d;
+    }
+    if (side === null) return false;
+    machine.mergerTurn = ((side + 1) % 4) as Direction;
+  }
+
+  createPacket(state, output.x, output.y, queues[side].shift()!, output.dir);
+  return true;
+}
+
+/**
+ * Tick a composite's inner world with the regular simulation, then move
+ * whatever reached its output ports onto the belts leaving each port's side.
+ */
+function emitFromComposite(state: GameState, machine: CompositeMachine): boolean {
+  const world = machine.world;
+  if (!world) return false;
+
+  world.state.beltSpeed = state.beltSpeed;
+  world.state.timescale = state.timescale;
+  // The world is rebuilt when its definition changes mid-run
+  adoptWorld(machine);
+  withWorld(world, () => updateSimulation(world.state));
+  // Packets that fall off inner belts have nowhere to bounce
+  world.state.orphanedPackets.length = 0;
+
+  let emitted = false;
+  for (const port of worldPorts(world, 'out')) {
+    if (port.outputQueue.length === 0) continue;
+    const dir = port.portSide;
+    const d = DirDelta[dir];
+    const nx = machine.x + d.dx;
+    const ny = machine.y + d.dy;
+    const cell = getCell(nx, ny);
+    if (cell.type !== CellType.BELT || (cell as BeltCell).dir !== dir) continue;
+    if (!hasRoom(state, nx, ny)) continue;
+    createPacket(state, nx, ny, port.outputQueue.shift()!, dir);
+    machine.lastCommandTime = now;
+    emitted = true;
+  }
+  return emitted;
+}
+
+/** Emit stdout on the first free output side and stderr on its own side, if set. */
+function emitFromCommand(state: GameState, machine: CommandMachine): boolean {
+  let emitted = false;
+
+  const output = findMachineOutput(machine, machine.stderrDir);
+  if (output && machine.outputBuffer.length > 0 && hasRoom(state, output.x, output.y)) {
+    const char = machine.outputBuffer[0];
+    machine.outputBuffer = machine.outputBuffer.slice(1);
+    createPacket(state, output.x, output.y, char, output.dir);
+    emitted = true;
+  }
+
+  if (machine.stderrDir !== null && machine.errorBuffer.length > 0) {
+    const dir = machine.stderrDir;
+    const d = DirDelta[dir];
+    const nx = machine.x + d.dx;
+    const ny = machine.y + d.dy;
+    const cell = getCell(nx, ny);
+    if (cell.type === CellType.BELT && (cell as BeltCell).dir === dir && hasRoom(state, nx, ny)) {
+      const char = machine.errorBuffer[0];
+      machine.errorBuffer = machine.errorBuffer.slice(1);
+      createPacket(state, nx, ny, char, dir);
+      emitted = true;
+    }
+  }
+
+  return emitted;
+}
+
 function emitFromMachine(state: GameState, machine: Machine): boolean {
   const dt = delta * state.timescale;
 
   // --- Timer machines: advance clock before checking output ---
 
   if (machine.type === MachineType.SOURCE) {
-    if (machine.sourceText.length === 0) return false;
-    if (machine.sourcePos >= machine.sourceText.length) return false;
+    // sourcePos counts bytes of the UTF-8 encoded text
+    const bytes = getSourceBytes(machine);
+    if (bytes.length === 0) return false;
+    if (machine.sourcePos >= bytes.length) return false;
     if (machine.gapTimer.timeRemaining > 0) {
       machine.gapTimer.advance(dt);
       if (!machine.gapTimer.shouldTick()) return false;
@@ -940,12 +1687,12 @@ function emitFromMachine(state: GameState, machine: Machine): boolean {
     }
     if (!machine.clock.shouldTick()) return false;
     const output = findMachineOutput(machine);
-    if (!output || !isCellEmpty(state, output.x, output.y)) return false;
-    const char = machine.sourceText[machine.sourcePos];
+    if (!output || !hasRoom(state, output.x, output.y)) return false;
+    const char = bytes[machine.sourcePos];
     createPacket(state, output.x, output.y, char, output.dir);
     const drift = -machine.clock.timeRemaining;
     machine.sourcePos++;
-    if (machine.sourcePos >= machine.sourceText.length) {
+    if (machine.sourcePos >= bytes.length) {
       if (machine.loop) {
         machine.sourcePos = 0;
         if (machine.gapTimer.interval > 0) {
@@ -962,7 +1709,7 @@ function emitFromMachine(state: GameState, machine: Machine): boolean {
     machine.clock.advance(dt);
     if (!machine.clock.shouldTick()) return false;
     const output = findMachineOutput(machine);
-    if (!output || !isCellEmpty(state, output.x, output.y)) return false;
+    if (!output || !hasRoom(state, output.x, output.y)) return false;
     createPacket(state, output.x, output.y, '\n', output.dir);
     machine.clock.start(-machine.clock.timeRemaining);
     return true;
@@ -972,7 +1719,7 @@ function emitFromMachine(state: GameState, machine: Machine): boolean {
     machine.clock.advance(dt);
     if (!machine.clock.shouldTick()) return false;
     const output = findMachineOutput(machine);
-    if (!output || !isCellEmpty(state, output.x, output.y)) return false;
+    if (!output || !hasRoom(state, output.x, output.y)) return false;
     createPacket(state, output.x, output.y, machine.clockByte, output.dir);
     machine.clock.start(-machine.clock.timeRemaining);
     return true;
@@ -989,7 +1736,7 @@ function emitFromMachine(state: GameState, machine: Machine): boolean {
     }
     if (!machine.clock.shouldTick()) return false;
     const output = findMachineOutput(machine);
-    if (!output || !isCellEmpty(state, output.x, output.y)) return false;
+    if (!output || !hasRoom(state, output.x, output.y)) return false;
     const char = String.fromCharCode(machine.byteData[machine.bytePos]);
     createPacket(state, output.x, output.y, char, output.dir);
     const drift = -machine.clock.timeRemaining;
@@ -1014,7 +1761,7 @@ function emitFromMachine(state: GameState, machine: Machine): boolean {
     }
     if (!machine.clock.shouldTick()) return false;
     const output = findMachineOutput(machine);
-    if (!output || !isCellEmpty(state, output.x, output.y)) return false;
+    if (!output || !hasRoom(state, output.x, output.y)) return false;
     const char = String.fromCharCode(machine.cardData[machine.cardPos]);
     createPacket(state, output.x, output.y, char, output.dir);
     const drift = -machine.clock.timeRemaining;
@@ -1032,25 +1779,53 @@ function emitFromMachine(state: GameState, machine: Machine): boolean {
     return true;
   }
 
+  if (machine.type === MachineType.FILESOURCE) {
+    if (!machine.filePath) return false;
+    if (machine.fileData === null) {
+      if (!machine.fileLoading && vm.isFs9pReady()) loadFileSource(machine);
+      return false;
+    }
+    if (machine.filePos >= machine.fileData.length) return false;
+    machine.clock.advance(dt);
+    if (!machine.clock.shouldTick()) return false;
+    const output = findMachineOutput(machine);
+    if (!output || !hasRoom(state, output.x, output.y)) return false;
+    createPacket(state, output.x, output.y, machine.fileData[machine.filePos], output.dir);
+    machine.filePos++;
+    if (machine.filePos >= machine.fileData.length && machine.loop) machine.filePos = 0;
+    machine.clock.start(-machine.clock.timeRemaining);
+    return true;
+  }
+
+  // Splitters and mergers pick among several outputs or inputs themselves
+  if (machine.type === MachineType.SPLITTER) {
+    return machine.outputQueue.length > 0 && emitFromSplitter(state, machine);
+  }
+
+  if (machine.type === MachineType.MERGER) {
+    return emitFromMerger(state, machine);
+  }
+
+  if (machine.type === MachineType.COMPOSITE) {
+    return emitFromComposite(state, machine);
+  }
+
+  if (machine.type === MachineType.COMMAND) {
+    return emitFromCommand(state, machine);
+  }
+
   // --- Buffering machines: emit freely when output is clear ---
 
   const output = findMachineOutput(machine);
   if (!output) return false;
-  if (!isCellEmpty(state, output.x, output.y)) return false;
+  if (!hasRoom(state, output.x, output.y)) return false;
 
-  if (machine.type === MachineType.COMMAND) {
-    if (machine.outputBuffer.length > 0) {
-      const char = machine.outputBuffer[0];
-      machine.outputBuffer = machine.outputBuffer.slice(1);
-      createPacket(state, output.x, output.y, char, output.dir);
-      return true;
-    }
-  } else if (machine.type === MachineType.DUPLICATOR) {
+  if (machine.type === MachineType.DUPLICATOR) {
     if (machine.outputQueue.length > 0) {
       const outputs = findFlipperOutputs(machine);
       if (outputs.length === 0) return false;
       for (const o of outputs) {
-        if (!isCellEmpty(state, o.x, o.y)) return false;
+        if (!hasRoom(state, o.x, o.y)) return false;
       }
       const packet = machine.outputQueue.shift()!;
       for (const o of outputs) {
@@ -1066,7 +1841,7 @@ function emitFromMachine(state: GameState, machine: Machine): boolean {
       const ny = machine.y + d.dy;
       const cell = getCell(nx, ny);
       if (cell.type !== CellType.BELT || (cell as BeltCell).dir !== dir) return false;
-      if (!isCellEmpty(state, nx, ny)) return false;
+      if (!hasRoom(state, nx, ny)) return false;
       const packet = machine.outputQueue.shift()!;
       createPacket(state, nx, ny, packet, dir);
       return true;
@@ -1092,7 +1867,7 @@ function emitFromMachine(state: GameState, machine: Machine): boolean {
       const ny = machine.y + d.dy;
       const cell = getCell(nx, ny);
       if (cell.type !== CellType.BELT || (cell as BeltCell).dir !== dir) return false;
-      if (!isCellEmpty(state, nx, ny)) return false;
+      if (!hasRoom(state, nx, ny)) return false;
       createPacket(state, nx, ny, machine.outputBuffer, dir);
       machine.outputBuffer = '';
       return true;
@@ -1105,7 +1880,7 @@ function emitFromMachine(state: GameState, machine: Machine): boolean {
       const nx = machine.x + d.dx;
       const ny = machine.y + d.dy;
       const cell = getCell(nx, ny);
-      if (cell.type === CellType.BELT && (cell as BeltCell).dir === dir && isCellEmpty(state, nx, ny)) {
+      if (cell.type === CellType.BELT && (cell as BeltCell).dir === dir && hasRoom(state, nx, ny)) {
         const packet = machine.matchQueue.shift()!;
         createPacket(state, nx, ny, packet, dir);
         emitted = true;
@@ -1117,7 +1892,7 @@ function emitFromMachine(state: GameState, machine: Machine): boolean {
       const nx = machine.x + d.dx;
       const ny = machine.y + d.dy;
       const cell = getCell(nx, ny);
-      if (cell.type === CellType.BELT && (cell as BeltCell).dir === dir && isCellEmpty(state, nx, ny)) {
+      if (cell.type === CellType.BELT && (cell as BeltCell).dir === dir && hasRoom(state, nx, ny)) {
         const packet = machine.elseQueue.shift()!;
         createPacket(state, nx, ny, packet, dir);
         emitted = true;
@@ -1130,7 +1905,7 @@ function emitFromMachine(state: GameState, machine: Machine): boolean {
       createPacket(state, output.x, output.y, packet, output.dir);
       return true;
     }
-  } else if (machine.type === MachineType.GATE || machine.type === MachineType.WIRELESS || machine.type === MachineType.SEVENSEG || machine.type === MachineType.DRUM || machine.type === MachineType.BUTTON) {
+  } else if (machine.type === MachineType.GATE || machine.type === MachineType.WIRELESS || machine.type === MachineType.SEVENSEG || machine.type === MachineType.DRUM || machine.type === MachineType.BUTTON || machine.type === MachineType.PORT) {
     if (machine.outputQueue.length > 0) {
       const packet = machine.outputQueue.shift()!;
       createPacket(state, output.x, output.y, packet, output.dir);
@@ -1143,10 +1918,6 @@ function emitFromMachine(state: GameState, machine: Machine): boolean {
       createPacket(state, output.x, output.y, char, output.dir);
       return true;
     }
-  } else if (machine.type === MachineType.SPLITTER) {
-    if (machine.outputQueue.length > 0) {
-      return emitFromSplitter(state, machine);
-    }
   }
 
   return false;
@@ -1171,7 +1942,7 @@ export function updateSimulation(
     }
   }
 
-  // Process command machines and check display timeouts
+  // Process command machines, file sinks and display timeouts
   for (const machine of machines) {
     if (machine.type === MachineType.COMMAND) {
       if (machine.shell) {
@@ -1179,6 +1950,7 @@ export function updateSimulation(
         processCommandInput(machine);
         // Poll for output
         pollCommandOutput(machine);
+        enforceCommandLimits(machine, now);
       } else if (!machine.processing && vm.isReady() && vm.isFs9pReady()) {
         // Shell not yet created (e.g. VM became ready after sim started)
         initCommandShell(machine);
@@ -1186,12 +1958,15 @@ export function updateSimulation(
     } else if (machine.type === MachineType.DISPLAY) {
       if (machine.displayBuffer.length > 0 && machine.lastByteTime > 0) {
         if (now - machine.lastByteTime > 500) {
-          machine.displayText = machine.displayBuffer;
+          machine.displayText = binaryToUtf8(machine.displayBuffer);
           machine.displayTime = now;
           machine.displayBuffer = '';
           machine.lastByteTime = 0;
         }
       }
+    } else if (machine.type === MachineType.FILESINK && machine.fileDirty) {
+      // Bytes that arrived before the guest filesystem was up
+      flushFileSink(machine);
     }
   }
 
@@ -1205,3 +1980,21 @@ export function updateSimulation(
   // Update orphaned packets (gravity physics)
   updateOrphanedPackets(state, delta);
 }
+
+/**
+ * Advance the clock by one fixed step and run a single simulation update.
+ * Replaying the same steps from the same state yields the same belt state,
+ * which is what the fixed-timestep loop and headless runs rely on.
+ */
+export function stepSimulation(state: GameState, dt: number = FIXED_STEP_MS): void {
+  step(dt);
+  updateSimulation(state);
+}
+
+/** Run `durationMs` of simulated time in fixed steps, without a canvas or animation frames. */
+export function runSimulationFor(state: GameState, durationMs: number, dt: number = FIXED_STEP_MS): void {
+  const steps = Math.ceil(durationMs / dt);
+  for (let i = 0; i < steps && state.running; i++) {
+    stepSimulation(state, dt);
+  }
+}
@@ -1,4 +1,12 @@
-import type { Machine, Packet, OrphanedPacket, CursorMode, PlaceableType, Direction } from './types';
+import type { Machine, Packet, OrphanedPacket, CursorMode, PlaceableType, Direction, GridRect } from './types';
+import type { Fragment } from '../util/fragment';
+
+/** A fragment following the cursor; (grabX, grabY) is the fragment cell under the pointer */
+export interface FloatingFragment {
+  fragment: Fragment;
+  grabX: number;
+  grabY: number;
+}
 
 export interface GameState {
   packets: Packet[];
@@ -14,6 +22,12 @@ export interface GameState {
 
   selectedMachine: Machine | null;
   mouseDown: boolean;
+
+  selection: GridRect | null;
+  clipboard: Fragment | null;
+  floating: FloatingFragment | null;
+  /** Entrance picked for the underground belt being placed; the next click places its exit */
+  undergroundStart: { x: number; y: number; dir: Direction } | null;
 }
 
 export function createInitialState(): GameState {
@@ -31,5 +45,10 @@ export function createInitialState(): GameState {
 
     selectedMachine: null,
     mouseDown: false,
+
+    selection: null,
+    clipboard: null,
+    floating: null,
+    undergroundStart: null,
   };
 }
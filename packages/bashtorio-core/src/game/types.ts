@@ -1,5 +1,6 @@
 import type { EmitTimer } from './clock';
-import type { ShellInstance } from '../vm/shell';
+import type { Shell } from '../vm/shell';
+import type { CompositeWorld } from './composites';
 
 // Grid and rendering constants
 export const DEFAULT_GRID_COLS = 32;
@@ -24,10 +25,20 @@ export const DirDelta: Record<Direction, { dx: number; dy: number }> = {
 
 export const DirArrows = ['→', '↓', '←', '↑'] as const;
 
+/** Inclusive rectangle of grid cells */
+export interface GridRect {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
 export enum CellType {
   EMPTY = 0,
   BELT = 1,
   MACHINE = 2,
+  /** Horizontal and vertical belts passing straight through each other */
+  CROSSING = 3,
 }
 
 export enum MachineType {
@@ -55,6 +66,7 @@ export enum MachineType {
   LATCH = 'latch',
 
   SPLITTER = 'splitter',
+  MERGER = 'merger',
   SEVENSEG = 'sevenseg',
   DRUM = 'drum',
   TONE = 'tone',
@@ -65,8 +77,52 @@ export enum MachineType {
   PUNCHCARD = 'punchcard',
   TNT = 'tnt',
   BUTTON = 'button',
+  FILESOURCE = 'filesource',
+  FILESINK = 'filesink',
+
+  PORT = 'port',
+  COMPOSITE = 'composite',
+}
+
+/** Belt speed class; NORMAL is 0 so fresh grid chunks default to it */
+export enum BeltTier {
+  NORMAL = 0,
+  SLOW = 1,
+  EXPRESS = 2,
 }
 
+/**
+ * What a belt cell is besides a plain belt. An underground entrance sends
+ * packets below ground to the first exit facing the same way within
+ * UNDERGROUND_MAX_SPAN cells ahead; whatever lies between is passed under.
+ */
+export enum BeltKind {
+  PLAIN = 0,
+  ENTRANCE = 1,
+  EXIT = 2,
+}
+
+/** Furthest an underground exit can be from its entrance, in cells */
+export const UNDERGROUND_MAX_SPAN = 6;
+
+export interface BeltTierInfo {
+  label: string;
+  /** Multiplier on the global belt speed */
+  speed: number;
+  /** Packets one cell holds at a time, evenly spaced */
+  capacity: number;
+}
+
+/**
+ * Slow belts move half as fast but hold two packets a cell, so they buffer
+ * without losing throughput; express belts are twice as fast and as dense.
+ */
+export const BELT_TIERS: Record<BeltTier, BeltTierInfo> = {
+  [BeltTier.NORMAL]: { label: 'Belt', speed: 1, capacity: 1 },
+  [BeltTier.SLOW]: { label: 'Slow Belt', speed: 0.5, capacity: 2 },
+  [BeltTier.EXPRESS]: { label: 'Express Belt', speed: 2, capacity: 2 },
+};
+
 export interface EmptyCell {
   type: CellType.EMPTY;
 }
@@ -74,6 +130,8 @@ export interface EmptyCell {
 export interface BeltCell {
   type: CellType.BELT;
   dir: Direction;
+  tier: BeltTier;
+  kind: BeltKind;
 }
 
 export interface MachineCell {
@@ -81,7 +139,12 @@ export interface MachineCell {
   machine: Machine;
 }
 
-export type Cell = EmptyCell | BeltCell | MachineCell;
+/** Packets keep their direction across it; each axis holds one packet */
+export interface CrossingCell {
+  type: CellType.CROSSING;
+}
+
+export type Cell = EmptyCell | BeltCell | MachineCell | CrossingCell;
 
 export interface MachineBase {
   x: number;
@@ -94,6 +157,7 @@ export interface SourceMachine extends MachineBase {
   clock: EmitTimer;
   gapTimer: EmitTimer;
   sourceText: string;
+  sourceBytes: { text: string; bytes: string }; // UTF-8 encoding of sourceText, see getSourceBytes
   sourcePos: number;
   loop: boolean;
 }
@@ -111,12 +175,21 @@ export interface SinkMachine extends MachineBase {
   drainHead: number;
 }
 
+/** Why a running command was killed */
+export type CommandKillReason = 'timeout' | 'output' | 'manual';
+
 export interface CommandMachine extends MachineBase {
   type: MachineType.COMMAND;
   label: string;
   command: string;
   autoStart: boolean;
   stream: boolean;
+  /** Keep one interactive process running and feed it a line at a time (see vm/replShell) */
+  repl: boolean;
+  /** REPL: regex marking the end of a response; empty means one line per response */
+  replEnd: string;
+  /** REPL: line written after each input so the program prints a known end marker */
+  replSentinel: string;
   inputMode: 'pipe' | 'args';
   pendingInput: string;
   outputBuffer: string;
@@ -124,10 +197,40 @@ export interface CommandMachine extends MachineBase {
   lastInputTime: number;
   autoStartRan: boolean;
   cwd: string;
-  shell: ShellInstance | null;
+  /** Extra variables exported into the shell before it starts */
+  env: Record<string, string>;
+  shell: Shell | null;
   pollPending: boolean;
   bytesIn: number;
   bytesOut: number;
+  /** Side whose belt carries stderr; null keeps stderr in the log only */
+  stderrDir: Direction | null;
+  onFailure: CommandFailureMode;
+  /** Bytes waiting to leave on the stderr side */
+  errorBuffer: string;
+  /** Input line of the REPL response in flight, for routing it out on failure */
+  currentInput: string;
+  /** Kill a command (or REPL response) still running after this long; 0 = never */
+  timeoutMs: number;
+  /** `ulimit -t` for each command, in CPU seconds; 0 = unlimited */
+  cpuLimit: number;
+  /** Kill a command whose output passes this many bytes and keep only those; 0 = unlimited */
+  outputLimit: number;
+  /** Shells running input lines side by side (pipe/args mode only) */
+  workers: number;
+  /** With several workers, hold results back so output keeps input order */
+  ordered: boolean;
+  /** Pipe mode: records fed to one invocation at a time; 1 runs the command per record */
+  batchLines: number;
+  /** Pipe mode: how long a short batch waits for more records before running anyway (ms) */
+  batchMs: number;
+  framing: CommandFraming;
+  /** Byte that ends a record under delimiter framing */
+  recordDelimiter: string;
+  /** Bytes per record under fixed framing */
+  recordLength: number;
+  /** Lengths of the packets queued in pendingInput, under packet framing */
+  pendingPackets: number[];
 }
 
 export interface DisplayMachine extends MachineBase {
@@ -159,9 +262,20 @@ export interface DuplicatorMachine extends MachineBase {
   outputQueue: string[];
 }
 
+/**
+ * How a Filter or Router recognizes packets: `byte` compares with one exact
+ * byte; `set` matches packets made only of bytes in a set like `0-9`,
+ * `[:alpha:]_` or `^,;` (see util/match); `regex` tests a regular expression
+ * against the whole packet as text.
+ */
+export type MatchMode = 'byte' | 'set' | 'regex';
+
 export interface FilterMachine extends MachineBase {
   type: MachineType.FILTER;
   filterByte: string;
+  filterMatch: MatchMode;
+  /** Set or regex, when filterMatch isn't `byte` */
+  filterPattern: string;
   filterMode: 'pass' | 'block';
   outputQueue: string[];
 }
@@ -199,11 +313,28 @@ export interface UnpackerMachine extends MachineBase {
   outputBuffer: string;
 }
 
+/**
+ * What a Shell machine does when a command exits non-zero:
+ * - ignore: nothing beyond the usual output
+ * - exitCode: follow the output with the exit status as one byte
+ * - errorSide: send the input line out the stderr side
+ * - stop: stop the simulation
+ */
+export type CommandFailureMode = 'ignore' | 'exitCode' | 'errorSide' | 'stop';
+
+/**
+ * How a pipe/args-mode Shell machine cuts its input into records, one run
+ * each: at a delimiter byte, every `recordLength` bytes, or one per packet.
+ */
+export type CommandFraming = 'delimiter' | 'fixed' | 'packet';
+
 export type MathOp = 'add' | 'sub' | 'mul' | 'mod' | 'xor' | 'and' | 'or' | 'not';
 
 export interface RouterMachine extends MachineBase {
   type: MachineType.ROUTER;
   routerByte: string;
+  routerMatch: MatchMode;
+  routerPattern: string;
   routerMatchDir: Direction;
   routerElseDir: Direction;
   matchQueue: string[];
@@ -256,11 +387,46 @@ export interface LatchMachine extends MachineBase {
 }
 
 
+/**
+ * How a splitter picks an output. `round-robin` alternates, overflowing to the
+ * other side while one is blocked; `input-priority` does the same but sends
+ * packets from the preferred side's input lane first; `output-priority` uses
+ * the preferred side and overflows only while it is blocked; `set` sends
+ * packets made only of bytes in `splitterSet` to the preferred side and
+ * everything else to the other.
+ */
+export type SplitterMode = 'round-robin' | 'input-priority' | 'output-priority' | 'set';
+
+/** Side of a splitter, looking along its direction */
+export type SplitterSide = 'left' | 'right';
+
 export interface SplitterMachine extends MachineBase {
   type: MachineType.SPLITTER;
   dir: Direction;
+  splitterMode: SplitterMode;
+  splitterSide: SplitterSide;
+  /** Byte set for `set` mode, in the syntax of util/match parseByteSet */
+  splitterSet: string;
   toggle: number;
   outputQueue: string[];
+  /** Cell each queued packet came in at, 0 primary or 1 secondary; parallel to outputQueue */
+  inputLanes: number[];
+}
+
+/** `fair` takes turns between the inputs with packets waiting; `priority` serves `mergerPriorityDir` first */
+export type MergerPolicy = 'fair' | 'priority';
+
+/** Packets a merger holds per input side before that side's belt has to wait */
+export const MERGER_INPUT_SLOTS = 2;
+
+export interface MergerMachine extends MachineBase {
+  type: MachineType.MERGER;
+  mergerPolicy: MergerPolicy;
+  mergerPriorityDir: Direction;
+  /** Packets waiting on each side, indexed by the Direction they came in from */
+  inputQueues: string[][];
+  /** Side the fair policy looks at first next time */
+  mergerTurn: Direction;
 }
 
 export interface SevenSegMachine extends MachineBase {
@@ -313,6 +479,33 @@ export interface ByteMachine extends MachineBase {
   bytePos: number;
 }
 
+export interface FileSourceMachine extends MachineBase {
+  type: MachineType.FILESOURCE;
+  /** Guest path; relative paths are in the factory workspace */
+  filePath: string;
+  clock: EmitTimer;
+  loop: boolean;
+  /** File contents as a binary string, read once per run; null until read */
+  fileData: string | null;
+  fileLoading: boolean;
+  filePos: number;
+}
+
+export interface FileSinkMachine extends MachineBase {
+  type: MachineType.FILESINK;
+  /** Guest path; relative paths are in the factory workspace */
+  filePath: string;
+  /** Keep what the file held before the run instead of replacing it */
+  append: boolean;
+  /** Contents before the run (append mode); null until read */
+  fileBase: string | null;
+  /** Bytes received this run */
+  fileBuffer: string;
+  /** Bytes arrived since the last write started */
+  fileDirty: boolean;
+  fileWriting: boolean;
+}
+
 export interface PunchCardMachine extends MachineBase {
   type: MachineType.PUNCHCARD;
   clock: EmitTimer;
@@ -336,6 +529,27 @@ export interface ButtonMachine extends MachineBase {
   outputQueue: string[];
 }
 
+export type PortMode = 'in' | 'out';
+
+/**
+ * Marks where packets enter or leave a subfactory. On the open grid a port is
+ * a plain pass-through; inside a composite, `portSide` is the side of the
+ * composite block it is wired to.
+ */
+export interface PortMachine extends MachineBase {
+  type: MachineType.PORT;
+  portMode: PortMode;
+  portSide: Direction;
+  outputQueue: string[];
+}
+
+/** A single-cell block running a copy of a saved subfactory definition */
+export interface CompositeMachine extends MachineBase {
+  type: MachineType.COMPOSITE;
+  compositeId: string;
+  world: CompositeWorld | null; // runtime, rebuilt from the definition on load
+}
+
 export type Machine =
   | SourceMachine
   | SinkMachine
@@ -359,6 +573,7 @@ export type Machine =
   | ClockMachine
   | LatchMachine
   | SplitterMachine
+  | MergerMachine
   | SevenSegMachine
   | DrumMachine
   | ToneMachine
@@ -368,7 +583,11 @@ export type Machine =
   | ByteMachine
   | PunchCardMachine
   | TntMachine
-  | ButtonMachine;
+  | ButtonMachine
+  | FileSourceMachine
+  | FileSinkMachine
+  | PortMachine
+  | CompositeMachine;
 
 export interface MachineByType {
   [MachineType.SOURCE]: SourceMachine;
@@ -394,6 +613,7 @@ export interface MachineByType {
   [MachineType.LATCH]: LatchMachine;
 
   [MachineType.SPLITTER]: SplitterMachine;
+  [MachineType.MERGER]: MergerMachine;
   [MachineType.SEVENSEG]: SevenSegMachine;
   [MachineType.DRUM]: DrumMachine;
   [MachineType.TONE]: ToneMachine;
@@ -404,6 +624,11 @@ export interface MachineByType {
   [MachineType.PUNCHCARD]: PunchCardMachine;
   [MachineType.TNT]: TntMachine;
   [MachineType.BUTTON]: ButtonMachine;
+  [MachineType.FILESOURCE]: FileSourceMachine;
+  [MachineType.FILESINK]: FileSinkMachine;
+
+  [MachineType.PORT]: PortMachine;
+  [MachineType.COMPOSITE]: CompositeMachine;
 }
 
 export type BufferingMachine =
@@ -430,13 +655,14 @@ export type QueueingMachine =
   | SplitterMachine
   | SevenSegMachine
   | DrumMachine
-  | ButtonMachine;
+  | ButtonMachine
+  | PortMachine;
 
 export function hasOutputQueue(m: Machine): m is QueueingMachine {
   return 'outputQueue' in m;
 }
 
-export type EmittingMachine = SourceMachine | LinefeedMachine | ClockMachine | ByteMachine | PunchCardMachine;
+export type EmittingMachine = SourceMachine | LinefeedMachine | ClockMachine | ByteMachine | PunchCardMachine | FileSourceMachine;
 
 export function hasClock(m: Machine): m is EmittingMachine {
   return 'clock' in m;
@@ -451,10 +677,19 @@ export interface Packet {
   content: string;
   dir: Direction;
   waiting: boolean;
+  /** Set while travelling underground: the exit it surfaces at, and the entrance's tier */
+  tunnel?: { exitX: number; exitY: number; tier: BeltTier };
 }
 
 export type CursorMode = 'select' | 'erase' | 'machine';
-export type PlaceableType = 'belt' | 'splitter' | 'source' | 'command' | 'sink' | 'display' | 'null' | 'linefeed' | 'flipper' | 'duplicator' | 'filter' | 'counter' | 'delay' | 'keyboard' | 'packer' | 'unpacker' | 'router' | 'gate' | 'wireless' | 'replace' | 'math' | 'clock' | 'latch' | 'sevenseg' | 'drum' | 'tone' | 'noise' | 'speak' | 'screen' | 'byte' | 'punchcard' | 'tnt' | 'button';
+export type PlaceableType = 'belt' | 'slowbelt' | 'expressbelt' | 'underground' | 'crossing' | 'splitter' | 'merger' | 'source' | 'command' | 'sink' | 'display' | 'null' | 'linefeed' | 'flipper' | 'duplicator' | 'filter' | 'counter' | 'delay' | 'keyboard' | 'packer' | 'unpacker' | 'router' | 'gate' | 'wireless' | 'replace' | 'math' | 'clock' | 'latch' | 'sevenseg' | 'drum' | 'tone' | 'noise' | 'speak' | 'screen' | 'byte' | 'punchcard' | 'tnt' | 'button' | 'filesource' | 'filesink' | 'port' | `composite:${string}`;
+
+/** Placeables that lay belts, and the tier each lays */
+export const PLACEABLE_BELT_TIER: Partial<Record<PlaceableType, BeltTier>> = {
+  belt: BeltTier.NORMAL,
+  slowbelt: BeltTier.SLOW,
+  expressbelt: BeltTier.EXPRESS,
+};
 
 export interface OrphanedPacket {
 	id: number;
@@ -1,14 +1,40 @@
-import { LinuxVM, type VMConfig, type ShellInstance } from '../vm';
+import { LinuxVM, type VMConfig } from '../vm';
+import type { Shell, ShellHost } from '../vm/shell';
+import { GUEST_WORKSPACE, type TreeFile, type DirEntry } from '../vm/bridge';
+import { createLogger } from '../util/logger';
+import { storeSnapshot, type VMSnapshotInfo } from '../util/snapshots';
+import { installPackages } from '../vm/packages';
+
+const log = createLogger('VM');
 
 let instance: LinuxVM | null = null;
+/** Replaces the VM for shell creation while set (headless runs, factory tests) */
+let standIn: ShellHost | null = null;
+/** Last known workspace contents; the VM copy is authoritative once it is up */
+let workspace: TreeFile[] = [];
+/** Workspace restores run one after another so a later load always wins */
+let workspaceWrite: Promise<void> = Promise.resolve();
+/** Snapshot this session booted from; null for the stock image */
+let bootedSnapshot: string | null = null;
+/** Snapshot the loaded factory was saved against, if any */
+let factorySnapshot: string | null = null;
+/** Alpine packages the loaded factory needs from the local package cache */
+let factoryPackages: string[] = [];
+/** Packages installed since boot */
+const installedPackages = new Set<string>();
+let packageInstall: Promise<string[]> | null = null;
 
 // ---------------------------------------------------------------------------
 // Lifecycle
 // ---------------------------------------------------------------------------
 
-export async function initVM(config: VMConfig): Promise<void> {
+/** Boot the VM; `snapshotName` names `config.snapshot` when booting from a saved one. */
+export async function initVM(config: VMConfig, snapshotName: string | null = null): Promise<void> {
   instance = new LinuxVM();
   await instance.init(config);
+  bootedSnapshot = config.snapshot ? snapshotName : null;
+  installedPackages.clear();
+  if (workspace.length > 0) queueWorkspaceRestore(instance, workspace);
 }
 
 export function destroyVM(): void {
@@ -25,16 +51,76 @@ export async function downloadState(filename?: string): Promise<void> {
   await instance?.downloadState(filename);
 }
 
+// ---------------------------------------------------------------------------
+// Snapshots
+// ---------------------------------------------------------------------------
+
+/** Save the running VM into the local snapshot library under `name`. */
+export async function saveSnapshot(name: string): Promise<VMSnapshotInfo> {
+  if (!instance?.ready) throw new Error('VM not ready');
+  return storeSnapshot(name, await instance.saveState());
+}
+
+export function getBootedSnapshot(): string | null {
+  return bootedSnapshot;
+}
+
+export function getFactorySnapshot(): string | null {
+  return factorySnapshot;
+}
+
+/** Tie the loaded factory to a snapshot (saved with it), or untie it with null. */
+export function setFactorySnapshot(name: string | null): void {
+  factorySnapshot = name;
+}
+
+// ---------------------------------------------------------------------------
+// Packages
+// ---------------------------------------------------------------------------
+
+export function getFactoryPackages(): string[] {
+  return factoryPackages;
+}
+
+export function setFactoryPackages(names: string[]): void {
+  factoryPackages = names;
+}
+
+/** Factory packages not yet installed; none under a stand-in, which has no apk */
+export function missingPackages(): string[] {
+  if (standIn) return [];
+  return factoryPackages.filter(name => !installedPackages.has(name));
+}
+
+/**
+ * Install the factory's missing packages from the local cache. Resolves with
+ * the names installed; a call made while an install is running joins it.
+ */
+export function ensurePackages(onStatus?: (status: string) => void): Promise<string[]> {
+  if (packageInstall) return packageInstall;
+  const missing = missingPackages();
+  if (missing.length === 0) return Promise.resolve([]);
+  if (!instance?.ready) return Promise.reject(new Error('VM not ready'));
+
+  packageInstall = installPackages(instance, missing, onStatus)
+    .then(() => {
+      for (const name of missing) installedPackages.add(name);
+      return missing;
+    })
+    .finally(() => { packageInstall = null; });
+  return packageInstall;
+}
+
 // ---------------------------------------------------------------------------
 // Property accessors
 // ---------------------------------------------------------------------------
 
 export function isReady(): boolean {
-  return instance?.ready ?? false;
+  return (standIn ?? instance)?.ready ?? false;
 }
 
 export function isFs9pReady(): boolean {
-  return instance?.fs9pReady ?? false;
+  return (standIn ?? instance)?.fs9pReady ?? false;
 }
 
 export function getNetworkRelay(): string | null {
@@ -45,8 +131,76 @@ export function getNetworkRelay(): string | null {
 // Shell creation (replaces old job/stream/exec API)
 // ---------------------------------------------------------------------------
 
-export function createShell(initialCwd?: string): Promise<ShellInstance> {
-  return instance!.createShell(initialCwd);
+export function createShell(initialCwd?: string, env?: Record<string, string>): Promise<Shell> {
+  return (standIn ?? instance!).createShell(initialCwd, env);
+}
+
+/**
+ * Route shell creation to `host` instead of the VM, or back to the VM with
+ * null. Returns the previous stand-in so callers can restore it.
+ */
+export function setShellHost(host: ShellHost | null): ShellHost | null {
+  const prev = standIn;
+  standIn = host;
+  return prev;
+}
+
+// ---------------------------------------------------------------------------
+// Guest files
+// ---------------------------------------------------------------------------
+
+/** Absolute guest path for a machine's file path; relative paths are in the workspace */
+export function resolveGuestPath(path: string): string {
+  return path.startsWith('/') ? path : `${GUEST_WORKSPACE}/${path}`;
+}
+
+/** Browse the VM's filesystem; null without a VM or if `path` isn't a directory */
+export function listDir(path: string): DirEntry[] | null {
+  return instance?.fs9pReady ? instance.listDir(resolveGuestPath(path)) : null;
+}
+
+export function readFile(path: string): Promise<Uint8Array> {
+  return (standIn ?? instance!).readFile(resolveGuestPath(path));
+}
+
+export function writeFile(path: string, data: Uint8Array): Promise<void> {
+  return (standIn ?? instance!).writeFile(resolveGuestPath(path), data);
+}
+
+// ---------------------------------------------------------------------------
+// Factory workspace
+// ---------------------------------------------------------------------------
+
+function queueWorkspaceRestore(vm: LinuxVM, files: TreeFile[]): void {
+  workspaceWrite = workspaceWrite
+    .then(() => vm.restoreWorkspace(files))
+    .catch(e => log.error('Failed to restore workspace:', e));
+}
+
+/**
+ * Replace the workspace with a loaded factory's files. Written into the VM
+ * now if it is up, otherwise once it boots.
+ */
+export function setWorkspace(files: TreeFile[]): void {
+  workspace = files;
+  if (instance?.fs9pReady) queueWorkspaceRestore(instance, files);
+}
+
+/** Workspace files as of the last capture or load */
+export function getWorkspace(): TreeFile[] {
+  return workspace;
+}
+
+/** Pull the current workspace out of the VM, for saving. */
+export async function captureWorkspace(): Promise<TreeFile[]> {
+  if (!instance?.fs9pReady) return workspace;
+  await workspaceWrite;
+  try {
+    workspace = await instance.captureWorkspace();
+  } catch (e) {
+    log.error('Failed to read workspace:', e);
+  }
+  return workspace;
 }
 
 // ---------------------------------------------------------------------------
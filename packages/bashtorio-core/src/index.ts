@@ -5,6 +5,9 @@ export * from './game/state';
 // ----------- Re-exports: VM -----------
 export { LinuxVM, V86Bridge, ShellInstance, encodeHex, shellEscape } from './vm';
 export type { VMConfig } from './vm';
+export { StubShell, StubShellHost } from './vm';
+export type { Shell, ShellHost } from './vm/shell';
+export type { StubCommandHandler } from './vm';
 export * as vm from './game/vm';
 
 // ----------- Re-exports: Render -----------
@@ -28,26 +31,33 @@ export { emitGameEvent, onGameEvent, destroyGameEvents } from './events/bus';
 export type { GameEventMap, GameEvent } from './events/bus';
 
 // ----------- Re-exports: Game -----------
-export { startSimulation, stopSimulation, updateSimulation, toggleSimulation, startSim, stopSim, setSpeed, setupSimulationEvents } from './game/simulation';
-export { initGrid, clearGrid, getCell, forEachBelt, forEachNonEmpty, getBeltDir, getMachineIndex, setBelt, setMachineCell, setEmpty, reindexAfterSplice, getCellType } from './game/grid';
-export { getSplitterSecondary, getMachineAt, getMachineBounds, updateConfig, placeBelt, placeSplitter, placeMachine, clearCell } from './game/edit';
+export { startSimulation, stopSimulation, updateSimulation, stepSimulation, runSimulationFor, toggleSimulation, startSim, stopSim, setSpeed, setupSimulationEvents } from './game/simulation';
+export { initGrid, clearGrid, getCell, forEachBelt, forEachNonEmpty, getBeltDir, getBeltTier, getBeltKind, findUndergroundExit, getMachineIndex, setBelt, setCrossing, setMachineCell, setEmpty, reindexAfterSplice, getCellType } from './game/grid';
+export { getSplitterSecondary, getMachineAt, getMachineBounds, updateConfig, placeBelt, placeSplitter, placeMachine, placeComposite, placeUnderground, placeCrossing, clearCell } from './game/edit';
+export { beginGesture, endGesture, recordEdit, undo, redo, canUndo, canRedo, clearHistory, type EditOp } from './game/history';
 export { machines, nextSinkId, getSinkIdCounter, setSinkIdCounter, clearMachines, createMachine } from './game/machines';
 export type { MachineDefaults } from './game/machines';
+export { getCompositeDefs, getCompositeDef, defineComposite, registerCompositeDef, createCompositeWorld, type CompositeDef, type CompositeWorld } from './game/composites';
 export { ChunkedGrid, NO_MACHINE, CHUNK_SIZE } from './game/ChunkedGrid';
 export * as camera from './game/camera';
 export * as clock from './game/clock';
 
 // ----------- Re-exports: Utilities -----------
 export { clearState, serializeState, deserializeState, downloadSave, uploadSave, saveToBase64, loadFromBase64, loadFromURLParam, setupSaveLoadHandlers, type SaveData } from './util/saveload';
+export { copyRegion, eraseRegion, rotateFragment, canPlaceFragment, pasteFragment, moveRegion, type Fragment } from './util/fragment';
+export { runFactoryTest, type FactoryTest, type FactoryTestOptions, type FactoryTestResult, type SinkExpectation, type SinkResult } from './util/factoryTest';
+export { loadBlueprints, addBlueprint, removeBlueprint, createBlueprint, parseBlueprint, blueprintToJSON, blueprintToBase64, type Blueprint } from './util/blueprints';
+export { listSnapshots, loadSnapshot, storeSnapshot, deleteSnapshot, getBootSnapshot, setBootSnapshot, type VMSnapshotInfo } from './util/snapshots';
 export { PRESETS, type Preset } from './util/presets';
 export { THEMES, getThemeById, applyUITheme, type ColorTheme } from './util/themes';
 export { createLogger, setLogLevel, getLogLevel, type LogLevel, type Logger } from './util/logger';
-export { initAssets, vmBase, soundsBase, spritesBase, rootfsBase, vmAsset, soundAsset, spriteAsset, rootfsAsset, resolveUrl, type AssetOverrides } from './util/assets';
+export { initAssets, vmBase, soundsBase, spritesBase, rootfsBase, packagesBase, vmAsset, soundAsset, spriteAsset, rootfsAsset, packageAsset, resolveUrl, type AssetOverrides } from './util/assets';
 
 // ----------- Side-effect Imports (custom element registration) -----------
 import './ui/statsPanel';
 import './ui/commandLog';
 import './ui/sinkOutputPanel';
+import './ui/fileManager';
 import './ui/toast';
 import './ui/vmStatus';
 import './ui/components/IngameLogo.ts';
@@ -59,11 +69,11 @@ import './ui/fsCacheProgress';
 // ----------- Internal Imports: Game -----------
 import { createInitialState, type GameState } from './game/state';
 import { initGrid } from './game/grid';
-import { updateSimulation, setupSimulationEvents, startSim, stopSim } from './game/simulation';
+import { updateSimulation, stepSimulation, setupSimulationEvents, startSim, stopSim } from './game/simulation';
 import * as vm from './game/vm';
 import { setupCameraEvents } from './game/camera';
 import * as cam from './game/camera';
-import { tick } from './game/clock';
+import { tick, accumulate, isFixedTimestep } from './game/clock';
 
 // ----------- Internal Imports: Render -----------
 import { Renderer } from './render';
@@ -88,7 +98,9 @@ import type { GameEventMap } from './events/bus';
 
 // ----------- Internal Imports: Utilities -----------
 import { setupSaveLoadHandlers } from './util/saveload';
+import { copyRegion } from './util/fragment';
 import { loadSettings } from './util/settings';
+import { getBootSnapshot, setBootSnapshot, loadSnapshot } from './util/snapshots';
 import { createLogger } from './util/logger';
 import { initAssets, vmAsset, rootfsBase } from './util/assets';
 import type { AssetOverrides } from './util/assets';
@@ -248,7 +260,12 @@ function setupKeyboardRouter(
     }
 
     // focusMode === 'editor'
-    emitGameEvent('editorKeyPress', { key: e.key, preventDefault: () => e.preventDefault() });
+    emitGameEvent('editorKeyPress', {
+      key: e.key,
+      ctrlKey: e.ctrlKey || e.metaKey,
+      shiftKey: e.shiftKey,
+      preventDefault: () => e.preventDefault(),
+    });
   };
 
   window.addEventListener('keydown', handleKeyboardInput, true);
@@ -286,7 +303,10 @@ function setupModalRouting(
   state: GameState,
 ) {
   onGameEvent('openNetwork', () => modals.openNetwork());
+  onGameEvent('openPackages', () => modals.openPackages());
   onGameEvent('openPresets', () => modals.openPresets());
+  onGameEvent('openBlueprints', () => modals.openBlueprints(state.selection ? copyRegion(state.selection) : null));
+  onGameEvent('openSnapshots', () => modals.openSnapshots());
   onGameEvent('openSettings', () => modals.openSettings());
   onGameEvent('openHelp', () => modals.openHelp());
   onGameEvent('openManual', () => modals.openManual());
@@ -365,6 +385,7 @@ export async function mount(config: BashtorioConfig): Promise<BashtorioInstance>
     soundsUrl: soundsUrl ?? assets?.soundsUrl,
     spritesUrl: assets?.spritesUrl,
     rootfsBaseUrl: rootfsBaseUrl ?? assets?.rootfsBaseUrl,
+    packagesUrl: assets?.packagesUrl,
   });
 
   // Wait for asset preload (progress bar) to finish before replacing the loader DOM
@@ -405,6 +426,7 @@ export async function mount(config: BashtorioConfig): Promise<BashtorioInstance>
           <bt-sink-output class="bashtorio-output"></bt-sink-output>
           <bt-stats-panel class="bashtorio-stats"></bt-stats-panel>
           <bt-command-log></bt-command-log>
+          <bt-file-manager class="bashtorio-files collapsed"></bt-file-manager>
           <div class="bashtorio-terminal collapsed">
             <div class="panel-header terminal-toggle" style="cursor: pointer;">
               <span>🖥️ VM Terminal</span>
@@ -428,6 +450,8 @@ export async function mount(config: BashtorioConfig): Promise<BashtorioInstance>
       <bt-delay-modal></bt-delay-modal>
       <bt-packer-modal></bt-packer-modal>
       <bt-router-modal></bt-router-modal>
+      <bt-splitter-modal></bt-splitter-modal>
+      <bt-merger-modal></bt-merger-modal>
       <bt-gate-modal></bt-gate-modal>
       <bt-wireless-modal></bt-wireless-modal>
       <bt-replace-modal></bt-replace-modal>
@@ -443,10 +467,16 @@ export async function mount(config: BashtorioConfig): Promise<BashtorioInstance>
       <bt-byte-modal></bt-byte-modal>
       <bt-punchcard-modal></bt-punchcard-modal>
       <bt-button-modal></bt-button-modal>
+      <bt-filesource-modal></bt-filesource-modal>
+      <bt-filesink-modal></bt-filesink-modal>
+      <bt-port-modal></bt-port-modal>
 
       <!-- Utility Modals (custom elements) -->
       <bt-network-modal></bt-network-modal>
+      <bt-packages-modal></bt-packages-modal>
       <bt-presets-modal></bt-presets-modal>
+      <bt-blueprints-modal></bt-blueprints-modal>
+      <bt-snapshots-modal></bt-snapshots-modal>
       <bt-settings-modal></bt-settings-modal>
       <bt-help-modal></bt-help-modal>
       <bt-manual-modal></bt-manual-modal>
@@ -472,6 +502,18 @@ export async function mount(config: BashtorioConfig): Promise<BashtorioInstance>
     onBootStatus?.(status);
   };
 
+  // A snapshot picked for this boot replaces the stock state
+  const snapshotName = getBootSnapshot();
+  let snapshot: ArrayBuffer | null = null;
+  if (snapshotName) {
+    setStatus(`Loading VM snapshot "${snapshotName}"...`);
+    snapshot = await loadSnapshot(snapshotName).catch(e => {
+      log.warn(`Failed to load snapshot "${snapshotName}":`, e);
+      return null;
+    });
+    if (!snapshot) setBootSnapshot(null);
+  }
+
   try {
     await vm.initVM({
       vmAssetsUrl,
@@ -480,6 +522,7 @@ export async function mount(config: BashtorioConfig): Promise<BashtorioInstance>
       rootfsManifest,
       screenContainer,
       preloadBuffers,
+      snapshot: snapshot ?? undefined,
       onStatus: setStatus,
     });
 
@@ -575,8 +618,13 @@ export async function mount(config: BashtorioConfig): Promise<BashtorioInstance>
     let running = true;
     function animate() {
       if (!running) return;
-      tick();
-      updateSimulation(state);
+      if (isFixedTimestep()) {
+        const steps = accumulate(performance.now());
+        for (let i = 0; i < steps; i++) stepSimulation(state);
+      } else {
+        tick();
+        updateSimulation(state);
+      }
       renderer.render(state);
       if (state.running) statsPanel.update(state.packets.length);
       requestAnimationFrame(animate);
@@ -611,6 +659,8 @@ export async function mount(config: BashtorioConfig): Promise<BashtorioInstance>
   } catch (error) {
     const err = error instanceof Error ? error : new Error(String(error));
     const msg = err.message;
+    // Don't keep booting into a snapshot that can't come up
+    if (snapshot) setBootSnapshot(null);
 
     let title: string;
     let suggestion: string;
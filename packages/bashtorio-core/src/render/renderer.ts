@@ -5,8 +5,14 @@ import {
   GRID_SIZE,
   PACKET_SIZE,
   Direction,
+  DirArrows,
+  DirDelta,
   CellType,
   MachineType,
+  BeltTier,
+  BeltKind,
+  BELT_TIERS,
+  PLACEABLE_BELT_TIER,
   type Machine,
   type CommandMachine,
   type SourceMachine,
@@ -17,6 +23,8 @@ import {
   type WirelessMachine,
   type Packet,
   type SplitterMachine,
+  type SplitterMode,
+  type MergerMachine,
   type SevenSegMachine,
   type ClockMachine,
   type GateMachine,
@@ -33,19 +41,22 @@ import {
   type ScreenMachine,
   type PunchCardMachine,
   type ByteMachine,
+  type FileSourceMachine,
   type TntMachine,
   type ButtonMachine,
   type BeltCell,
   type CursorMode,
   type OrphanedPacket,
+  type GridRect,
   SINK_DRAIN_SLOTS,
   SINK_DRAIN_MS,
 } from '../game/types';
 import type { ColorTheme, MachineColor } from '../util/themes';
-import type { GameState } from '../game/state';
-import { getCell, forEachBelt } from '../game/grid';
-import { getSplitterSecondary } from '../game/edit';
-import { machines } from '../game/machines';
+import type { GameState, FloatingFragment } from '../game/state';
+import { getCell, forEachBelt, forEachNonEmpty } from '../game/grid';
+import { getSplitterSecondary, splitterSideCell, undergroundSpan } from '../game/edit';
+import { machines, getSourceBytes } from '../game/machines';
+import { getCompositeDef, compositeIdOf } from '../game/composites';
 import * as cam from '../game/camera';
 import { now } from '../game/clock';
 import { spriteAsset } from '../util/assets';
@@ -63,9 +74,24 @@ const BELT_ARROW_SIZE = 5;
 const BELT_ANIM_PERIOD = 500;
 const BELT_ARROW_COUNT_MIN = -1;
 const BELT_ARROW_COUNT_MAX = 1;
+/** Edge colors marking non-normal tiers; normal belts use the theme's edge color */
+const BELT_TIER_EDGE: Partial<Record<BeltTier, string>> = {
+  [BeltTier.SLOW]: '#b08d3c',
+  [BeltTier.EXPRESS]: '#3c9ad0',
+};
+/** Cover over the half of an underground belt where packets go below ground */
+const UNDERGROUND_HOOD = '#0c0c16';
+const UNDERGROUND_HOOD_INSET = 2;
 
 const SPLITTER_INSET = 2;
 const SPLITTER_LINE_WIDTH = 3;
+/** Drawn in the preferred cell of splitters not on round-robin */
+const SPLITTER_MODE_TAG: Partial<Record<SplitterMode, string>> = {
+  'input-priority': 'IN',
+  'output-priority': 'OUT',
+};
+/** Pattern characters shown on a Filter/Router/Splitter before it is cut off */
+const MATCH_PATTERN_CHARS = 6;
 
 const DOT_COUNT = 4;
 const DOT_SPACING = 7;
@@ -82,6 +108,10 @@ const HALF_PI = Math.PI / 2;
 
 function fract(x: number): number { return x - Math.floor(x); }
 
+function clipPattern(pattern: string): string {
+  return pattern.length > MATCH_PATTERN_CHARS ? pattern.slice(0, MATCH_PATTERN_CHARS - 1) + '…' : pattern;
+}
+
 // Stateless procedural animation helpers (V8-inlineable)
 function hashX(i: number): number { return fract(Math.sin(i * 127.1 + i * i * 311.7) * 43758.5453); }
 function hashY(i: number): number { return fract(Math.sin(i * 269.5 + i * i * 183.3) * 43758.5453); }
@@ -220,6 +250,7 @@ let MACHINE_COLORS: Record<MachineType, MachineColor> = {
   [MachineType.LATCH]:      { bg: '#2a3a5a', border: '#4a6a9a', text: '#ccc' },
 
   [MachineType.SPLITTER]:   { bg: '#3a2a4a', border: '#8a6aaa', text: '#ccc' },
+  [MachineType.MERGER]:     { bg: '#3a2a4a', border: '#8a6aaa', text: '#ccc' },
   [MachineType.SEVENSEG]:   { bg: '#000000', border: '#ffffff', text: '#ff0000' },
   [MachineType.DRUM]:       { bg: '#4a3a2a', border: '#aa7744', text: '#ffcc66' },
   [MachineType.TONE]:       { bg: '#3a2a5a', border: '#7a4aaa', text: '#cc99ff' },
@@ -230,6 +261,11 @@ let MACHINE_COLORS: Record<MachineType, MachineColor> = {
   [MachineType.PUNCHCARD]:  { bg: '#4a4a2a', border: '#8a8a4a', text: '#ddcc88' },
   [MachineType.TNT]:        { bg: '#5a2020', border: '#aa4444', text: '#ffaaaa' },
   [MachineType.BUTTON]:     { bg: '#000000', border: '#ffffff', text: '#ccc' },
+  [MachineType.FILESOURCE]: { bg: '#2a4a2a', border: '#5a9a5a', text: '#aaddaa' },
+  [MachineType.FILESINK]:   { bg: '#4a3a2a', border: '#9a7a4a', text: '#ddbb88' },
+
+  [MachineType.PORT]:       { bg: '#1a3a4a', border: '#3a8aaa', text: '#88ddff' },
+  [MachineType.COMPOSITE]:  { bg: '#2a2a4a', border: '#6a5acd', text: '#ddd' },
 };
 
 const WIRELESS_CHANNEL_COLORS = [
@@ -454,8 +490,11 @@ export class Renderer {
     ctx.stroke();
 
     // Belts (sparse iteration)
-    forEachBelt((x, y, dir) => {
-      this.drawBelt(x, y, dir, state.running);
+    forEachBelt((x, y, dir, tier, kind) => {
+      this.drawBelt(x, y, dir, state.running, tier, kind);
+    });
+    forEachNonEmpty((x, y, cellType) => {
+      if (cellType === CellType.CROSSING) this.drawCrossing(x, y);
     });
 
     // Machines
@@ -465,7 +504,7 @@ export class Renderer {
 
     // Packets
     for (const packet of state.packets) {
-      this.drawPacket(packet);
+      if (!packet.tunnel) this.drawPacket(packet);
     }
 
     // Orphaned packets (falling with gravity)
@@ -509,8 +548,15 @@ export class Renderer {
       this.drawSourceTooltip(this.hoveredMachine);
     }
 
-    // Placement preview
-    if (this.mouseOnCanvas && state.currentMode === 'machine') {
+    // Selection rectangle
+    if (state.selection) {
+      this.drawSelection(state.selection);
+    }
+
+    // Floating paste / move preview
+    if (this.mouseOnCanvas && state.floating) {
+      this.drawFloatingFragment(state.floating, hoverCol, hoverRow);
+    } else if (this.mouseOnCanvas && state.currentMode === 'machine') {
       this.drawPlacementPreview(state, hoverCol, hoverRow);
     }
 
@@ -536,8 +582,25 @@ export class Renderer {
 
     switch (state.currentPlaceable) {
       case 'belt':
-        this.drawBelt(col, row, state.currentDir);
+      case 'slowbelt':
+      case 'expressbelt':
+        this.drawBelt(col, row, state.currentDir, false, PLACEABLE_BELT_TIER[state.currentPlaceable]);
+        break;
+      case 'crossing':
+        this.drawCrossing(col, row);
+        break;
+      case 'underground': {
+        const start = state.undergroundStart;
+        if (!start) {
+          this.drawBelt(col, row, state.currentDir, false, BeltTier.NORMAL, BeltKind.ENTRANCE);
+          break;
+        }
+        this.drawBelt(start.x, start.y, start.dir, false, BeltTier.NORMAL, BeltKind.ENTRANCE);
+        if (undergroundSpan(start.x, start.y, start.dir, col, row) !== null) {
+          this.drawBelt(col, row, start.dir, false, BeltTier.NORMAL, BeltKind.EXIT);
+        }
         break;
+      }
       case 'splitter': {
         const sec = getSplitterSecondary({ dir: state.currentDir, x: col, y: row });
         const secCell = getCell(sec.x, sec.y);
@@ -589,6 +652,9 @@ export class Renderer {
       case 'unpacker':
         this.drawMachineBox(col, row, MachineType.UNPACKER, 'UNPK');
         break;
+      case 'merger':
+        this.drawMachineBox(col, row, MachineType.MERGER, 'MRG');
+        break;
       case 'router':
         this.drawMachineBox(col, row, MachineType.ROUTER, 'RTR');
         this.drawDirectionArrow(col, row, state.currentDir);
@@ -642,11 +708,77 @@ export class Renderer {
       case 'button':
         this.drawMachineBox(col, row, MachineType.BUTTON, 'BTN');
         break;
+      case 'filesource':
+        this.drawMachineBox(col, row, MachineType.FILESOURCE, 'FILE>');
+        break;
+      case 'filesink':
+        this.drawMachineBox(col, row, MachineType.FILESINK, '>FILE');
+        break;
+      case 'port':
+        this.drawMachineBox(col, row, MachineType.PORT, 'PORT');
+        break;
+      default: {
+        const compositeId = compositeIdOf(state.currentPlaceable);
+        if (compositeId !== null) {
+          this.drawMachineBox(col, row, MachineType.COMPOSITE, getCompositeDef(compositeId)?.label ?? '?');
+        }
+        break;
+      }
     }
 
     ctx.globalAlpha = 1;
   }
 
+  // -------------------------------------------------------------------------
+  // Selection
+  // -------------------------------------------------------------------------
+
+  private drawSelection(sel: GridRect): void {
+    const ctx = this.ctx;
+    const x = gx(sel.minX);
+    const y = gy(sel.minY);
+    const w = (sel.maxX - sel.minX + 1) * GRID_SIZE;
+    const h = (sel.maxY - sel.minY + 1) * GRID_SIZE;
+
+    ctx.globalAlpha = 0.15;
+    ctx.fillStyle = CLR_BUBBLE_BORDER;
+    ctx.fillRect(x, y, w, h);
+    ctx.globalAlpha = 1;
+
+    ctx.strokeStyle = CLR_BUBBLE_BORDER;
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 4]);
+    ctx.strokeRect(x + 1, y + 1, w - 2, h - 2);
+    ctx.setLineDash([]);
+  }
+
+  private drawFloatingFragment(floating: FloatingFragment, col: number, row: number): void {
+    const { fragment } = floating;
+    const ox = col - floating.grabX;
+    const oy = row - floating.grabY;
+    const ctx = this.ctx;
+    ctx.globalAlpha = 0.5;
+
+    for (const c of fragment.cells) {
+      if (c.type === 'belt') this.drawBelt(ox + c.x, oy + c.y, c.dir ?? Direction.RIGHT, false, c.tier, c.kind);
+      else if (c.type === 'crossing') this.drawCrossing(ox + c.x, oy + c.y);
+    }
+    for (const sm of fragment.machines) {
+      if (sm.type === MachineType.SPLITTER) {
+        this.drawSplitterMachine({ x: ox + sm.x, y: oy + sm.y, dir: sm.splitterDir ?? Direction.RIGHT } as SplitterMachine);
+      } else {
+        this.drawMachineBox(ox + sm.x, oy + sm.y, sm.type, sm.type.slice(0, 4).toUpperCase());
+      }
+    }
+
+    ctx.strokeStyle = CLR_BUBBLE_BORDER;
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+    ctx.strokeRect(gx(ox), gy(oy), fragment.width * GRID_SIZE, fragment.height * GRID_SIZE);
+    ctx.setLineDash([]);
+    ctx.globalAlpha = 1;
+  }
+
   // -------------------------------------------------------------------------
   // Cursor coordinates label
   // -------------------------------------------------------------------------
@@ -706,7 +838,7 @@ export class Renderer {
   // Belt
   // -------------------------------------------------------------------------
 
-  private drawBelt(col: number, row: number, dir: Direction, running = false): void {
+  private drawBelt(col: number, row: number, dir: Direction, running = false, tier = BeltTier.NORMAL, kind = BeltKind.PLAIN): void {
     const px = gx(col);
     const py = gy(row);
     const ctx = this.ctx;
@@ -721,7 +853,7 @@ export class Renderer {
     }
 
     // Belt edges
-    ctx.strokeStyle = CLR_BELT_EDGE;
+    ctx.strokeStyle = BELT_TIER_EDGE[tier] ?? CLR_BELT_EDGE;
     ctx.lineWidth = 2;
 
     if (isHorizontal) {
@@ -748,7 +880,7 @@ export class Renderer {
     const centerX = cx(col);
     const centerY = cy(row);
     const spacing = GRID_SIZE / 3;
-    const anim = running ? ((now / BELT_ANIM_PERIOD) % 1) * spacing : 0;
+    const anim = running ? ((now * (BELT_TIERS[tier]?.speed ?? 1) / BELT_ANIM_PERIOD) % 1) * spacing : 0;
 
     ctx.strokeStyle = CLR_BELT_ARROW;
     ctx.lineWidth = 2;
@@ -790,12 +922,90 @@ export class Renderer {
       ctx.lineTo(cx2, cy2);
       ctx.stroke();
     }
+
+    if (kind !== BeltKind.PLAIN) this.drawUndergroundHood(px, py, dir, tier, kind);
+  }
+
+  /** Entrances are covered on the half facing their exit, exits on the half facing back */
+  private drawUndergroundHood(px: number, py: number, dir: Direction, tier: BeltTier, kind: BeltKind): void {
+    const ctx = this.ctx;
+    const side = kind === BeltKind.ENTRANCE ? dir : ((dir + 2) % 4) as Direction;
+    let x = px, y = py, w = GRID_SIZE, h = GRID_SIZE;
+    switch (side) {
+      case Direction.RIGHT: x += HALF_GRID; w = HALF_GRID; break;
+      case Direction.LEFT: w = HALF_GRID; break;
+      case Direction.DOWN: y += HALF_GRID; h = HALF_GRID; break;
+      case Direction.UP: h = HALF_GRID; break;
+    }
+    const i = UNDERGROUND_HOOD_INSET;
+    ctx.fillStyle = UNDERGROUND_HOOD;
+    ctx.fillRect(x + i, y + i, w - i * 2, h - i * 2);
+    ctx.strokeStyle = BELT_TIER_EDGE[tier] ?? CLR_BELT_EDGE;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x + i, y + i, w - i * 2, h - i * 2);
+  }
+
+  /** A vertical belt with a horizontal one bridging over it; neither has a direction */
+  private drawCrossing(col: number, row: number): void {
+    const px = gx(col);
+    const py = gy(row);
+    const ctx = this.ctx;
+    const inner = GRID_SIZE - BELT_THICKNESS * 2;
+
+    for (const horizontal of [false, true]) {
+      ctx.fillStyle = CLR_BELT_BG;
+      if (horizontal) ctx.fillRect(px, py + BELT_THICKNESS, GRID_SIZE, inner);
+      else ctx.fillRect(px + BELT_THICKNESS, py, inner, GRID_SIZE);
+
+      ctx.strokeStyle = CLR_BELT_EDGE;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      if (horizontal) {
+        ctx.moveTo(px, py + BELT_THICKNESS);
+        ctx.lineTo(px + GRID_SIZE, py + BELT_THICKNESS);
+        ctx.moveTo(px, py + GRID_SIZE - BELT_THICKNESS);
+        ctx.lineTo(px + GRID_SIZE, py + GRID_SIZE - BELT_THICKNESS);
+      } else {
+        ctx.moveTo(px + BELT_THICKNESS, py);
+        ctx.lineTo(px + BELT_THICKNESS, py + GRID_SIZE);
+        ctx.moveTo(px + GRID_SIZE - BELT_THICKNESS, py);
+        ctx.lineTo(px + GRID_SIZE - BELT_THICKNESS, py + GRID_SIZE);
+      }
+      ctx.stroke();
+    }
   }
 
   // -------------------------------------------------------------------------
   // Splitter
   // -------------------------------------------------------------------------
 
+  private drawSplitterModeTag(machine: SplitterMachine): void {
+    const tag = machine.splitterMode === 'set'
+      ? clipPattern(machine.splitterSet)
+      : SPLITTER_MODE_TAG[machine.splitterMode];
+    if (!tag) return;
+    const cell = splitterSideCell(machine.dir, machine.splitterSide) === 0 ? machine : getSplitterSecondary(machine);
+    // Behind the fork, toward the input edge
+    const back = DirDelta[machine.dir];
+    const ctx = this.ctx;
+    ctx.fillStyle = CLR_SPLITTER_SYMBOL;
+    ctx.font = FONT_PACKET_TINY;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(tag, cx(cell.x) - back.dx * HALF_GRID / 2, cy(cell.y) - back.dy * HALF_GRID / 2);
+  }
+
+  /** Set or regex of a Filter/Router, as `[0-9]` or `/^ERR/`, cut to fit the cell */
+  private drawMatchPattern(machine: Machine, mode: 'set' | 'regex', pattern: string, textColor: string): void {
+    const body = clipPattern(pattern);
+    const ctx = this.ctx;
+    ctx.fillStyle = textColor;
+    ctx.font = FONT_PACKET_SMALL;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(mode === 'set' ? `[${body}]` : `/${body}/`, cx(machine.x), cy(machine.y));
+  }
+
   private drawSplitterMachine(machine: { x: number; y: number; dir: Direction }): void {
     const sec = getSplitterSecondary(machine);
     const ctx = this.ctx;
@@ -1249,6 +1459,7 @@ export class Renderer {
     // Splitter: draw 2-cell shape and skip standard box
     if (machine.type === MachineType.SPLITTER) {
       this.drawSplitterMachine(machine as SplitterMachine);
+      this.drawSplitterModeTag(machine as SplitterMachine);
       return;
     }
 
@@ -1313,9 +1524,18 @@ export class Renderer {
 
     // Label (filter/counter/router/replace draw a mini packet instead)
     if (machine.type === MachineType.FILTER) {
-      this.drawMiniPacket(cx(machine.x), cy(machine.y), machine.filterByte);
+      if (machine.filterMatch === 'byte') {
+        this.drawMiniPacket(cx(machine.x), cy(machine.y), machine.filterByte);
+      } else {
+        this.drawMatchPattern(machine, machine.filterMatch, machine.filterPattern, color.text);
+      }
     } else if (machine.type === MachineType.ROUTER) {
-      this.drawMiniPacket(cx(machine.x), cy(machine.y), (machine as RouterMachine).routerByte);
+      const rm = machine as RouterMachine;
+      if (rm.routerMatch === 'byte') {
+        this.drawMiniPacket(cx(machine.x), cy(machine.y), rm.routerByte);
+      } else {
+        this.drawMatchPattern(machine, rm.routerMatch, rm.routerPattern, color.text);
+      }
     } else if (machine.type === MachineType.REPLACE) {
       const rm = machine as ReplaceMachine;
       const elapsed = now - rm.lastActivation;
@@ -1363,10 +1583,22 @@ export class Renderer {
           break;
         }
         case MachineType.LATCH:      label = 'LAT';  break;
+        case MachineType.MERGER:
+          // Priority mergers point the way their preferred input flows in
+          label = 'MRG' + (machine.mergerPolicy === 'priority' ? DirArrows[((machine.mergerPriorityDir + 2) % 4) as Direction] : '');
+          break;
         case MachineType.DRUM:       label = 'DRUM'; break;
         case MachineType.SPEAK:      label = 'TALK'; break;
         case MachineType.BYTE:       label = sprite ? '' : 'BYTE'; break;
         case MachineType.PUNCHCARD:  label = sprite ? '' : 'CARD'; break;
+        case MachineType.FILESOURCE: label = 'FILE>'; break;
+        case MachineType.FILESINK:   label = '>FILE'; break;
+        case MachineType.PORT:
+          label = (machine.portMode === 'in' ? 'IN' : 'OUT') + DirArrows[machine.portSide];
+          break;
+        case MachineType.COMPOSITE:
+          label = getCompositeDef(machine.compositeId)?.label ?? '?';
+          break;
 
       }
 
@@ -1418,10 +1650,11 @@ export class Renderer {
       this.drawGenericBufferDots(px, py, machine.accumulatedBuffer.length);
     }
 
-    // Direction arrow for command machines (show output belt direction)
+    // Direction arrows for command machines (output belt, plus the stderr side if routed)
     if (machine.type === MachineType.COMMAND) {
-      const outDir = this.findOutputDir(machine.x, machine.y);
+      const outDir = this.findOutputDir(machine.x, machine.y, machine.stderrDir);
       if (outDir !== null) this.drawDirectionArrow(machine.x, machine.y, outDir);
+      if (machine.stderrDir !== null) this.drawDirectionArrow(machine.x, machine.y, machine.stderrDir);
     }
 
     // Direction arrow for flipper machines + queue depth dots
@@ -1447,6 +1680,11 @@ export class Renderer {
       if (outDir !== null) this.drawDirectionArrow(machine.x, machine.y, outDir);
     }
 
+    // Merger: packets waiting on all sides
+    if (machine.type === MachineType.MERGER) {
+      this.drawGenericBufferDots(px, py, (machine as MergerMachine).inputQueues.reduce((n, q) => n + q.length, 0));
+    }
+
     // Duplicator: buffer dots
     if (machine.type === MachineType.DUPLICATOR) {
       this.drawGenericBufferDots(px, py, (machine as DuplicatorMachine).outputQueue.length);
@@ -1549,7 +1787,7 @@ export class Renderer {
         if (sm.gapTimer.timeRemaining > 0 && sm.gapTimer.interval > 0) {
           progress = clamp(1 - sm.gapTimer.timeRemaining / sm.gapTimer.interval, 0, 1);
         } else {
-          progress = clamp(1 - sm.sourcePos / sm.sourceText.length, 0, 1);
+          progress = clamp(1 - sm.sourcePos / getSourceBytes(sm).length, 0, 1);
         }
         this.drawTimerArc(machine.x, machine.y, 1, 1 - progress, MACHINE_COLORS[MachineType.SOURCE].border);
       }
@@ -1582,6 +1820,15 @@ export class Renderer {
         this.drawTimerArc(machine.x, machine.y, 1, 1 - progress, MACHINE_COLORS[MachineType.PUNCHCARD].border);
       }
     }
+
+    // File source: progress through the file once it has been read
+    if (machine.type === MachineType.FILESOURCE) {
+      const fs = machine as FileSourceMachine;
+      if (fs.fileData) {
+        const progress = clamp(1 - fs.filePos / fs.fileData.length, 0, 1);
+        this.drawTimerArc(machine.x, machine.y, 1, 1 - progress, MACHINE_COLORS[MachineType.FILESOURCE].border);
+      }
+    }
   }
 
   // -------------------------------------------------------------------------
@@ -2491,8 +2738,9 @@ export class Renderer {
   // Output direction detection (for arrow indicators)
   // -------------------------------------------------------------------------
 
-  private findOutputDir(mx: number, my: number): Direction | null {
+  private findOutputDir(mx: number, my: number, exclude: Direction | null = null): Direction | null {
     for (let i = 0; i < 4; i++) {
+      if (OUTPUT_DIRS[i] === exclude) continue;
       const cell = getCell(mx + OUTPUT_DX[i], my + OUTPUT_DY[i]);
       if (cell.type === CellType.BELT && (cell as BeltCell).dir === OUTPUT_DIRS[i]) {
         return OUTPUT_DIRS[i];
@@ -32,6 +32,9 @@ export interface V86FS9P {
   IsDirectory(id: number): boolean;
   SearchPath(path: string): { id: number; parentid: number; name: string };
   CreateDirectory(name: string, parentid: number): number;
+  Read(inodeid: number, offset: number, count: number): Promise<Uint8Array | null>;
+  RecursiveDelete(path: string): void;
+  Rename(olddirid: number, oldname: string, newdirid: number, newname: string): Promise<number>;
 }
 
 export interface V86Emulator {
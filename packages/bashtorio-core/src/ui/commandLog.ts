@@ -1,6 +1,13 @@
 import { html, render, type TemplateResult } from 'lit-html';
 import { onGameEvent } from '../events/bus';
 import { escapeHtml, truncate } from '../util/format';
+import type { CommandKillReason } from '../game/types';
+
+const KILL_LABELS: Record<CommandKillReason, string> = {
+  timeout: 'timed out',
+  output: 'output cap',
+  manual: 'killed',
+};
 
 export class CommandLog extends HTMLElement {
   private cmdlogEntries!: HTMLElement;
@@ -58,7 +65,7 @@ export class CommandLog extends HTMLElement {
           `<div class="cmdlog-cmd"><span class="cmdlog-cmd-text">${escapeHtml(cmdLine)}</span><span class="cmdlog-status">...</span></div>`;
         this.cmdlogEntries.appendChild(entry);
         this.scrollToBottom();
-        this.cmdlogMap.set(payload.machineId, entry);
+        this.cmdlogMap.set(`${payload.machineId}:${payload.worker ?? 0}`, entry);
       }
     });
 
@@ -71,10 +78,13 @@ export class CommandLog extends HTMLElement {
         const statusEl = entry.querySelector('.stream-status') as HTMLElement;
         if (statusEl) {
           const icon = payload.error ? '\u2717' : '\u2713';
-          statusEl.textContent = payload.error ? `error ${icon}` : `done ${icon}`;
+          statusEl.textContent = payload.killed
+            ? `${KILL_LABELS[payload.killed]} ${icon}`
+            : payload.error ? `error ${icon}` : `done ${icon}`;
         }
       } else {
-        const entry = this.cmdlogMap.get(payload.machineId);
+        const key = `${payload.machineId}:${payload.worker ?? 0}`;
+        const entry = this.cmdlogMap.get(key);
         if (!entry) return;
         entry.classList.remove('cmdlog-entry--running');
         if (payload.error) entry.classList.add('cmdlog-entry--error');
@@ -82,7 +92,9 @@ export class CommandLog extends HTMLElement {
         if (statusEl) {
           const ms = Math.round(payload.durationMs);
           const icon = payload.error ? '\u2717' : '\u2713';
-          statusEl.textContent = `${ms}ms ${icon}`;
+          statusEl.textContent = payload.killed
+            ? `${ms}ms ${KILL_LABELS[payload.killed]} ${icon}`
+            : `${ms}ms ${icon}`;
         }
         const outputText = truncate(payload.output, 60);
         if (outputText) {
@@ -92,7 +104,7 @@ export class CommandLog extends HTMLElement {
           entry.appendChild(ioEl);
         }
         this.scrollToBottom();
-        this.cmdlogMap.delete(payload.machineId);
+        this.cmdlogMap.delete(key);
       }
     });
   }
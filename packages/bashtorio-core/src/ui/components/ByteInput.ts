@@ -1,8 +1,9 @@
 // ---------------------------------------------------------------------------
-// ByteInput – single-byte picker: hex nibble entry + key capture, side by side
+// ByteInput – single-byte picker: hex nibble entry + key capture, side by side.
+// Values are binary strings; a typed key is stored as its UTF-8 bytes.
 // ---------------------------------------------------------------------------
 
-import { ALL_QUICK, charDisplay } from '../../util/bytes';
+import { ALL_QUICK, charDisplay, binaryToUtf8, utf8ToBinary } from '../../util/bytes';
 
 export interface ByteInputOptions {
 	value?: string;
@@ -50,7 +51,7 @@ export class ByteInput {
 	}
 
 	setValue(byte: string): void {
-		if (byte.length !== 1) return;
+		if (byte.length === 0) return;
 		this.currentValue = byte;
 		this.pendingNibble = null;
 		this.syncDisplay();
@@ -246,7 +247,7 @@ export class ByteInput {
 		// Single character keys
 		if (e.key.length === 1) {
 			e.preventDefault();
-			this.currentValue = e.key;
+			this.currentValue = utf8ToBinary(e.key);
 			this.pendingNibble = null;
 			this.syncDisplay();
 			this.onChange?.(this.currentValue);
@@ -297,7 +298,7 @@ export class ByteInput {
 		}
 
 		// Key display
-		this.keyDisplay.textContent = charDisplay(this.currentValue);
+		this.keyDisplay.textContent = charDisplay(this.currentValue.length > 1 ? binaryToUtf8(this.currentValue) : this.currentValue);
 		this.keyDisplay.style.color = color;
 
 		// Quick-pick buttons
@@ -1,9 +1,12 @@
-import { CellType, MachineType, Direction, type Cell, type MachineCell, type Machine, type PlaceableType } from '../game/types';
+import { CellType, MachineType, Direction, PLACEABLE_BELT_TIER, UNDERGROUND_MAX_SPAN, type Cell, type BeltCell, type MachineCell, type Machine, type PlaceableType, type GridRect } from '../game/types';
 import type { GameState } from '../game/state';
 import { getCell } from '../game/grid';
 import { getSplitterSecondary } from '../game/edit';
-import { placeBelt, placeSplitter, placeMachine, clearCell } from '../game/edit';
+import { placeBelt, placeSplitter, placeMachine, placeComposite, placeUnderground, undergroundSpan, placeCrossing, clearCell } from '../game/edit';
+import { defineComposite, fragmentHasPorts, compositePlaceable, compositeIdOf } from '../game/composites';
+import { beginGesture, endGesture, undo, redo } from '../game/history';
 import { emitGameEvent, onGameEvent, type GameEventMap } from '../events/bus';
+import { copyRegion, eraseRegion, moveRegion, pasteFragment, rotateFragment, rectFromCorners, rectContains } from '../util/fragment';
 
 /** Maps PlaceableType names (excluding belt/splitter which have special placement) to MachineType */
 const PLACEABLE_TO_MACHINE: Partial<Record<PlaceableType, MachineType>> = {
@@ -14,6 +17,7 @@ const PLACEABLE_TO_MACHINE: Partial<Record<PlaceableType, MachineType>> = {
     null: MachineType.NULL,
     linefeed: MachineType.LINEFEED,
     duplicator: MachineType.DUPLICATOR,
+    merger: MachineType.MERGER,
 
     filter: MachineType.FILTER,
     counter: MachineType.COUNTER,
@@ -40,6 +44,9 @@ const PLACEABLE_TO_MACHINE: Partial<Record<PlaceableType, MachineType>> = {
     punchcard: MachineType.PUNCHCARD,
     tnt: MachineType.TNT,
     button: MachineType.BUTTON,
+    filesource: MachineType.FILESOURCE,
+    filesink: MachineType.FILESINK,
+    port: MachineType.PORT,
 };
 
 /** Machines that open their config modal immediately on placement */
@@ -67,14 +74,25 @@ const CONFIG_ON_PLACE = new Set<MachineType>([
     MachineType.BYTE,
     MachineType.PUNCHCARD,
     MachineType.BUTTON,
+    MachineType.FILESOURCE,
+    MachineType.FILESINK,
+    MachineType.PORT,
 ]);
 
 export class Editor {
     private state: GameState;
 
     private erasingType: CellType | null = null;
+    private erasing = false;
     private placing = false;
 
+    /** Corner where the current rectangle-select drag started */
+    private selectAnchor: { x: number; y: number } | null = null;
+    /** Source rectangle while dragging a selection to a new spot */
+    private moveSource: GridRect | null = null;
+    private lastGridX = 0;
+    private lastGridY = 0;
+
     constructor(state: GameState) {
         this.state = state;
 
@@ -86,27 +104,192 @@ export class Editor {
         onGameEvent('gridMouseMove', this.handleGridMouseMove.bind(this));
         onGameEvent('selectPlaceable', this.handleSelectPlaceable.bind(this));
         onGameEvent('modeChange', this.handleModeChange.bind(this));
+        onGameEvent('undo', this.handleUndo.bind(this));
+        onGameEvent('redo', this.handleRedo.bind(this));
+        onGameEvent('copySelection', this.copySelection.bind(this));
+        onGameEvent('cutSelection', this.cutSelection.bind(this));
+        onGameEvent('deleteSelection', this.deleteSelection.bind(this));
+        onGameEvent('pasteClipboard', this.pasteClipboard.bind(this));
+        onGameEvent('cancelSelection', this.cancelSelection.bind(this));
+        onGameEvent('compositeFromSelection', this.compositeFromSelection.bind(this));
+        onGameEvent('stampBlueprint', ({ fragment }) => {
+            this.state.floating = { fragment, grabX: 0, grabY: 0 };
+        });
+        // A modal swallows the mouseup, so close any open drag gesture here
+        onGameEvent('configureStart', () => { this.stopPlace(); this.stopErase(); });
     }
 
     // --- State changes ---
 
     private rotate() {
+        // While pasting, R turns the floating fragment instead
+        const floating = this.state.floating;
+        if (floating && !this.moveSource) {
+            floating.fragment = rotateFragment(floating.fragment);
+            floating.grabX = 0;
+            floating.grabY = 0;
+            return;
+        }
+        this.state.undergroundStart = null;
         this.state.currentDir = ((this.state.currentDir + 1) % 4) as Direction;
         emitGameEvent('directionChange', { dir: this.state.currentDir });
     }
 
     private handleModeChange({ mode }: GameEventMap['modeChange']) {
         this.state.currentMode = mode;
+        this.state.undergroundStart = null;
+        if (mode !== 'select') this.state.selection = null;
     }
 
     private handleSelectPlaceable({ placeable }: GameEventMap['selectPlaceable']) {
         this.state.currentPlaceable = placeable;
+        this.state.undergroundStart = null;
         emitGameEvent('placeableChange', { placeable });
     }
 
+    // --- Undo / redo ---
+
+    private handleUndo() {
+        if (this.state.running) {
+            emitGameEvent('editFailed', { message: 'Stop the simulation to undo' });
+            return;
+        }
+        if (undo()) emitGameEvent('erase');
+    }
+
+    private handleRedo() {
+        if (this.state.running) {
+            emitGameEvent('editFailed', { message: 'Stop the simulation to redo' });
+            return;
+        }
+        if (redo()) emitGameEvent('place');
+    }
+
+    // --- Selection / clipboard ---
+
+    private copySelection() {
+        const sel = this.state.selection;
+        if (!sel) return;
+        const fragment = copyRegion(sel);
+        if (!fragment) return;
+        this.state.clipboard = fragment;
+        emitGameEvent('toast', { message: `Copied ${fragment.width}×${fragment.height}` });
+    }
+
+    private cutSelection() {
+        const sel = this.state.selection;
+        if (!sel) return;
+        if (this.state.running) {
+            emitGameEvent('editFailed', { message: 'Stop the simulation to cut' });
+            return;
+        }
+        const fragment = copyRegion(sel);
+        if (!fragment) return;
+        this.state.clipboard = fragment;
+        eraseRegion(sel);
+        this.state.selection = null;
+        emitGameEvent('erase');
+    }
+
+    private deleteSelection() {
+        const sel = this.state.selection;
+        if (!sel) return;
+        if (this.state.running) {
+            emitGameEvent('editFailed', { message: 'Stop the simulation to remove machines' });
+            return;
+        }
+        eraseRegion(sel);
+        this.state.selection = null;
+        emitGameEvent('erase');
+    }
+
+    /** Turn the selected region into a new subfactory definition and pick it for placing. */
+    private compositeFromSelection() {
+        const sel = this.state.selection;
+        if (!sel) return;
+        const fragment = copyRegion(sel);
+        if (!fragment || !fragmentHasPorts(fragment)) {
+            emitGameEvent('editFailed', { message: 'Mark the inputs and outputs with Port machines first' });
+            return;
+        }
+        const label = prompt('Subfactory name:', 'Subfactory')?.trim();
+        if (!label) return;
+
+        const def = defineComposite(label, fragment);
+        emitGameEvent('compositesChanged');
+        emitGameEvent('toast', { message: `Created subfactory "${label}"` });
+        emitGameEvent('selectPlaceable', { placeable: compositePlaceable(def.id) });
+        emitGameEvent('modeChange', { mode: 'machine' });
+    }
+
+    private pasteClipboard() {
+        if (!this.state.clipboard) return;
+        this.state.floating = { fragment: this.state.clipboard, grabX: 0, grabY: 0 };
+    }
+
+    private cancelSelection() {
+        if (this.state.undergroundStart) {
+            this.state.undergroundStart = null;
+            return;
+        }
+        if (this.state.floating) {
+            this.state.floating = null;
+            this.moveSource = null;
+            return;
+        }
+        this.state.selection = null;
+    }
+
+    /** Stamp the floating fragment so its grab cell lands on (x, y). Stays floating for repeat stamps. */
+    private stampFloating(x: number, y: number) {
+        const floating = this.state.floating!;
+        if (this.state.running) {
+            emitGameEvent('editFailed', { message: 'Stop the simulation to paste' });
+            return;
+        }
+        if (!pasteFragment(floating.fragment, x - floating.grabX, y - floating.grabY)) {
+            emitGameEvent('editFailed', { message: 'Not enough room to paste here' });
+            return;
+        }
+        emitGameEvent('place');
+    }
+
+    private finishMove() {
+        const source = this.moveSource!;
+        const floating = this.state.floating!;
+        this.moveSource = null;
+        this.state.floating = null;
+
+        const x = this.lastGridX - floating.grabX;
+        const y = this.lastGridY - floating.grabY;
+        if (x === source.minX && y === source.minY) return;
+
+        if (!moveRegion(source, x, y)) {
+            emitGameEvent('editFailed', { message: 'Not enough room to move here' });
+            return;
+        }
+        this.state.selection = {
+            minX: x, minY: y,
+            maxX: x + source.maxX - source.minX,
+            maxY: y + source.maxY - source.minY,
+        };
+        emitGameEvent('place');
+    }
+
     // --- Erase ---
 
     private startErase({ grid_x, grid_y }: GameEventMap['+erase']) {
+        // Right click drops a floating paste or a half-placed tunnel rather than erasing under it
+        if (this.state.floating || this.state.undergroundStart) {
+            this.cancelSelection();
+            return;
+        }
+
+        // Everything erased until mouseup undoes as one step
+        if (this.erasing) endGesture();
+        this.erasing = true;
+        beginGesture();
+
         const cell = getCell(grid_x, grid_y);
         if (cell.type === CellType.EMPTY) {
             this.erasingType = null;
@@ -129,16 +312,36 @@ export class Editor {
 
     private stopErase() {
         this.erasingType = null;
+        if (this.erasing) endGesture();
+        this.erasing = false;
     }
 
     // --- Place ---
 
     private startPlace({ grid_x, grid_y }: GameEventMap['+place']) {
+        // A whole drag-paint or drag-erase undoes as one step
+        if (this.placing) endGesture();
         this.placing = true;
+        beginGesture();
+        this.lastGridX = grid_x;
+        this.lastGridY = grid_y;
+
+        if (this.state.floating && !this.moveSource) {
+            this.stampFloating(grid_x, grid_y);
+            return;
+        }
         this.handlePlace(grid_x, grid_y);
     }
 
     private stopPlace() {
+        if (this.moveSource) this.finishMove();
+        if (this.selectAnchor) {
+            // A plain click (no drag) clears the selection
+            const sel = this.state.selection;
+            if (sel && sel.minX === sel.maxX && sel.minY === sel.maxY) this.state.selection = null;
+            this.selectAnchor = null;
+        }
+        if (this.placing) endGesture();
         this.placing = false;
     }
 
@@ -147,7 +350,7 @@ export class Editor {
 
         switch (this.state.currentMode) {
             case 'select':
-                this.handleSelect(cell);
+                this.handleSelect(cell, x, y);
                 break;
             case 'erase':
                 if (cell.type !== CellType.EMPTY) {
@@ -168,8 +371,24 @@ export class Editor {
         }
     }
 
-    private handleSelect(cell: Cell): void {
-        if (cell.type !== CellType.MACHINE) return;
+    private handleSelect(cell: Cell, x: number, y: number): void {
+        // Grabbing inside the selection starts a move
+        const sel = this.state.selection;
+        if (sel && rectContains(sel, x, y) && !this.state.running) {
+            const fragment = copyRegion(sel);
+            if (fragment) {
+                this.moveSource = sel;
+                this.state.floating = { fragment, grabX: x - sel.minX, grabY: y - sel.minY };
+                return;
+            }
+        }
+
+        if (cell.type !== CellType.MACHINE) {
+            this.selectAnchor = { x, y };
+            this.state.selection = rectFromCorners(x, y, x, y);
+            return;
+        }
+        this.state.selection = null;
         const machine = (cell as MachineCell).machine;
 
         if (this.state.running) {
@@ -190,10 +409,32 @@ export class Editor {
             return;
         }
 
+        // Laying a different tier over a belt re-lays it, keeping its direction
+        const tier = PLACEABLE_BELT_TIER[this.state.currentPlaceable];
+        if (cell.type === CellType.BELT && tier !== undefined && (cell as BeltCell).tier !== tier) {
+            placeBelt(x, y, (cell as BeltCell).dir, tier, (cell as BeltCell).kind);
+            emitGameEvent('place');
+            return;
+        }
+
+        if (this.state.currentPlaceable === 'underground') {
+            this.placeUndergroundEnd(x, y, cell);
+            return;
+        }
+
+        // A crossing can go into an existing belt line, and like belts it can go down while running
+        if (this.state.currentPlaceable === 'crossing') {
+            if (cell.type === CellType.EMPTY || cell.type === CellType.BELT) {
+                placeCrossing(x, y);
+                emitGameEvent('place');
+            }
+            return;
+        }
+
         if (cell.type !== CellType.EMPTY) return;
 
         // Machines can only be placed while the simulation is stopped
-        if (this.state.currentPlaceable !== 'belt' && this.state.running) {
+        if (tier === undefined && this.state.running) {
             emitGameEvent('editFailed', { message: 'Stop the simulation to place machines' });
             return;
         }
@@ -209,12 +450,33 @@ export class Editor {
         }
     }
 
+    /** The first click picks an underground entrance; the second places its exit, and both go down together. */
+    private placeUndergroundEnd(x: number, y: number, cell: Cell): void {
+        const start = this.state.undergroundStart;
+        if (!start) {
+            if (cell.type === CellType.EMPTY) this.state.undergroundStart = { x, y, dir: this.state.currentDir };
+            return;
+        }
+        if (x === start.x && y === start.y) {
+            this.state.undergroundStart = null;
+            return;
+        }
+        if (cell.type !== CellType.EMPTY || undergroundSpan(start.x, start.y, start.dir, x, y) === null) {
+            emitGameEvent('editFailed', { message: `Place the exit on an empty cell up to ${UNDERGROUND_MAX_SPAN} cells ahead of the entrance` });
+            return;
+        }
+        if (placeUnderground(start.x, start.y, x, y, start.dir)) emitGameEvent('place');
+        this.state.undergroundStart = null;
+    }
+
     private placeItem(x: number, y: number): Machine | null {
         const dir = this.state.currentDir;
 
         switch (this.state.currentPlaceable) {
             case 'belt':
-                placeBelt(x, y, dir);
+            case 'slowbelt':
+            case 'expressbelt':
+                placeBelt(x, y, dir, PLACEABLE_BELT_TIER[this.state.currentPlaceable]);
                 return null;
 
             case 'splitter': {
@@ -225,6 +487,9 @@ export class Editor {
             }
 
             default: {
+                const compositeId = compositeIdOf(this.state.currentPlaceable);
+                if (compositeId !== null) return placeComposite(x, y, compositeId);
+
                 const mt = PLACEABLE_TO_MACHINE[this.state.currentPlaceable];
                 if (mt != null) return placeMachine(x, y, mt, dir);
                 return null;
@@ -235,6 +500,15 @@ export class Editor {
     // --- Grid mouse move (drag paint / drag erase) ---
 
     private handleGridMouseMove({ gridX, gridY }: GameEventMap['gridMouseMove']) {
+        this.lastGridX = gridX;
+        this.lastGridY = gridY;
+
+        // Rectangle select
+        if (this.selectAnchor) {
+            this.state.selection = rectFromCorners(this.selectAnchor.x, this.selectAnchor.y, gridX, gridY);
+            return;
+        }
+
         // Drag-erase: delete cells matching the type of the first erased cell
         if (this.erasingType) {
             const cell = getCell(gridX, gridY);
@@ -250,7 +524,7 @@ export class Editor {
 
         // Drag-paint: belts in machine mode, or any cell in erase mode
         if (this.placing) {
-            if (this.state.currentMode === 'machine' && this.state.currentPlaceable === 'belt') {
+            if (this.state.currentMode === 'machine' && PLACEABLE_BELT_TIER[this.state.currentPlaceable] !== undefined) {
                 this.handlePlace(gridX, gridY);
             } else if (this.state.currentMode === 'erase') {
                 this.handlePlace(gridX, gridY);
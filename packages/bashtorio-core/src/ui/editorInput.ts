@@ -2,7 +2,7 @@ import { type PlaceableType } from '../game/types';
 import type { GameState } from '../game/state';
 import { toggleSimulation } from '../game/simulation';
 import type { Renderer } from '../render/renderer';
-import { emitGameEvent, onGameEvent } from '../events/bus';
+import { emitGameEvent, onGameEvent, type GameEventMap } from '../events/bus';
 
 const MOUSE_LEFT = 0;
 const MOUSE_RIGHT = 2;
@@ -117,9 +117,24 @@ export class EditorInput {
 
   // --- Keyboard ---
 
-  private handleKeyDown(e: { key: string; preventDefault: () => void }): void {
+  private handleKeyDown(e: GameEventMap['editorKeyPress']): void {
     const key = e.key.toLowerCase();
 
+    // Undo / redo (Ctrl+Z, Ctrl+Shift+Z, Ctrl+Y)
+    if (e.ctrlKey) {
+      if (key === 'z') { e.preventDefault(); emitGameEvent(e.shiftKey ? 'redo' : 'undo'); return; }
+      if (key === 'y') { e.preventDefault(); emitGameEvent('redo'); return; }
+      if (key === 'c') { e.preventDefault(); emitGameEvent('copySelection'); return; }
+      if (key === 'x') { e.preventDefault(); emitGameEvent('cutSelection'); return; }
+      if (key === 'v') { e.preventDefault(); emitGameEvent('pasteClipboard'); return; }
+      if (key === 'g') { e.preventDefault(); emitGameEvent('compositeFromSelection'); return; }
+      return;
+    }
+
+    // Selection
+    if (key === 'delete' || key === 'backspace') { emitGameEvent('deleteSelection'); return; }
+    if (key === 'escape') { emitGameEvent('cancelSelection'); return; }
+
     // Mode selection
     if (key === EDITOR_KEYBINDS.MODE_SELECT) { emitGameEvent('modeChange', { mode: 'select' }); return; }
     if (key === EDITOR_KEYBINDS.MODE_ERASE) { emitGameEvent('modeChange', { mode: 'erase' }); return; }
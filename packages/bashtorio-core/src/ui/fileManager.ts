@@ -0,0 +1,155 @@
+import { html, render, type TemplateResult } from 'lit-html';
+import { emitGameEvent } from '../events/bus';
+import * as vm from '../game/vm';
+import { GUEST_WORKSPACE, type DirEntry } from '../vm/bridge';
+import { formatBytes } from '../util/format';
+import { createLogger } from '../util/logger';
+
+const log = createLogger('Files');
+
+function joinPath(dir: string, name: string): string {
+  return dir === '/' ? `/${name}` : `${dir}/${name}`;
+}
+
+function parentDir(dir: string): string {
+  const slash = dir.lastIndexOf('/');
+  return slash <= 0 ? '/' : dir.slice(0, slash);
+}
+
+/**
+ * Sidebar panel for moving files between the host and the guest: browse the
+ * 9p tree, drop host files into the current directory, download guest files.
+ */
+export class FileManager extends HTMLElement {
+  private cwd = GUEST_WORKSPACE;
+  private pathInput!: HTMLInputElement;
+  private listing!: HTMLElement;
+  private uploadInput!: HTMLInputElement;
+
+  connectedCallback() {
+    render(this.template(), this);
+    this.pathInput = this.querySelector('.files-path') as HTMLInputElement;
+    this.listing = this.querySelector('.files-listing') as HTMLElement;
+    this.uploadInput = this.querySelector('.files-upload-input') as HTMLInputElement;
+
+    this.querySelector('.files-toggle')!.addEventListener('click', () => {
+      const collapsed = this.classList.toggle('collapsed');
+      this.querySelector('.files-toggle-icon')!.textContent = collapsed ? '▶' : '▼';
+      if (!collapsed) this.refresh();
+    });
+    this.querySelector('.files-up-btn')!.addEventListener('click', () => this.navigate(parentDir(this.cwd)));
+    this.querySelector('.files-refresh-btn')!.addEventListener('click', () => this.refresh());
+    this.querySelector('.files-upload-btn')!.addEventListener('click', () => this.uploadInput.click());
+    this.uploadInput.addEventListener('change', () => {
+      if (this.uploadInput.files) this.upload(this.uploadInput.files);
+      this.uploadInput.value = '';
+    });
+    this.pathInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') this.navigate(this.pathInput.value.trim() || '/');
+    });
+
+    this.listing.addEventListener('click', (e) => {
+      const row = (e.target as HTMLElement).closest<HTMLElement>('[data-name]');
+      if (!row) return;
+      const path = joinPath(this.cwd, row.dataset.name!);
+      if (row.dataset.dir === 'true') this.navigate(path);
+      else this.download(path);
+    });
+
+    const body = this.querySelector('.files-body') as HTMLElement;
+    body.addEventListener('dragover', (e) => {
+      e.preventDefault();
+      body.classList.add('drag-over');
+    });
+    body.addEventListener('dragleave', () => body.classList.remove('drag-over'));
+    body.addEventListener('drop', (e) => {
+      e.preventDefault();
+      body.classList.remove('drag-over');
+      if (e.dataTransfer?.files.length) this.upload(e.dataTransfer.files);
+    });
+  }
+
+  private template(): TemplateResult {
+    return html`
+      <div class="panel-header files-toggle" style="cursor: pointer;">
+        <span>📁 Files</span>
+        <span class="files-toggle-icon">▶</span>
+      </div>
+      <div class="files-body">
+        <div class="files-toolbar">
+          <button class="files-up-btn" title="Parent directory">↑</button>
+          <input type="text" class="files-path" spellcheck="false">
+          <button class="files-refresh-btn" title="Refresh">⟳</button>
+          <button class="files-upload-btn" title="Upload files here">Upload</button>
+          <input type="file" class="files-upload-input" multiple hidden>
+        </div>
+        <div class="files-listing"></div>
+        <div class="files-hint">Drop files here to upload them into this directory</div>
+      </div>
+    `;
+  }
+
+  private listTemplate(entries: DirEntry[] | null): TemplateResult {
+    if (entries === null) {
+      return html`<div class="files-empty">${vm.isFs9pReady() ? 'Not a directory' : 'VM not ready'}</div>`;
+    }
+    if (entries.length === 0) return html`<div class="files-empty">Empty</div>`;
+    return html`${entries.map(entry => html`
+      <div class="files-entry" data-name=${entry.name} data-dir=${String(entry.dir)}
+        title=${entry.dir ? 'Open' : 'Download'}>
+        <span class="files-entry-name">${entry.dir ? '📁' : '📄'} ${entry.name}</span>
+        <span class="files-entry-size">${entry.dir ? '' : formatBytes(entry.size)}</span>
+      </div>
+    `)}`;
+  }
+
+  private navigate(dir: string): void {
+    this.cwd = dir.length > 1 ? dir.replace(/\/+$/, '') : dir;
+    this.refresh();
+  }
+
+  /** Re-read the current directory from the 9p tree. */
+  refresh(): void {
+    this.pathInput.value = this.cwd;
+    render(this.listTemplate(vm.listDir(this.cwd)), this.listing);
+  }
+
+  private async upload(files: FileList): Promise<void> {
+    if (!vm.isFs9pReady()) {
+      emitGameEvent('toast', { message: 'VM not ready' });
+      return;
+    }
+    const dir = this.cwd;
+    let written = 0;
+    for (const file of Array.from(files)) {
+      try {
+        await vm.writeFile(joinPath(dir, file.name), new Uint8Array(await file.arrayBuffer()));
+        written++;
+      } catch (e) {
+        log.error(`Upload of ${file.name} failed:`, e);
+        emitGameEvent('toast', { message: `Failed to upload ${file.name}` });
+      }
+    }
+    if (written > 0) {
+      emitGameEvent('toast', { message: `Uploaded ${written} file${written === 1 ? '' : 's'} to ${dir}` });
+    }
+    this.refresh();
+  }
+
+  private async download(path: string): Promise<void> {
+    try {
+      const data = await vm.readFile(path);
+      const url = URL.createObjectURL(new Blob([data as Uint8Array<ArrayBuffer>]));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = path.slice(path.lastIndexOf('/') + 1);
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      log.error(`Download of ${path} failed:`, e);
+      emitGameEvent('toast', { message: `Failed to download ${path}` });
+    }
+  }
+}
+
+customElements.define('bt-file-manager', FileManager);
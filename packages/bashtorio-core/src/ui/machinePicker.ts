@@ -1,8 +1,19 @@
 import { html, render, type TemplateResult } from 'lit-html';
 import type { GameState } from '../game/state';
-import { emitGameEvent } from '../events/bus';
+import { emitGameEvent, onGameEvent } from '../events/bus';
 import type { PlaceableType } from '../game/types';
-import { PLACEABLE_COLUMNS } from './placeableButton';
+import { getCompositeDefs, compositePlaceable } from '../game/composites';
+import { PLACEABLE_COLUMNS, type PlaceableColumn } from './placeableButton';
+
+/** Picker column listing the factory's subfactory definitions */
+function customColumn(): PlaceableColumn | null {
+  const defs = getCompositeDefs();
+  if (defs.length === 0) return null;
+  return {
+    label: 'Custom',
+    items: defs.map(def => ({ id: compositePlaceable(def.id), icon: '🧩', label: def.label, key: '' })),
+  };
+}
 
 export class MachinePicker extends HTMLElement {
   private state: GameState | null = null;
@@ -14,8 +25,10 @@ export class MachinePicker extends HTMLElement {
   }
 
   private template(): TemplateResult {
+    const custom = customColumn();
+    const columns = custom ? [...PLACEABLE_COLUMNS, custom] : PLACEABLE_COLUMNS;
     return html`
-      ${PLACEABLE_COLUMNS.map(col => html`
+      ${columns.map(col => html`
         <div class="popout-column">
           <span class="popout-column-label">${col.label}</span>
           <div class="picker-grid">
@@ -34,16 +47,18 @@ export class MachinePicker extends HTMLElement {
   init(state: GameState) {
     this.state = state;
 
-    // Picker item click handlers
-    this.querySelectorAll('.placeable-btn').forEach(item => {
-      item.addEventListener('click', () => {
-        const placeable = (item as HTMLElement).dataset.placeable as PlaceableType;
-        emitGameEvent('selectPlaceable', { placeable });
-        emitGameEvent('modeChange', { mode: 'machine' });
-        this.hide();
-      });
+    // Picker item click handlers (delegated, since the custom column re-renders)
+    this.addEventListener('click', (e) => {
+      const item = (e.target as HTMLElement).closest('.placeable-btn') as HTMLElement | null;
+      if (!item) return;
+      const placeable = item.dataset.placeable as PlaceableType;
+      emitGameEvent('selectPlaceable', { placeable });
+      emitGameEvent('modeChange', { mode: 'machine' });
+      this.hide();
     });
 
+    onGameEvent('compositesChanged', () => render(this.template(), this));
+
     // Close picker when clicking outside
     document.addEventListener('click', (e) => {
       if (!this.contains(e.target as Node) && this.style.display !== 'none') {
@@ -0,0 +1,159 @@
+import { html, render } from 'lit-html';
+import { BaseModal } from './BaseModal';
+import type { Fragment } from '../../util/fragment';
+import {
+  type Blueprint,
+  loadBlueprints, addBlueprint, removeBlueprint, createBlueprint,
+  blueprintToBase64, parseBlueprint, downloadBlueprint,
+} from '../../util/blueprints';
+import { emitGameEvent } from '../../events/bus';
+
+export class BlueprintsModal extends BaseModal {
+  private selection: Fragment | null = null;
+
+  template() {
+    return html`
+      <div class="modal-content presets-modal-content blueprints-modal-content">
+        <h3>Blueprints</h3>
+        <p class="modal-description">
+          Reusable pieces of a factory. Click one to pick it up, then click the grid to place it (R rotates, right click drops it).
+        </p>
+        <div class="form-group blueprint-save">
+          <label>Save current selection as:</label>
+          <div class="blueprint-row">
+            <input type="text" class="blueprint-name" placeholder="CSV column extractor">
+            <button class="blueprint-save-btn">Save</button>
+          </div>
+          <p class="blueprint-hint"></p>
+        </div>
+        <div class="presets-list blueprints-list"></div>
+        <div class="form-group">
+          <label>Import (JSON or base64):</label>
+          <textarea class="blueprint-import" rows="3" spellcheck="false"></textarea>
+        </div>
+        <div class="modal-buttons">
+          <button data-cancel>Close</button>
+          <button class="blueprint-import-file">Import File…</button>
+          <button class="blueprint-import-btn primary">Import</button>
+        </div>
+      </div>
+    `;
+  }
+
+  protected setup() {
+    this.qs('.blueprint-save-btn').addEventListener('click', () => this.saveSelection());
+    this.qs('.blueprint-import-btn').addEventListener('click', () => {
+      const input = this.qs<HTMLTextAreaElement>('.blueprint-import');
+      this.importText(input.value).then(ok => { if (ok) input.value = ''; });
+    });
+    this.qs('.blueprint-import-file').addEventListener('click', () => this.importFile());
+
+    this.qs('.blueprints-list').addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const item = target.closest('.blueprint-item') as HTMLElement;
+      if (!item) return;
+      const bp = loadBlueprints().find(b => b.name === item.dataset.name);
+      if (!bp) return;
+      switch ((target.closest('[data-action]') as HTMLElement | null)?.dataset.action) {
+        case 'json': downloadBlueprint(bp); break;
+        case 'base64': this.copyBase64(bp); break;
+        case 'delete': this.deleteBlueprint(bp); break;
+        default: this.stamp(bp);
+      }
+    });
+  }
+
+  /** Open the library; `selection` is the current grid selection, if any, offered for saving. */
+  open(selection: Fragment | null) {
+    this.selection = selection;
+    const nameInput = this.qs<HTMLInputElement>('.blueprint-name');
+    const saveBtn = this.qs<HTMLButtonElement>('.blueprint-save-btn');
+    nameInput.disabled = saveBtn.disabled = !selection;
+    this.qs<HTMLElement>('.blueprint-hint').textContent = selection
+      ? `${selection.width}×${selection.height}, ${selection.machines.length} machine(s)`
+      : 'Drag a rectangle in Select mode first.';
+    this.renderList();
+    this.show();
+    if (selection) nameInput.focus();
+  }
+
+  private renderList() {
+    const list = loadBlueprints();
+    render(list.length === 0
+      ? html`<div class="preset-description">No blueprints yet.</div>`
+      : html`${list.map(bp => html`
+        <div class="preset-item blueprint-item" data-name=${bp.name}>
+          <div class="preset-name">${bp.name}</div>
+          <div class="preset-description">
+            ${bp.description ? html`${bp.description} · ` : ''}${bp.fragment.width}×${bp.fragment.height}, ${bp.fragment.machines.length} machine(s)
+          </div>
+          <div class="blueprint-actions">
+            <button data-action="json">JSON</button>
+            <button data-action="base64">Copy base64</button>
+            <button data-action="delete">Delete</button>
+          </div>
+        </div>
+      `)}`, this.qs<HTMLElement>('.blueprints-list'));
+  }
+
+  private saveSelection() {
+    if (!this.selection) return;
+    const nameInput = this.qs<HTMLInputElement>('.blueprint-name');
+    const name = nameInput.value.trim();
+    if (!name) {
+      nameInput.focus();
+      return;
+    }
+    if (loadBlueprints().some(b => b.name === name) && !confirm(`Replace blueprint "${name}"?`)) return;
+    addBlueprint(createBlueprint(name, this.selection));
+    nameInput.value = '';
+    emitGameEvent('toast', { message: `Saved blueprint "${name}"` });
+    this.renderList();
+  }
+
+  private stamp(bp: Blueprint) {
+    emitGameEvent('stampBlueprint', { fragment: bp.fragment });
+    this.hide();
+  }
+
+  private deleteBlueprint(bp: Blueprint) {
+    if (!confirm(`Delete blueprint "${bp.name}"?`)) return;
+    removeBlueprint(bp.name);
+    this.renderList();
+  }
+
+  private async copyBase64(bp: Blueprint) {
+    const text = await blueprintToBase64(bp);
+    navigator.clipboard.writeText(text).then(
+      () => emitGameEvent('toast', { message: 'Blueprint copied to clipboard' }),
+      () => emitGameEvent('toast', { message: 'Failed to copy blueprint' }),
+    );
+  }
+
+  private async importText(text: string): Promise<boolean> {
+    if (!text.trim()) return false;
+    try {
+      const bp = await parseBlueprint(text);
+      addBlueprint(bp);
+      emitGameEvent('toast', { message: `Imported blueprint "${bp.name}"` });
+      this.renderList();
+      return true;
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+      return false;
+    }
+  }
+
+  private importFile() {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json,.txt';
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (file) await this.importText(await file.text());
+    };
+    input.click();
+  }
+}
+
+customElements.define('bt-blueprints-modal', BlueprintsModal);
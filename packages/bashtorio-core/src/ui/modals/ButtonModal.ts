@@ -1,7 +1,8 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
 import { ByteInput } from '../components/ByteInput';
-import type { ButtonMachine } from '../../game/types';
+import { MachineType, type ButtonMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
 
 const CHANNELS = [
   { value: 0, label: '0', color: '#ff4444' },
@@ -77,8 +78,10 @@ export class ButtonModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.buttonByte = this.byteInput.getValue() || '1';
-      this.machine.buttonChannel = this.selectedChannel;
+      updateConfig(this.machine.x, this.machine.y, MachineType.BUTTON, {
+        buttonByte: this.byteInput.getValue() || '1',
+        buttonChannel: this.selectedChannel,
+      });
     }
     this.hide();
   }
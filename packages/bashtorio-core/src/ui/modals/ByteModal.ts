@@ -1,6 +1,8 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
-import type { ByteMachine } from '../../game/types';
+import { MachineType, type ByteMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
+import { EmitTimer } from '../../game/clock';
 import { HexInput } from '../components/HexInput';
 
 export class ByteModal extends BaseModal {
@@ -72,10 +74,12 @@ export class ByteModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.clock.interval = Math.max(50, parseInt(this.qs<HTMLInputElement>('.byte-interval').value) || 500);
-      this.machine.gapTimer.interval = Math.max(0, parseInt(this.qs<HTMLInputElement>('.byte-gap').value) || 0);
-      this.machine.byteData = this.hexInput!.getBytes();
-      this.machine.bytePos = 0;
+      updateConfig(this.machine.x, this.machine.y, MachineType.BYTE, {
+        clock: new EmitTimer(Math.max(50, parseInt(this.qs<HTMLInputElement>('.byte-interval').value) || 500)),
+        gapTimer: new EmitTimer(Math.max(0, parseInt(this.qs<HTMLInputElement>('.byte-gap').value) || 0)),
+        byteData: this.hexInput!.getBytes(),
+        bytePos: 0,
+      });
     }
     this.hide();
   }
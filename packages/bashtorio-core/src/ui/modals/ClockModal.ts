@@ -1,7 +1,9 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
 import { ByteInput } from '../components/ByteInput';
-import type { ClockMachine } from '../../game/types';
+import { MachineType, type ClockMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
+import { EmitTimer } from '../../game/clock';
 
 export class ClockModal extends BaseModal {
   private machine: ClockMachine | null = null;
@@ -46,8 +48,10 @@ export class ClockModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.clockByte = this.byteInput.getValue() || '*';
-      this.machine.clock.interval = Math.max(50, parseInt(this.qs<HTMLInputElement>('.clock-interval').value) || 1000);
+      updateConfig(this.machine.x, this.machine.y, MachineType.CLOCK, {
+        clockByte: this.byteInput.getValue() || '*',
+        clock: new EmitTimer(Math.max(50, parseInt(this.qs<HTMLInputElement>('.clock-interval').value) || 1000)),
+      });
     }
     this.hide();
   }
@@ -1,9 +1,28 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
-import type { CommandMachine } from '../../game/types';
+import { DirectionInput } from '../components/DirectionInput';
+import { ByteInput } from '../components/ByteInput';
+import { MachineType, Direction, type CommandMachine, type CommandFailureMode, type CommandFraming } from '../../game/types';
+import { updateConfig } from '../../game/edit';
+import { emitGameEvent } from '../../events/bus';
+import { GUEST_WORKSPACE } from '../../vm/bridge';
+
+/** `NAME=value` lines; blank lines and names that aren't shell identifiers are dropped */
+function parseEnv(text: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const eq = line.indexOf('=');
+    if (eq === -1) continue;
+    const name = line.slice(0, eq).trim();
+    if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) env[name] = line.slice(eq + 1);
+  }
+  return env;
+}
 
 export class CommandModal extends BaseModal {
   private machine: CommandMachine | null = null;
+  private stderrDirInput!: DirectionInput;
+  private delimiterInput!: ByteInput;
 
   template() {
     return html`
@@ -20,6 +39,10 @@ export class CommandModal extends BaseModal {
                 <input type="checkbox" class="cmd-stream">
                 <span>Stream</span>
               </label>
+              <label class="machine-panel-check" title="Keep one interactive program running and feed it a line at a time">
+                <input type="checkbox" class="cmd-repl">
+                <span>REPL</span>
+              </label>
               <div class="radio-group cmd-input-mode">
                 <label class="radio-option">
                   <input type="radio" name="cmd-input-mode" value="pipe">
@@ -37,12 +60,97 @@ export class CommandModal extends BaseModal {
               <label class="cmd-field-label">Command</label>
               <textarea class="cmd-input cmd-command" placeholder="shell command" spellcheck="false" rows="1"></textarea>
             </div>
+            <div class="cmd-field-row cmd-repl-fields" style="margin-top: 8px">
+              <div class="cmd-field">
+                <label class="cmd-field-label">Response ends at (regex)</label>
+                <input type="text" class="cmd-input cmd-repl-end" placeholder="each line" spellcheck="false">
+              </div>
+              <div class="cmd-field">
+                <label class="cmd-field-label">Sentinel line</label>
+                <input type="text" class="cmd-input cmd-repl-sentinel" placeholder="none: the regex is a prompt" spellcheck="false">
+              </div>
+            </div>
             <div class="cmd-field" style="margin-top: 8px">
               <label class="cmd-field-label">Working Directory</label>
-              <input type="text" class="cmd-input cmd-cwd" placeholder="/" spellcheck="false">
+              <input type="text" class="cmd-input cmd-cwd" placeholder="$WORKSPACE" spellcheck="false">
+            </div>
+            <div class="cmd-field" style="margin-top: 8px">
+              <label class="cmd-field-label">Environment</label>
+              <textarea class="cmd-input cmd-env" placeholder="NAME=value, one per line" spellcheck="false" rows="2"></textarea>
+            </div>
+            <div class="cmd-field-row" style="margin-top: 8px">
+              <div class="cmd-field">
+                <label class="cmd-field-label">On Failure</label>
+                <select class="cmd-input cmd-on-failure">
+                  <option value="ignore">Ignore</option>
+                  <option value="exitCode">Emit exit code as a byte</option>
+                  <option value="errorSide">Send input line out the stderr side</option>
+                  <option value="stop">Stop the simulation</option>
+                </select>
+              </div>
+              <div class="cmd-field">
+                <label class="machine-panel-check">
+                  <input type="checkbox" class="cmd-stderr-enabled">
+                  <span>stderr to belt</span>
+                </label>
+                <div class="cmd-stderr-dir-mount"></div>
+              </div>
+            </div>
+            <div class="cmd-field-row cmd-framing-fields" style="margin-top: 8px">
+              <div class="cmd-field">
+                <label class="cmd-field-label">Records</label>
+                <select class="cmd-input cmd-framing">
+                  <option value="delimiter">End at a delimiter byte</option>
+                  <option value="fixed">Fixed length</option>
+                  <option value="packet">One per packet</option>
+                </select>
+              </div>
+              <div class="cmd-field cmd-delimiter-field">
+                <label class="cmd-field-label">Delimiter</label>
+                <div class="cmd-delimiter-mount"></div>
+              </div>
+              <div class="cmd-field cmd-length-field">
+                <label class="cmd-field-label">Length (bytes)</label>
+                <input type="number" class="cmd-input cmd-record-length" min="1" step="1">
+              </div>
+            </div>
+            <div class="cmd-field-row cmd-worker-fields" style="margin-top: 8px">
+              <div class="cmd-field" title="Shells running input lines at the same time">
+                <label class="cmd-field-label">Workers</label>
+                <input type="number" class="cmd-input cmd-workers" min="1" max="16" step="1">
+              </div>
+              <div class="cmd-field">
+                <label class="machine-panel-check" title="Hold back results that finish early so output follows input order">
+                  <input type="checkbox" class="cmd-ordered">
+                  <span>Keep input order</span>
+                </label>
+              </div>
+              <div class="cmd-field" title="Pipe mode: feed this many records to one run of the command; 1 runs it per record">
+                <label class="cmd-field-label">Batch size</label>
+                <input type="number" class="cmd-input cmd-batch-lines" min="1" step="1">
+              </div>
+              <div class="cmd-field" title="Run a short batch anyway once its first line has waited this long">
+                <label class="cmd-field-label">Batch wait (ms)</label>
+                <input type="number" class="cmd-input cmd-batch-ms" min="0" step="50">
+              </div>
+            </div>
+            <div class="cmd-field-row" style="margin-top: 8px">
+              <div class="cmd-field" title="Kill a command (or REPL response) that runs longer than this">
+                <label class="cmd-field-label">Timeout (s)</label>
+                <input type="number" class="cmd-input cmd-timeout" min="0" step="0.5" placeholder="none">
+              </div>
+              <div class="cmd-field" title="ulimit -t for each command; not applied in stream or REPL mode">
+                <label class="cmd-field-label">CPU limit (s)</label>
+                <input type="number" class="cmd-input cmd-cpu-limit" min="0" step="1" placeholder="none">
+              </div>
+              <div class="cmd-field" title="Kill a command that prints more than this and keep only the first bytes">
+                <label class="cmd-field-label">Output cap (bytes)</label>
+                <input type="number" class="cmd-input cmd-output-limit" min="0" step="1024" placeholder="none">
+              </div>
             </div>
           </div>
           <div class="machine-panel-footer">
+            <button class="cmd-kill" title="Kill what this machine is running">Kill</button>
             <button data-cancel>Cancel</button>
             <button data-save>Save</button>
           </div>
@@ -53,35 +161,78 @@ export class CommandModal extends BaseModal {
 
   protected setup() {
     const streamCheckbox = this.qs<HTMLInputElement>('.cmd-stream');
-    const modeGroup = this.qs('.cmd-input-mode');
+    const replCheckbox = this.qs<HTMLInputElement>('.cmd-repl');
+
+    this.stderrDirInput = new DirectionInput({ variant: 'outward' });
+    this.qs('.cmd-stderr-dir-mount').appendChild(this.stderrDirInput.el);
+    this.delimiterInput = new ByteInput({ value: '\n' });
+    this.qs('.cmd-delimiter-mount').appendChild(this.delimiterInput.el);
+    this.qs('.cmd-framing').addEventListener('change', () => this.syncModeControls());
 
-    const autoStartCheckbox = this.qs<HTMLInputElement>('.cmd-autostart');
+    this.qs('.cmd-kill').addEventListener('click', () => {
+      if (this.machine) emitGameEvent('commandKill', { machine: this.machine });
+    });
 
     streamCheckbox.addEventListener('change', () => {
-      const radios = modeGroup.querySelectorAll<HTMLInputElement>('input[type="radio"]');
       if (streamCheckbox.checked) {
-        this.qs<HTMLInputElement>('.cmd-input-mode input[value="pipe"]').checked = true;
-        radios.forEach(r => r.disabled = true);
-        autoStartCheckbox.checked = true;
-        autoStartCheckbox.disabled = true;
-      } else {
-        radios.forEach(r => r.disabled = false);
-        autoStartCheckbox.disabled = false;
+        replCheckbox.checked = false;
+        this.qs<HTMLInputElement>('.cmd-autostart').checked = true;
+      }
+      this.syncModeControls();
+    });
+    replCheckbox.addEventListener('change', () => {
+      if (replCheckbox.checked) {
+        streamCheckbox.checked = false;
+        this.qs<HTMLInputElement>('.cmd-autostart').checked = false;
       }
+      this.syncModeControls();
     });
   }
 
+  /** Stream and REPL both run one process on raw pipe input; stream also always auto-runs */
+  private syncModeControls() {
+    const stream = this.qs<HTMLInputElement>('.cmd-stream').checked;
+    const repl = this.qs<HTMLInputElement>('.cmd-repl').checked;
+    if (stream || repl) this.qs<HTMLInputElement>('.cmd-input-mode input[value="pipe"]').checked = true;
+    this.qs('.cmd-input-mode').querySelectorAll<HTMLInputElement>('input[type="radio"]').forEach(r => r.disabled = stream || repl);
+    this.qs<HTMLInputElement>('.cmd-autostart').disabled = stream || repl;
+    this.qs<HTMLElement>('.cmd-repl-fields').style.display = repl ? '' : 'none';
+    this.qs<HTMLElement>('.cmd-worker-fields').style.display = stream || repl ? 'none' : '';
+    this.qs<HTMLElement>('.cmd-framing-fields').style.display = stream || repl ? 'none' : '';
+    const framing = this.qs<HTMLSelectElement>('.cmd-framing').value;
+    this.qs<HTMLElement>('.cmd-delimiter-field').style.display = framing === 'delimiter' ? '' : 'none';
+    this.qs<HTMLElement>('.cmd-length-field').style.display = framing === 'fixed' ? '' : 'none';
+  }
+
   configure(machine: CommandMachine) {
     this.machine = machine;
 
     this.qs<HTMLInputElement>('.cmd-label').value = machine.label;
     this.qs<HTMLTextAreaElement>('.cmd-command').value = machine.command;
     this.qs<HTMLInputElement>('.cmd-autostart').checked = machine.stream || machine.autoStart;
-    this.qs<HTMLInputElement>('.cmd-autostart').disabled = machine.stream;
     this.qs<HTMLInputElement>('.cmd-stream').checked = machine.stream;
+    this.qs<HTMLInputElement>('.cmd-repl').checked = machine.repl;
+    this.qs<HTMLInputElement>('.cmd-repl-end').value = machine.replEnd;
+    this.qs<HTMLInputElement>('.cmd-repl-sentinel').value = machine.replSentinel;
     this.qs<HTMLInputElement>(`.cmd-input-mode input[value="${machine.inputMode || 'pipe'}"]`).checked = true;
-    this.qs('.cmd-input-mode').querySelectorAll<HTMLInputElement>('input[type="radio"]').forEach(r => r.disabled = machine.stream);
-    this.qs<HTMLInputElement>('.cmd-cwd').value = machine.cwd || '/';
+    this.qs<HTMLSelectElement>('.cmd-framing').value = machine.framing;
+    this.delimiterInput.setValue(machine.recordDelimiter);
+    this.qs<HTMLInputElement>('.cmd-record-length').value = String(machine.recordLength);
+    this.syncModeControls();
+    this.qs<HTMLInputElement>('.cmd-cwd').value = machine.cwd || GUEST_WORKSPACE;
+    this.qs<HTMLTextAreaElement>('.cmd-env').value = Object.entries(machine.env)
+      .map(([name, value]) => `${name}=${value}`)
+      .join('\n');
+    this.qs<HTMLSelectElement>('.cmd-on-failure').value = machine.onFailure;
+    this.qs<HTMLInputElement>('.cmd-stderr-enabled').checked = machine.stderrDir !== null;
+    this.stderrDirInput.setValue(machine.stderrDir ?? Direction.DOWN);
+    this.qs<HTMLInputElement>('.cmd-workers').value = String(machine.workers);
+    this.qs<HTMLInputElement>('.cmd-ordered').checked = machine.ordered;
+    this.qs<HTMLInputElement>('.cmd-batch-lines').value = String(machine.batchLines);
+    this.qs<HTMLInputElement>('.cmd-batch-ms').value = String(machine.batchMs);
+    this.qs<HTMLInputElement>('.cmd-timeout').value = machine.timeoutMs > 0 ? String(machine.timeoutMs / 1000) : '';
+    this.qs<HTMLInputElement>('.cmd-cpu-limit').value = machine.cpuLimit > 0 ? String(machine.cpuLimit) : '';
+    this.qs<HTMLInputElement>('.cmd-output-limit').value = machine.outputLimit > 0 ? String(machine.outputLimit) : '';
 
     this.show();
     this.qs<HTMLTextAreaElement>('.cmd-command').focus();
@@ -90,14 +241,45 @@ export class CommandModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.label = this.qs<HTMLInputElement>('.cmd-label').value.trim() || this.machine.label;
-      this.machine.command = this.qs<HTMLTextAreaElement>('.cmd-command').value.trim() || 'cat';
-      this.machine.stream = this.qs<HTMLInputElement>('.cmd-stream').checked;
-      this.machine.autoStart = this.machine.stream || this.qs<HTMLInputElement>('.cmd-autostart').checked;
-      this.machine.inputMode = this.qs<HTMLInputElement>('.cmd-stream').checked
-        ? 'pipe'
-        : (this.qs<HTMLInputElement>('.cmd-input-mode input:checked')?.value || 'pipe') as 'pipe' | 'args';
-      this.machine.cwd = this.qs<HTMLInputElement>('.cmd-cwd').value.trim() || '/';
+      const stream = this.qs<HTMLInputElement>('.cmd-stream').checked;
+      const repl = !stream && this.qs<HTMLInputElement>('.cmd-repl').checked;
+      const replEnd = this.qs<HTMLInputElement>('.cmd-repl-end').value;
+      if (repl && replEnd) {
+        try {
+          new RegExp(replEnd, 'm');
+        } catch {
+          emitGameEvent('toast', { message: 'Invalid response end pattern' });
+          return;
+        }
+      }
+      updateConfig(this.machine.x, this.machine.y, MachineType.COMMAND, {
+        label: this.qs<HTMLInputElement>('.cmd-label').value.trim() || this.machine.label,
+        command: this.qs<HTMLTextAreaElement>('.cmd-command').value.trim() || 'cat',
+        stream,
+        repl,
+        replEnd,
+        replSentinel: this.qs<HTMLInputElement>('.cmd-repl-sentinel').value,
+        autoStart: stream || (!repl && this.qs<HTMLInputElement>('.cmd-autostart').checked),
+        inputMode: stream || repl
+          ? 'pipe'
+          : (this.qs<HTMLInputElement>('.cmd-input-mode input:checked')?.value || 'pipe') as 'pipe' | 'args',
+        cwd: this.qs<HTMLInputElement>('.cmd-cwd').value.trim() || GUEST_WORKSPACE,
+        env: parseEnv(this.qs<HTMLTextAreaElement>('.cmd-env').value),
+        onFailure: this.qs<HTMLSelectElement>('.cmd-on-failure').value as CommandFailureMode,
+        stderrDir: this.qs<HTMLInputElement>('.cmd-stderr-enabled').checked
+          ? this.stderrDirInput.getValue() as Direction
+          : null,
+        workers: Math.min(16, Math.max(1, parseInt(this.qs<HTMLInputElement>('.cmd-workers').value) || 1)),
+        ordered: this.qs<HTMLInputElement>('.cmd-ordered').checked,
+        framing: this.qs<HTMLSelectElement>('.cmd-framing').value as CommandFraming,
+        recordDelimiter: this.delimiterInput.getValue() || '\n',
+        recordLength: Math.max(1, parseInt(this.qs<HTMLInputElement>('.cmd-record-length').value) || 1),
+        batchLines: Math.max(1, parseInt(this.qs<HTMLInputElement>('.cmd-batch-lines').value) || 1),
+        batchMs: Math.max(0, parseInt(this.qs<HTMLInputElement>('.cmd-batch-ms').value) || 0),
+        timeoutMs: Math.max(0, Math.round((parseFloat(this.qs<HTMLInputElement>('.cmd-timeout').value) || 0) * 1000)),
+        cpuLimit: Math.max(0, Math.ceil(parseFloat(this.qs<HTMLInputElement>('.cmd-cpu-limit').value) || 0)),
+        outputLimit: Math.max(0, parseInt(this.qs<HTMLInputElement>('.cmd-output-limit').value) || 0),
+      });
     }
     this.hide();
   }
@@ -1,7 +1,8 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
 import { ByteInput } from '../components/ByteInput';
-import type { CounterMachine } from '../../game/types';
+import { MachineType, type CounterMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
 
 export class CounterModal extends BaseModal {
   private machine: CounterMachine | null = null;
@@ -41,7 +42,9 @@ export class CounterModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.counterTrigger = this.byteInput.getValue() || '\n';
+      updateConfig(this.machine.x, this.machine.y, MachineType.COUNTER, {
+        counterTrigger: this.byteInput.getValue() || '\n',
+      });
     }
     this.hide();
   }
@@ -1,6 +1,7 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
-import type { DelayMachine } from '../../game/types';
+import { MachineType, type DelayMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
 
 export class DelayModal extends BaseModal {
   private machine: DelayMachine | null = null;
@@ -38,7 +39,9 @@ export class DelayModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.delayMs = Math.max(50, parseInt(this.qs<HTMLInputElement>('.delay-ms').value) || 1000);
+      updateConfig(this.machine.x, this.machine.y, MachineType.DELAY, {
+        delayMs: Math.max(50, parseInt(this.qs<HTMLInputElement>('.delay-ms').value) || 1000),
+      });
     }
     this.hide();
   }
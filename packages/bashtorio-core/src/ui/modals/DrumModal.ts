@@ -1,6 +1,7 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
-import type { DrumMachine } from '../../game/types';
+import { MachineType, type DrumMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
 
 export class DrumModal extends BaseModal {
   private machine: DrumMachine | null = null;
@@ -42,7 +43,9 @@ export class DrumModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.bitmask = this.qs<HTMLInputElement>('.drum-bitmask').checked;
+      updateConfig(this.machine.x, this.machine.y, MachineType.DRUM, {
+        bitmask: this.qs<HTMLInputElement>('.drum-bitmask').checked,
+      });
     }
     this.hide();
   }
@@ -0,0 +1,57 @@
+import { html } from 'lit-html';
+import { BaseModal } from './BaseModal';
+import { MachineType, type FileSinkMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
+
+export class FileSinkModal extends BaseModal {
+  private machine: FileSinkMachine | null = null;
+
+  template() {
+    return html`
+      <div class="modal-content machine-panel-wrap">
+        <div class="machine-panel">
+          <div class="machine-panel-header">
+            <span class="machine-panel-title">File Sink</span>
+            <div class="machine-panel-controls">
+              <label class="machine-panel-check">
+                <input type="checkbox" class="fsink-append">
+                <span>Append</span>
+              </label>
+            </div>
+          </div>
+          <div class="machine-panel-body">
+            <p class="modal-description">Writes received bytes to a file in the VM. Without Append the file is replaced when the first byte of a run arrives. Relative paths are in the factory workspace.</p>
+            <div class="form-group">
+              <label>Path:</label>
+              <input class="fsink-path modal-input" type="text" placeholder="out.txt" spellcheck="false">
+            </div>
+          </div>
+          <div class="machine-panel-footer">
+            <button data-cancel>Cancel</button>
+            <button data-save>Save</button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  configure(machine: FileSinkMachine) {
+    this.machine = machine;
+    this.qs<HTMLInputElement>('.fsink-path').value = machine.filePath;
+    this.qs<HTMLInputElement>('.fsink-append').checked = machine.append;
+    this.show();
+    this.qs<HTMLInputElement>('.fsink-path').focus();
+  }
+
+  protected save() {
+    if (this.machine) {
+      updateConfig(this.machine.x, this.machine.y, MachineType.FILESINK, {
+        filePath: this.qs<HTMLInputElement>('.fsink-path').value.trim() || this.machine.filePath,
+        append: this.qs<HTMLInputElement>('.fsink-append').checked,
+      });
+    }
+    this.hide();
+  }
+}
+
+customElements.define('bt-filesink-modal', FileSinkModal);
@@ -0,0 +1,64 @@
+import { html } from 'lit-html';
+import { BaseModal } from './BaseModal';
+import { MachineType, type FileSourceMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
+import { EmitTimer } from '../../game/clock';
+
+export class FileSourceModal extends BaseModal {
+  private machine: FileSourceMachine | null = null;
+
+  template() {
+    return html`
+      <div class="modal-content machine-panel-wrap">
+        <div class="machine-panel">
+          <div class="machine-panel-header">
+            <span class="machine-panel-title">File Source</span>
+            <div class="machine-panel-controls">
+              <label class="machine-panel-check">
+                <input type="checkbox" class="fsrc-loop">
+                <span>Loop</span>
+              </label>
+            </div>
+          </div>
+          <div class="machine-panel-body">
+            <p class="modal-description">Reads a file from the VM when the simulation starts and emits it byte by byte. Relative paths are in the factory workspace.</p>
+            <div class="form-group">
+              <label>Path:</label>
+              <input class="fsrc-path modal-input" type="text" placeholder="/etc/passwd" spellcheck="false">
+            </div>
+            <div class="form-group">
+              <label>Release (ms):</label>
+              <input type="number" class="fsrc-interval" min="10" max="10000" step="10" value="100">
+            </div>
+          </div>
+          <div class="machine-panel-footer">
+            <button data-cancel>Cancel</button>
+            <button data-save>Save</button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  configure(machine: FileSourceMachine) {
+    this.machine = machine;
+    this.qs<HTMLInputElement>('.fsrc-path').value = machine.filePath;
+    this.qs<HTMLInputElement>('.fsrc-interval').value = String(machine.clock.interval);
+    this.qs<HTMLInputElement>('.fsrc-loop').checked = machine.loop;
+    this.show();
+    this.qs<HTMLInputElement>('.fsrc-path').focus();
+  }
+
+  protected save() {
+    if (this.machine) {
+      updateConfig(this.machine.x, this.machine.y, MachineType.FILESOURCE, {
+        filePath: this.qs<HTMLInputElement>('.fsrc-path').value.trim(),
+        clock: new EmitTimer(Math.max(10, parseInt(this.qs<HTMLInputElement>('.fsrc-interval').value) || 100)),
+        loop: this.qs<HTMLInputElement>('.fsrc-loop').checked,
+      });
+    }
+    this.hide();
+  }
+}
+
+customElements.define('bt-filesource-modal', FileSourceModal);
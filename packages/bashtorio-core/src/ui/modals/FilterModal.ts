@@ -1,7 +1,10 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
 import { ByteInput } from '../components/ByteInput';
-import type { FilterMachine } from '../../game/types';
+import { MachineType, type FilterMachine, type MatchMode } from '../../game/types';
+import { updateConfig } from '../../game/edit';
+import { MATCH_EXAMPLES, patternError } from '../../util/match';
+import { emitGameEvent } from '../../events/bus';
 
 export class FilterModal extends BaseModal {
   private machine: FilterMachine | null = null;
@@ -15,8 +18,29 @@ export class FilterModal extends BaseModal {
             <span class="machine-panel-title">Filter</span>
           </div>
           <div class="machine-panel-body">
-            <p class="modal-description">Pass or block a specific packet.</p>
+            <p class="modal-description">Pass or block packets that match.</p>
+            <div class="form-group">
+              <label>Match:</label>
+              <div class="radio-group filter-match">
+                <label class="radio-option">
+                  <input type="radio" name="filter-match" value="byte">
+                  <span>Byte: one exact byte</span>
+                </label>
+                <label class="radio-option">
+                  <input type="radio" name="filter-match" value="set">
+                  <span>Set: packets made only of these bytes</span>
+                </label>
+                <label class="radio-option">
+                  <input type="radio" name="filter-match" value="regex">
+                  <span>Regex: tested against the whole packet</span>
+                </label>
+              </div>
+            </div>
             <div class="form-group filter-byte-input-mount"></div>
+            <div class="form-group filter-pattern-field">
+              <label>Pattern:</label>
+              <input type="text" class="filter-pattern" spellcheck="false">
+            </div>
             <div class="form-group">
               <label>Mode:</label>
               <div class="radio-group filter-mode">
@@ -43,11 +67,23 @@ export class FilterModal extends BaseModal {
   protected setup() {
     this.byteInput = new ByteInput({ value: '\n' });
     this.qs('.filter-byte-input-mount').appendChild(this.byteInput.el);
+    this.qs('.filter-match').addEventListener('change', () => this.syncMatchControls());
+  }
+
+  /** Byte mode uses the byte picker, set and regex a typed pattern */
+  private syncMatchControls() {
+    const mode = this.qs<HTMLInputElement>('.filter-match input:checked').value as MatchMode;
+    this.qs<HTMLElement>('.filter-byte-input-mount').style.display = mode === 'byte' ? '' : 'none';
+    this.qs<HTMLElement>('.filter-pattern-field').style.display = mode === 'byte' ? 'none' : '';
+    this.qs<HTMLInputElement>('.filter-pattern').placeholder = MATCH_EXAMPLES[mode];
   }
 
   configure(machine: FilterMachine) {
     this.machine = machine;
     this.byteInput.setValue(machine.filterByte);
+    this.qs<HTMLInputElement>(`.filter-match input[value="${machine.filterMatch}"]`).checked = true;
+    this.qs<HTMLInputElement>('.filter-pattern').value = machine.filterPattern;
+    this.syncMatchControls();
     this.qs<HTMLInputElement>(`.filter-mode input[value="${machine.filterMode}"]`).checked = true;
     this.show();
     this.byteInput.focus();
@@ -55,8 +91,19 @@ export class FilterModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.filterByte = this.byteInput.getValue() || '\n';
-      this.machine.filterMode = this.qs<HTMLInputElement>('.filter-mode input:checked').value as 'pass' | 'block';
+      const match = this.qs<HTMLInputElement>('.filter-match input:checked').value as MatchMode;
+      const pattern = this.qs<HTMLInputElement>('.filter-pattern').value;
+      const error = patternError(match, pattern);
+      if (error) {
+        emitGameEvent('toast', { message: error });
+        return;
+      }
+      updateConfig(this.machine.x, this.machine.y, MachineType.FILTER, {
+        filterByte: this.byteInput.getValue() || '\n',
+        filterMatch: match,
+        filterPattern: pattern,
+        filterMode: this.qs<HTMLInputElement>('.filter-mode input:checked').value as 'pass' | 'block',
+      });
     }
     this.hide();
   }
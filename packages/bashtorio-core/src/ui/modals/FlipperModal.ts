@@ -1,7 +1,8 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
 import { DirectionInput } from '../components/DirectionInput';
-import type { FlipperMachine } from '../../game/types';
+import { MachineType, type FlipperMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
 
 export class FlipperModal extends BaseModal {
   private machine: FlipperMachine | null = null;
@@ -45,8 +46,10 @@ export class FlipperModal extends BaseModal {
   protected save() {
     if (this.machine) {
       const dir = this.dirInput.getValue();
-      this.machine.flipperDir = dir;
-      this.machine.flipperState = dir;
+      updateConfig(this.machine.x, this.machine.y, MachineType.FLIPPER, {
+        flipperDir: dir,
+        flipperState: dir,
+      });
     }
     this.hide();
   }
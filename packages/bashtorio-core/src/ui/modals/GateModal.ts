@@ -1,7 +1,8 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
 import { DirectionInput } from '../components/DirectionInput';
-import type { GateMachine } from '../../game/types';
+import { MachineType, type GateMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
 
 export class GateModal extends BaseModal {
   private machine: GateMachine | null = null;
@@ -55,8 +56,10 @@ export class GateModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.gateDataDir = this.dataDirInput.getValue();
-      this.machine.gateControlDir = this.controlDirInput.getValue();
+      updateConfig(this.machine.x, this.machine.y, MachineType.GATE, {
+        gateDataDir: this.dataDirInput.getValue(),
+        gateControlDir: this.controlDirInput.getValue(),
+      });
     }
     this.hide();
   }
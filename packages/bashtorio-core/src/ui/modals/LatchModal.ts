@@ -1,7 +1,8 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
 import { DirectionInput } from '../components/DirectionInput';
-import type { LatchMachine } from '../../game/types';
+import { MachineType, type LatchMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
 
 export class LatchModal extends BaseModal {
   private machine: LatchMachine | null = null;
@@ -55,8 +56,10 @@ export class LatchModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.latchDataDir = this.dataDirInput.getValue();
-      this.machine.latchControlDir = this.controlDirInput.getValue();
+      updateConfig(this.machine.x, this.machine.y, MachineType.LATCH, {
+        latchDataDir: this.dataDirInput.getValue(),
+        latchControlDir: this.controlDirInput.getValue(),
+      });
     }
     this.hide();
   }
@@ -1,6 +1,8 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
-import type { LinefeedMachine } from '../../game/types';
+import { MachineType, type LinefeedMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
+import { EmitTimer } from '../../game/clock';
 
 export class LinefeedModal extends BaseModal {
   private machine: LinefeedMachine | null = null;
@@ -38,7 +40,9 @@ export class LinefeedModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.clock.interval = Math.max(50, parseInt(this.qs<HTMLInputElement>('.lf-interval').value) || 500);
+      updateConfig(this.machine.x, this.machine.y, MachineType.LINEFEED, {
+        clock: new EmitTimer(Math.max(50, parseInt(this.qs<HTMLInputElement>('.lf-interval').value) || 500)),
+      });
     }
     this.hide();
   }
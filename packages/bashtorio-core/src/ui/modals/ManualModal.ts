@@ -24,6 +24,18 @@ export class ManualModal extends BaseModal {
             <tr><td><kbd>R</kbd></td><td>Rotate placement direction</td></tr>
             <tr><td><kbd>Space</kbd></td><td>Start / stop simulation</td></tr>
             <tr><td><kbd>E</kbd></td><td>Open machine picker</td></tr>
+            <tr><td><kbd>Ctrl</kbd> + <kbd>Z</kbd></td><td>Undo last edit</td></tr>
+            <tr><td><kbd>Ctrl</kbd> + <kbd>Shift</kbd> + <kbd>Z</kbd></td><td>Redo</td></tr>
+          </table>
+
+          <h4>Selection <span style="opacity:0.5">(in Select mode)</span></h4>
+          <table class="manual-table">
+            <tr><td>Drag from an empty cell</td><td>Select a rectangle</td></tr>
+            <tr><td>Drag the selection</td><td>Move everything inside it</td></tr>
+            <tr><td><kbd>Ctrl</kbd> + <kbd>C</kbd> / <kbd>X</kbd></td><td>Copy / cut the selection</td></tr>
+            <tr><td><kbd>Ctrl</kbd> + <kbd>V</kbd></td><td>Paste - click to stamp, <kbd>R</kbd> rotates, <kbd>Esc</kbd> or right click drops it</td></tr>
+            <tr><td><kbd>Delete</kbd></td><td>Erase the selection</td></tr>
+            <tr><td><kbd>Ctrl</kbd> + <kbd>G</kbd></td><td>Make a subfactory block from the selection (needs Port machines)</td></tr>
           </table>
 
           <h4>Machine Shortcuts <span style="opacity:0.5">(in Place mode)</span></h4>
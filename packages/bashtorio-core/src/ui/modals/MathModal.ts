@@ -1,6 +1,7 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
-import type { MathMachine, MathOp } from '../../game/types';
+import { MachineType, type MathMachine, type MathOp } from '../../game/types';
+import { updateConfig } from '../../game/edit';
 
 export class MathModal extends BaseModal {
   private machine: MathMachine | null = null;
@@ -50,8 +51,10 @@ export class MathModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.mathOp = this.qs<HTMLInputElement>('.math-op input:checked').value as MathOp;
-      this.machine.mathOperand = Math.max(0, Math.min(255, parseInt(this.qs<HTMLInputElement>('.math-operand').value) || 0));
+      updateConfig(this.machine.x, this.machine.y, MachineType.MATH, {
+        mathOp: this.qs<HTMLInputElement>('.math-op input:checked').value as MathOp,
+        mathOperand: Math.max(0, Math.min(255, parseInt(this.qs<HTMLInputElement>('.math-operand').value) || 0)),
+      });
     }
     this.hide();
   }
@@ -0,0 +1,70 @@
+import { html } from 'lit-html';
+import { BaseModal } from './BaseModal';
+import { DirectionInput } from '../components/DirectionInput';
+import { MachineType, type MergerMachine, type MergerPolicy } from '../../game/types';
+import { updateConfig } from '../../game/edit';
+
+export class MergerModal extends BaseModal {
+  private machine: MergerMachine | null = null;
+  private priorityDirInput!: DirectionInput;
+
+  template() {
+    return html`
+      <div class="modal-content machine-panel-wrap">
+        <div class="machine-panel">
+          <div class="machine-panel-header">
+            <span class="machine-panel-title">Merger</span>
+          </div>
+          <div class="machine-panel-body">
+            <p class="modal-description">Combines the belts coming in on its sides into its one output belt. When the output backs up, the input belts wait.</p>
+            <div class="form-group">
+              <label>Policy:</label>
+              <div class="radio-group merger-policy">
+                <label class="radio-option">
+                  <input type="radio" name="merger-policy" value="fair">
+                  <span>Fair: inputs take turns</span>
+                </label>
+                <label class="radio-option">
+                  <input type="radio" name="merger-policy" value="priority">
+                  <span>Priority: one input goes first, the rest take turns</span>
+                </label>
+              </div>
+            </div>
+            <div class="form-group">
+              <label>Priority Input:</label>
+              <div class="merger-priority-dir-mount"></div>
+            </div>
+          </div>
+          <div class="machine-panel-footer">
+            <button data-cancel>Cancel</button>
+            <button data-save>Save</button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  protected setup() {
+    this.priorityDirInput = new DirectionInput({ variant: 'inward' });
+    this.qs('.merger-priority-dir-mount').appendChild(this.priorityDirInput.el);
+  }
+
+  configure(machine: MergerMachine) {
+    this.machine = machine;
+    this.qs<HTMLInputElement>(`.merger-policy input[value="${machine.mergerPolicy}"]`).checked = true;
+    this.priorityDirInput.setValue(machine.mergerPriorityDir);
+    this.show();
+  }
+
+  protected save() {
+    if (this.machine) {
+      updateConfig(this.machine.x, this.machine.y, MachineType.MERGER, {
+        mergerPolicy: this.qs<HTMLInputElement>('.merger-policy input:checked').value as MergerPolicy,
+        mergerPriorityDir: this.priorityDirInput.getValue(),
+      });
+    }
+    this.hide();
+  }
+}
+
+customElements.define('bt-merger-modal', MergerModal);
@@ -22,6 +22,10 @@ export class NetworkModal extends BaseModal {
           <input type="text" class="relay-url" placeholder="ws://127.0.0.1:8080/">
         </div>
         <p class="modal-warning">Networking is experimental. Changes require a page reload.</p>
+        <p class="modal-description">
+          Factories that only need a few Alpine packages can list them under 📦 Packages instead,
+          and get them from the local package cache without a network.
+        </p>
         <div class="network-status">
           <span class="status-dot"></span>
           <span class="status-text"></span>
@@ -1,6 +1,7 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
-import type { NoiseMachine } from '../../game/types';
+import { MachineType, type NoiseMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
 
 export class NoiseModal extends BaseModal {
   private machine: NoiseMachine | null = null;
@@ -45,7 +46,9 @@ export class NoiseModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.noiseMode = this.qs<HTMLInputElement>('.noise-mode input:checked').value as '15bit' | '7bit';
+      updateConfig(this.machine.x, this.machine.y, MachineType.NOISE, {
+        noiseMode: this.qs<HTMLInputElement>('.noise-mode input:checked').value as '15bit' | '7bit',
+      });
     }
     this.hide();
   }
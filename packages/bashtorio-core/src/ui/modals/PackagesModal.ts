@@ -0,0 +1,78 @@
+import { html } from 'lit-html';
+import { BaseModal } from './BaseModal';
+import * as vm from '../../game/vm';
+import { parsePackageList } from '../../vm/packages';
+import { packagesBase } from '../../util/assets';
+import { emitGameEvent } from '../../events/bus';
+import { createLogger } from '../../util/logger';
+
+const log = createLogger('Packages');
+
+export class PackagesModal extends BaseModal {
+  private installing = false;
+
+  template() {
+    return html`
+      <div class="modal-content">
+        <h3>Packages</h3>
+        <p class="modal-description">
+          Alpine packages this factory needs. They are installed from the local package cache when the
+          simulation starts, so the factory runs without a network connection.
+        </p>
+        <div class="form-group">
+          <label>Packages (space separated):</label>
+          <input type="text" class="packages-list" placeholder="jq python3 bc" spellcheck="false">
+        </div>
+        <p class="packages-repo"></p>
+        <div class="packages-status"></div>
+        <div class="modal-buttons">
+          <button data-cancel>Cancel</button>
+          <button class="packages-install">Install Now</button>
+          <button class="primary" data-save>Save</button>
+        </div>
+      </div>
+    `;
+  }
+
+  protected setup() {
+    this.qs('.packages-install').addEventListener('click', () => this.installNow());
+  }
+
+  open() {
+    this.qs<HTMLInputElement>('.packages-list').value = vm.getFactoryPackages().join(' ');
+    this.qs('.packages-repo').textContent = `Local cache: ${packagesBase()}`;
+    this.renderStatus();
+    this.show();
+    this.qs<HTMLInputElement>('.packages-list').focus();
+  }
+
+  protected save() {
+    vm.setFactoryPackages(parsePackageList(this.qs<HTMLInputElement>('.packages-list').value));
+    this.hide();
+  }
+
+  private renderStatus(message?: string) {
+    const missing = vm.missingPackages();
+    this.qs('.packages-status').textContent = message
+      ?? (missing.length > 0 ? `Not installed yet: ${missing.join(' ')}` : '');
+  }
+
+  private async installNow() {
+    if (this.installing) return;
+    vm.setFactoryPackages(parsePackageList(this.qs<HTMLInputElement>('.packages-list').value));
+    this.installing = true;
+    try {
+      const installed = await vm.ensurePackages(status => this.renderStatus(status));
+      this.renderStatus(installed.length > 0 ? `Installed ${installed.join(' ')}` : 'Everything is installed');
+    } catch (e) {
+      log.error('Package install failed:', e);
+      const message = e instanceof Error ? e.message : String(e);
+      this.renderStatus(`Install failed: ${message}`);
+      emitGameEvent('toast', { message: `Package install failed: ${message}` });
+    } finally {
+      this.installing = false;
+    }
+  }
+}
+
+customElements.define('bt-packages-modal', PackagesModal);
@@ -1,7 +1,8 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
 import { ByteInput } from '../components/ByteInput';
-import type { PackerMachine } from '../../game/types';
+import { MachineType, type PackerMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
 
 export class PackerModal extends BaseModal {
   private machine: PackerMachine | null = null;
@@ -48,8 +49,10 @@ export class PackerModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.packerDelimiter = this.byteInput.getValue() || '\n';
-      this.machine.preserveDelimiter = this.qs<HTMLInputElement>('.packer-preserve').checked;
+      updateConfig(this.machine.x, this.machine.y, MachineType.PACKER, {
+        packerDelimiter: this.byteInput.getValue() || '\n',
+        preserveDelimiter: this.qs<HTMLInputElement>('.packer-preserve').checked,
+      });
     }
     this.hide();
   }
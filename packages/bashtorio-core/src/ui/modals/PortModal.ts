@@ -0,0 +1,71 @@
+import { html } from 'lit-html';
+import { BaseModal } from './BaseModal';
+import { DirectionInput } from '../components/DirectionInput';
+import { MachineType, type PortMachine, type PortMode } from '../../game/types';
+import { updateConfig } from '../../game/edit';
+
+export class PortModal extends BaseModal {
+  private machine: PortMachine | null = null;
+  private sideInput!: DirectionInput;
+
+  template() {
+    return html`
+      <div class="modal-content machine-panel-wrap">
+        <div class="machine-panel">
+          <div class="machine-panel-header">
+            <span class="machine-panel-title">Port</span>
+          </div>
+          <div class="machine-panel-body">
+            <p class="modal-description">Marks an input or output of a subfactory. Select a region containing ports and press Ctrl+G to turn it into a single block. On the open grid a port just passes packets through.</p>
+            <div class="form-group">
+              <label>Mode:</label>
+              <div class="radio-group port-mode">
+                <label class="radio-option">
+                  <input type="radio" name="port-mode" value="in">
+                  <span>Input</span>
+                </label>
+                <label class="radio-option">
+                  <input type="radio" name="port-mode" value="out">
+                  <span>Output</span>
+                </label>
+              </div>
+            </div>
+            <div class="form-group">
+              <label>Side of the block:</label>
+              <div class="port-side-mount"></div>
+            </div>
+          </div>
+          <div class="machine-panel-footer">
+            <button data-cancel>Cancel</button>
+            <button data-save>Save</button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  protected setup() {
+    this.sideInput = new DirectionInput({ variant: 'outward' });
+    this.qs('.port-side-mount').appendChild(this.sideInput.el);
+  }
+
+  configure(machine: PortMachine) {
+    this.machine = machine;
+    this.qs<HTMLInputElement>(`.port-mode input[value="${machine.portMode}"]`).checked = true;
+    this.sideInput.setValue(machine.portSide);
+    this.show();
+    this.sideInput.focus();
+  }
+
+  protected save() {
+    if (this.machine) {
+      updateConfig(this.machine.x, this.machine.y, MachineType.PORT, {
+        portMode: this.qs<HTMLInputElement>('.port-mode input:checked').value as PortMode,
+        portSide: this.sideInput.getValue(),
+      });
+    }
+    this.hide();
+  }
+}
+
+customElements.define('bt-port-modal', PortModal);
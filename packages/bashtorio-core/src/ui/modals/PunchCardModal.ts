@@ -1,6 +1,8 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
-import type { PunchCardMachine } from '../../game/types';
+import { MachineType, type PunchCardMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
+import { EmitTimer } from '../../game/clock';
 import { BitInput } from '../components/BitInput';
 
 export class PunchCardModal extends BaseModal {
@@ -62,11 +64,12 @@ export class PunchCardModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.clock.interval = Math.max(50, parseInt(this.qs<HTMLInputElement>('.card-interval').value) || 500);
-      this.machine.gapTimer.interval = Math.max(0, parseInt(this.qs<HTMLInputElement>('.card-gap').value) || 0);
-      this.machine.loop = this.qs<HTMLInputElement>('.card-loop').checked;
-      this.machine.cardData = this.bitInput!.getBytes();
-      this.machine.cardPos = 0;
+      updateConfig(this.machine.x, this.machine.y, MachineType.PUNCHCARD, {
+        clock: new EmitTimer(Math.max(50, parseInt(this.qs<HTMLInputElement>('.card-interval').value) || 500)),
+        gapTimer: new EmitTimer(Math.max(0, parseInt(this.qs<HTMLInputElement>('.card-gap').value) || 0)),
+        loop: this.qs<HTMLInputElement>('.card-loop').checked,
+        cardData: this.bitInput!.getBytes(),
+      });
     }
     this.hide();
   }
@@ -1,7 +1,8 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
 import { ByteInput } from '../components/ByteInput';
-import type { ReplaceMachine } from '../../game/types';
+import { MachineType, type ReplaceMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
 
 export class ReplaceModal extends BaseModal {
   private machine: ReplaceMachine | null = null;
@@ -54,8 +55,10 @@ export class ReplaceModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.replaceFrom = this.fromInput.getValue() || 'a';
-      this.machine.replaceTo = this.toInput.getValue() || 'b';
+      updateConfig(this.machine.x, this.machine.y, MachineType.REPLACE, {
+        replaceFrom: this.fromInput.getValue() || 'a',
+        replaceTo: this.toInput.getValue() || 'b',
+      });
     }
     this.hide();
   }
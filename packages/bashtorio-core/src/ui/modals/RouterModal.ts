@@ -2,7 +2,10 @@ import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
 import { ByteInput } from '../components/ByteInput';
 import { DirectionInput } from '../components/DirectionInput';
-import type { RouterMachine } from '../../game/types';
+import { MachineType, type RouterMachine, type MatchMode } from '../../game/types';
+import { updateConfig } from '../../game/edit';
+import { MATCH_EXAMPLES, patternError } from '../../util/match';
+import { emitGameEvent } from '../../events/bus';
 
 export class RouterModal extends BaseModal {
   private machine: RouterMachine | null = null;
@@ -18,8 +21,29 @@ export class RouterModal extends BaseModal {
             <span class="machine-panel-title">Router</span>
           </div>
           <div class="machine-panel-body">
-            <p class="modal-description">Routes bytes by match: matching byte goes to one direction, everything else to another.</p>
+            <p class="modal-description">Routes packets by match: matching packets go to one direction, everything else to another.</p>
+            <div class="form-group">
+              <label>Match:</label>
+              <div class="radio-group router-match">
+                <label class="radio-option">
+                  <input type="radio" name="router-match" value="byte">
+                  <span>Byte: one exact byte</span>
+                </label>
+                <label class="radio-option">
+                  <input type="radio" name="router-match" value="set">
+                  <span>Set: packets made only of these bytes</span>
+                </label>
+                <label class="radio-option">
+                  <input type="radio" name="router-match" value="regex">
+                  <span>Regex: tested against the whole packet</span>
+                </label>
+              </div>
+            </div>
             <div class="form-group router-byte-input-mount"></div>
+            <div class="form-group router-pattern-field">
+              <label>Pattern:</label>
+              <input type="text" class="router-pattern" spellcheck="false">
+            </div>
             <div class="form-row">
               <div class="form-group">
                 <label>Match Direction:</label>
@@ -43,6 +67,7 @@ export class RouterModal extends BaseModal {
   protected setup() {
     this.byteInput = new ByteInput({ value: '\n' });
     this.qs('.router-byte-input-mount').appendChild(this.byteInput.el);
+    this.qs('.router-match').addEventListener('change', () => this.syncMatchControls());
 
     this.matchDirInput = new DirectionInput({ variant: 'outward' });
     this.qs('.router-match-dir-mount').appendChild(this.matchDirInput.el);
@@ -51,9 +76,20 @@ export class RouterModal extends BaseModal {
     this.qs('.router-else-dir-mount').appendChild(this.elseDirInput.el);
   }
 
+  /** Byte mode uses the byte picker, set and regex a typed pattern */
+  private syncMatchControls() {
+    const mode = this.qs<HTMLInputElement>('.router-match input:checked').value as MatchMode;
+    this.qs<HTMLElement>('.router-byte-input-mount').style.display = mode === 'byte' ? '' : 'none';
+    this.qs<HTMLElement>('.router-pattern-field').style.display = mode === 'byte' ? 'none' : '';
+    this.qs<HTMLInputElement>('.router-pattern').placeholder = MATCH_EXAMPLES[mode];
+  }
+
   configure(machine: RouterMachine) {
     this.machine = machine;
     this.byteInput.setValue(machine.routerByte);
+    this.qs<HTMLInputElement>(`.router-match input[value="${machine.routerMatch}"]`).checked = true;
+    this.qs<HTMLInputElement>('.router-pattern').value = machine.routerPattern;
+    this.syncMatchControls();
     this.matchDirInput.setValue(machine.routerMatchDir);
     this.elseDirInput.setValue(machine.routerElseDir);
     this.show();
@@ -62,9 +98,20 @@ export class RouterModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.routerByte = this.byteInput.getValue() || '\n';
-      this.machine.routerMatchDir = this.matchDirInput.getValue();
-      this.machine.routerElseDir = this.elseDirInput.getValue();
+      const match = this.qs<HTMLInputElement>('.router-match input:checked').value as MatchMode;
+      const pattern = this.qs<HTMLInputElement>('.router-pattern').value;
+      const error = patternError(match, pattern);
+      if (error) {
+        emitGameEvent('toast', { message: error });
+        return;
+      }
+      updateConfig(this.machine.x, this.machine.y, MachineType.ROUTER, {
+        routerByte: this.byteInput.getValue() || '\n',
+        routerMatch: match,
+        routerPattern: pattern,
+        routerMatchDir: this.matchDirInput.getValue(),
+        routerElseDir: this.elseDirInput.getValue(),
+      });
     }
     this.hide();
   }
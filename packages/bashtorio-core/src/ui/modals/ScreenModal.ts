@@ -1,6 +1,7 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
-import type { ScreenMachine, ScreenResolution } from '../../game/types';
+import { MachineType, type ScreenMachine, type ScreenResolution } from '../../game/types';
+import { updateConfig } from '../../game/edit';
 
 export class ScreenModal extends BaseModal {
   private machine: ScreenMachine | null = null;
@@ -52,9 +53,11 @@ export class ScreenModal extends BaseModal {
       const newRes = Number(this.qs<HTMLInputElement>('.screen-resolution input:checked').value) as ScreenResolution;
       if (newRes !== this.machine.resolution) {
         const bufSize = (newRes * newRes) / 8;
-        this.machine.resolution = newRes;
-        this.machine.buffer = new Uint8Array(bufSize);
-        this.machine.writePos = 0;
+        updateConfig(this.machine.x, this.machine.y, MachineType.SCREEN, {
+          resolution: newRes,
+          buffer: new Uint8Array(bufSize),
+          writePos: 0,
+        });
       }
     }
     this.hide();
@@ -5,6 +5,7 @@ import { applyRendererTheme, setPhotoTextures } from '../../render/renderer';
 import { loadSettings, saveSettings, type Settings } from '../../util/settings';
 import { setAmbientVolume, setMachineVolume } from '../../audio/SoundSystem';
 import { setToneVolume } from '../../audio/ToneEngine';
+import { setFixedTimestep } from '../../game/clock';
 
 export class SettingsModal extends BaseModal {
   private settings!: Settings;
@@ -22,6 +23,7 @@ export class SettingsModal extends BaseModal {
 
     // Apply initial photo textures setting
     setPhotoTextures(this.settings.photoTextures);
+    setFixedTimestep(this.settings.fixedTimestep);
 
     // Set initial values
     if (this.isConnected) {
@@ -37,6 +39,7 @@ export class SettingsModal extends BaseModal {
       this.qs<HTMLElement>('.tone-vol-value').textContent = Math.round(this.settings.toneVolume * 100) + '%';
       setToneVolume(this.settings.toneVolume);
       this.qs<HTMLInputElement>('.photo-textures-check').checked = this.settings.photoTextures;
+      this.qs<HTMLInputElement>('.fixed-timestep-check').checked = this.settings.fixedTimestep;
     }
   }
 
@@ -67,6 +70,12 @@ export class SettingsModal extends BaseModal {
             <span>Photo Textures (WIP)</span>
           </label>
         </div>
+        <div class="form-group">
+          <label class="machine-panel-check">
+            <input type="checkbox" class="fixed-timestep-check">
+            <span>Fixed Timestep (deterministic)</span>
+          </label>
+        </div>
         <div class="modal-buttons">
           <button class="ack-open-btn">Acknowledgements</button>
           <button data-cancel class="primary">Close</button>
@@ -120,6 +129,13 @@ export class SettingsModal extends BaseModal {
       this.settings.photoTextures = enabled;
       saveSettings(this.settings);
     });
+
+    this.qs<HTMLInputElement>('.fixed-timestep-check').addEventListener('change', () => {
+      const enabled = this.qs<HTMLInputElement>('.fixed-timestep-check').checked;
+      setFixedTimestep(enabled);
+      this.settings.fixedTimestep = enabled;
+      saveSettings(this.settings);
+    });
   }
 
   open() {
@@ -1,6 +1,7 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
-import type { SinkMachine } from '../../game/types';
+import { MachineType, type SinkMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
 import { emitGameEvent } from '../../events/bus';
 
 export class SinkModal extends BaseModal {
@@ -40,7 +41,7 @@ export class SinkModal extends BaseModal {
   protected save() {
     if (this.machine) {
       const newName = this.qs<HTMLInputElement>('.sink-name-input').value.trim() || `Sink ${this.machine.sinkId}`;
-      this.machine.name = newName;
+      updateConfig(this.machine.x, this.machine.y, MachineType.SINK, { name: newName });
       emitGameEvent('sinkRename', { machine: this.machine });
     }
     this.hide();
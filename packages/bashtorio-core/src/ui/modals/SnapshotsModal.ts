@@ -0,0 +1,151 @@
+import { html, render } from 'lit-html';
+import { BaseModal } from './BaseModal';
+import * as vm from '../../game/vm';
+import {
+  type VMSnapshotInfo,
+  listSnapshots, deleteSnapshot, getBootSnapshot, setBootSnapshot,
+} from '../../util/snapshots';
+import { formatBytes } from '../../util/format';
+import { emitGameEvent } from '../../events/bus';
+import { createLogger } from '../../util/logger';
+
+const log = createLogger('Snapshots');
+
+export class SnapshotsModal extends BaseModal {
+  private saving = false;
+
+  template() {
+    return html`
+      <div class="modal-content presets-modal-content snapshots-modal-content">
+        <h3>VM Snapshots</h3>
+        <p class="modal-description">
+          Save the running VM, with everything installed in it, to this browser. A later session can boot
+          from a snapshot instead of the stock image.
+        </p>
+        <div class="form-group snapshot-save">
+          <label>Save the running VM as:</label>
+          <div class="blueprint-row">
+            <input type="text" class="snapshot-name" placeholder="with python3 and jq">
+            <button class="snapshot-save-btn">Save</button>
+          </div>
+          <label class="snapshot-tie">
+            <input type="checkbox" class="snapshot-tie-factory" checked>
+            <span>Tie to this factory (saved with it, booted when it's loaded)</span>
+          </label>
+        </div>
+        <div class="presets-list snapshots-list"></div>
+        <div class="modal-buttons">
+          <button data-cancel>Close</button>
+          <button class="snapshot-stock-btn">Boot Stock Image Next</button>
+        </div>
+      </div>
+    `;
+  }
+
+  protected setup() {
+    this.qs('.snapshot-save-btn').addEventListener('click', () => this.saveSnapshot());
+    this.qs('.snapshot-stock-btn').addEventListener('click', () => {
+      setBootSnapshot(null);
+      emitGameEvent('toast', { message: 'The next session boots the stock image' });
+      this.renderList();
+    });
+
+    this.qs('.snapshots-list').addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const item = target.closest<HTMLElement>('.snapshot-item');
+      const name = item?.dataset.name;
+      if (!name) return;
+      switch (target.closest<HTMLElement>('[data-action]')?.dataset.action) {
+        case 'boot': this.bootNext(name); break;
+        case 'tie': this.tieToFactory(name); break;
+        case 'delete': this.deleteSnapshot(name); break;
+      }
+    });
+  }
+
+  open() {
+    this.renderList();
+    this.show();
+    this.qs<HTMLInputElement>('.snapshot-name').focus();
+  }
+
+  private async renderList() {
+    let list: VMSnapshotInfo[] = [];
+    try {
+      list = await listSnapshots();
+    } catch (e) {
+      log.error('Failed to list snapshots:', e);
+    }
+    const booted = vm.getBootedSnapshot();
+    const next = getBootSnapshot();
+    const factory = vm.getFactorySnapshot();
+    const tags = (name: string) => [
+      name === booted ? 'running' : '',
+      name === next ? 'boots next' : '',
+      name === factory ? 'this factory' : '',
+    ].filter(Boolean).join(', ');
+
+    render(list.length === 0
+      ? html`<div class="preset-description">No snapshots yet.</div>`
+      : html`${list.map(s => html`
+        <div class="preset-item snapshot-item" data-name=${s.name}>
+          <div class="preset-name">${s.name}${tags(s.name) ? html` <span class="snapshot-tags">(${tags(s.name)})</span>` : ''}</div>
+          <div class="preset-description">${formatBytes(s.size)} · ${new Date(s.createdAt).toLocaleString()}</div>
+          <div class="blueprint-actions">
+            <button data-action="boot">Boot Next</button>
+            <button data-action="tie">${s.name === factory ? 'Untie' : 'Tie to Factory'}</button>
+            <button data-action="delete">Delete</button>
+          </div>
+        </div>
+      `)}`, this.qs<HTMLElement>('.snapshots-list'));
+  }
+
+  private async saveSnapshot() {
+    if (this.saving) return;
+    const nameInput = this.qs<HTMLInputElement>('.snapshot-name');
+    const name = nameInput.value.trim();
+    if (!name) {
+      nameInput.focus();
+      return;
+    }
+    if ((await listSnapshots().catch(() => [])).some(s => s.name === name) && !confirm(`Replace snapshot "${name}"?`)) return;
+
+    this.saving = true;
+    emitGameEvent('toast', { message: 'Saving VM snapshot...' });
+    try {
+      const info = await vm.saveSnapshot(name);
+      if (this.qs<HTMLInputElement>('.snapshot-tie-factory').checked) vm.setFactorySnapshot(name);
+      nameInput.value = '';
+      emitGameEvent('toast', { message: `Saved snapshot "${name}" (${formatBytes(info.size)})` });
+    } catch (e) {
+      log.error('Failed to save snapshot:', e);
+      emitGameEvent('toast', { message: `Failed to save snapshot: ${e instanceof Error ? e.message : String(e)}` });
+    } finally {
+      this.saving = false;
+    }
+    this.renderList();
+  }
+
+  private bootNext(name: string) {
+    setBootSnapshot(name);
+    emitGameEvent('toast', { message: `Reload to boot snapshot "${name}"` });
+    this.renderList();
+  }
+
+  private tieToFactory(name: string) {
+    vm.setFactorySnapshot(vm.getFactorySnapshot() === name ? null : name);
+    this.renderList();
+  }
+
+  private async deleteSnapshot(name: string) {
+    if (!confirm(`Delete snapshot "${name}"?`)) return;
+    try {
+      await deleteSnapshot(name);
+    } catch (e) {
+      log.error('Failed to delete snapshot:', e);
+    }
+    this.renderList();
+  }
+}
+
+customElements.define('bt-snapshots-modal', SnapshotsModal);
@@ -1,6 +1,8 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
-import type { SourceMachine } from '../../game/types';
+import { MachineType, type SourceMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
+import { EmitTimer } from '../../game/clock';
 
 export class SourceModal extends BaseModal {
   private machine: SourceMachine | null = null;
@@ -87,10 +89,12 @@ export class SourceModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.sourceText = this.qs<HTMLTextAreaElement>('.source-text').value;
-      this.machine.clock.interval = Math.max(50, parseInt(this.qs<HTMLInputElement>('.source-interval').value) || 500);
-      this.machine.gapTimer.interval = Math.max(0, parseInt(this.qs<HTMLInputElement>('.source-gap').value) || 0);
-      this.machine.loop = this.qs<HTMLInputElement>('.source-loop').checked;
+      updateConfig(this.machine.x, this.machine.y, MachineType.SOURCE, {
+        sourceText: this.qs<HTMLTextAreaElement>('.source-text').value,
+        clock: new EmitTimer(Math.max(50, parseInt(this.qs<HTMLInputElement>('.source-interval').value) || 500)),
+        gapTimer: new EmitTimer(Math.max(0, parseInt(this.qs<HTMLInputElement>('.source-gap').value) || 0)),
+        loop: this.qs<HTMLInputElement>('.source-loop').checked,
+      });
     }
     this.hide();
   }
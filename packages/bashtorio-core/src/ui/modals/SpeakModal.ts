@@ -1,6 +1,7 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
-import type { SpeakMachine } from '../../game/types';
+import { MachineType, type SpeakMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
 import { ByteInput } from '../components/ByteInput';
 import { hasVoices } from '../../audio/SpeechEngine';
 
@@ -80,9 +81,11 @@ export class SpeakModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.speakRate = parseFloat(this.qs<HTMLInputElement>('.speak-rate').value);
-      this.machine.speakPitch = parseFloat(this.qs<HTMLInputElement>('.speak-pitch').value);
-      this.machine.speakDelimiter = this.delimiterInput.getValue();
+      updateConfig(this.machine.x, this.machine.y, MachineType.SPEAK, {
+        speakRate: parseFloat(this.qs<HTMLInputElement>('.speak-rate').value),
+        speakPitch: parseFloat(this.qs<HTMLInputElement>('.speak-pitch').value),
+        speakDelimiter: this.delimiterInput.getValue(),
+      });
     }
     this.hide();
   }
@@ -0,0 +1,106 @@
+import { html } from 'lit-html';
+import { BaseModal } from './BaseModal';
+import { MachineType, type SplitterMachine, type SplitterMode, type SplitterSide } from '../../game/types';
+import { updateConfig } from '../../game/edit';
+import { MATCH_EXAMPLES, patternError } from '../../util/match';
+import { emitGameEvent } from '../../events/bus';
+
+export class SplitterModal extends BaseModal {
+  private machine: SplitterMachine | null = null;
+
+  template() {
+    return html`
+      <div class="modal-content machine-panel-wrap">
+        <div class="machine-panel">
+          <div class="machine-panel-header">
+            <span class="machine-panel-title">Splitter</span>
+          </div>
+          <div class="machine-panel-body">
+            <p class="modal-description">Splits one flow between two outputs.</p>
+            <div class="form-group">
+              <label>Mode:</label>
+              <div class="radio-group splitter-mode">
+                <label class="radio-option">
+                  <input type="radio" name="splitter-mode" value="round-robin">
+                  <span>Round-robin: alternate sides</span>
+                </label>
+                <label class="radio-option">
+                  <input type="radio" name="splitter-mode" value="input-priority">
+                  <span>Input priority: the preferred side's input lane goes first</span>
+                </label>
+                <label class="radio-option">
+                  <input type="radio" name="splitter-mode" value="output-priority">
+                  <span>Output priority: the other side only takes overflow</span>
+                </label>
+                <label class="radio-option">
+                  <input type="radio" name="splitter-mode" value="set">
+                  <span>Set: packets made only of these bytes to the preferred side, everything else to the other</span>
+                </label>
+              </div>
+            </div>
+            <div class="form-group splitter-set-field">
+              <label>Byte set:</label>
+              <input type="text" class="splitter-set" spellcheck="false" placeholder=${MATCH_EXAMPLES.set}>
+            </div>
+            <div class="form-group">
+              <label>Preferred Side (looking along the splitter):</label>
+              <div class="radio-group splitter-side">
+                <label class="radio-option">
+                  <input type="radio" name="splitter-side" value="left">
+                  <span>Left</span>
+                </label>
+                <label class="radio-option">
+                  <input type="radio" name="splitter-side" value="right">
+                  <span>Right</span>
+                </label>
+              </div>
+            </div>
+          </div>
+          <div class="machine-panel-footer">
+            <button data-cancel>Cancel</button>
+            <button data-save>Save</button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  protected setup() {
+    this.qs('.splitter-mode').addEventListener('change', () => this.syncSetField());
+  }
+
+  /** The byte set only matters in set mode */
+  private syncSetField() {
+    const mode = this.qs<HTMLInputElement>('.splitter-mode input:checked').value as SplitterMode;
+    this.qs<HTMLElement>('.splitter-set-field').style.display = mode === 'set' ? '' : 'none';
+  }
+
+  configure(machine: SplitterMachine) {
+    this.machine = machine;
+    this.qs<HTMLInputElement>(`.splitter-mode input[value="${machine.splitterMode}"]`).checked = true;
+    this.qs<HTMLInputElement>(`.splitter-side input[value="${machine.splitterSide}"]`).checked = true;
+    this.qs<HTMLInputElement>('.splitter-set').value = machine.splitterSet;
+    this.syncSetField();
+    this.show();
+  }
+
+  protected save() {
+    if (this.machine) {
+      const mode = this.qs<HTMLInputElement>('.splitter-mode input:checked').value as SplitterMode;
+      const set = this.qs<HTMLInputElement>('.splitter-set').value;
+      const error = mode === 'set' ? patternError('set', set) : null;
+      if (error) {
+        emitGameEvent('toast', { message: error });
+        return;
+      }
+      updateConfig(this.machine.x, this.machine.y, MachineType.SPLITTER, {
+        splitterMode: mode,
+        splitterSide: this.qs<HTMLInputElement>('.splitter-side input:checked').value as SplitterSide,
+        splitterSet: set,
+      });
+    }
+    this.hide();
+  }
+}
+
+customElements.define('bt-splitter-modal', SplitterModal);
@@ -1,6 +1,7 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
-import type { ToneMachine } from '../../game/types';
+import { MachineType, type ToneMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
 
 export class ToneModal extends BaseModal {
   private machine: ToneMachine | null = null;
@@ -74,8 +75,10 @@ export class ToneModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.waveform = this.qs<HTMLInputElement>('.tone-waveform input:checked').value as OscillatorType;
-      this.machine.dutyCycle = parseFloat(this.qs<HTMLInputElement>('.tone-duty input:checked').value);
+      updateConfig(this.machine.x, this.machine.y, MachineType.TONE, {
+        waveform: this.qs<HTMLInputElement>('.tone-waveform input:checked').value as OscillatorType,
+        dutyCycle: parseFloat(this.qs<HTMLInputElement>('.tone-duty input:checked').value),
+      });
     }
     this.hide();
   }
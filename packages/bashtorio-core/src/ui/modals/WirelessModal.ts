@@ -1,6 +1,7 @@
 import { html } from 'lit-html';
 import { BaseModal } from './BaseModal';
-import type { WirelessMachine } from '../../game/types';
+import { MachineType, type WirelessMachine } from '../../game/types';
+import { updateConfig } from '../../game/edit';
 
 const CHANNELS = [
   { value: 0, label: '0', color: '#ff4444' },
@@ -69,7 +70,9 @@ export class WirelessModal extends BaseModal {
 
   protected save() {
     if (this.machine) {
-      this.machine.wirelessChannel = this.selected;
+      updateConfig(this.machine.x, this.machine.y, MachineType.WIRELESS, {
+        wirelessChannel: this.selected,
+      });
     }
     this.hide();
   }
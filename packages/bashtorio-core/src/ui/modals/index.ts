@@ -8,6 +8,8 @@ import './FilterModal';
 import './CounterModal';
 import './PackerModal';
 import './RouterModal';
+import './SplitterModal';
+import './MergerModal';
 import './ClockModal';
 import './ReplaceModal';
 import './GateModal';
@@ -24,14 +26,21 @@ import './ScreenModal';
 import './ByteModal';
 import './PunchCardModal';
 import './ButtonModal';
+import './FileSourceModal';
+import './FileSinkModal';
+import './PortModal';
 import './HelpModal';
 import './ManualModal';
 import './AcknowledgementsModal';
 import './PresetsModal';
+import './BlueprintsModal';
+import './SnapshotsModal';
 import './NetworkModal';
+import './PackagesModal';
 import './SettingsModal';
 
 import { MachineType, type Machine } from '../../game/types';
+import type { Fragment } from '../../util/fragment';
 import { emitGameEvent, onGameEvent } from '../../events/bus';
 import type { LinefeedModal } from './LinefeedModal';
 import type { FlipperModal } from './FlipperModal';
@@ -42,6 +51,8 @@ import type { FilterModal } from './FilterModal';
 import type { CounterModal } from './CounterModal';
 import type { PackerModal } from './PackerModal';
 import type { RouterModal } from './RouterModal';
+import type { SplitterModal } from './SplitterModal';
+import type { MergerModal } from './MergerModal';
 import type { ClockModal } from './ClockModal';
 import type { ReplaceModal } from './ReplaceModal';
 import type { GateModal } from './GateModal';
@@ -58,16 +69,25 @@ import type { ScreenModal } from './ScreenModal';
 import type { ByteModal } from './ByteModal';
 import type { PunchCardModal } from './PunchCardModal';
 import type { ButtonModal } from './ButtonModal';
+import type { FileSourceModal } from './FileSourceModal';
+import type { FileSinkModal } from './FileSinkModal';
+import type { PortModal } from './PortModal';
 import type { HelpModal } from './HelpModal';
 import type { ManualModal } from './ManualModal';
 import type { AcknowledgementsModal } from './AcknowledgementsModal';
 import type { PresetsModal } from './PresetsModal';
+import type { BlueprintsModal } from './BlueprintsModal';
+import type { SnapshotsModal } from './SnapshotsModal';
 import type { NetworkModal } from './NetworkModal';
+import type { PackagesModal } from './PackagesModal';
 import type { SettingsModal } from './SettingsModal';
 
 export interface ModalHandles {
   openNetwork: () => void;
+  openPackages: () => void;
   openPresets: () => void;
+  openBlueprints: (selection: Fragment | null) => void;
+  openSnapshots: () => void;
   openSettings: () => void;
   openHelp: () => void;
   openManual: () => void;
@@ -91,6 +111,8 @@ export function setupModals(
   const delayModal = container.querySelector('bt-delay-modal') as DelayModal;
   const packerModal = container.querySelector('bt-packer-modal') as PackerModal;
   const routerModal = container.querySelector('bt-router-modal') as RouterModal;
+  const splitterModal = container.querySelector('bt-splitter-modal') as SplitterModal;
+  const mergerModal = container.querySelector('bt-merger-modal') as MergerModal;
   const gateModal = container.querySelector('bt-gate-modal') as GateModal;
   const wirelessModal = container.querySelector('bt-wireless-modal') as WirelessModal;
   const replaceModal = container.querySelector('bt-replace-modal') as ReplaceModal;
@@ -105,9 +127,15 @@ export function setupModals(
   const byteModal = container.querySelector('bt-byte-modal') as ByteModal;
   const punchCardModal = container.querySelector('bt-punchcard-modal') as PunchCardModal;
   const buttonModal = container.querySelector('bt-button-modal') as ButtonModal;
+  const fileSourceModal = container.querySelector('bt-filesource-modal') as FileSourceModal;
+  const fileSinkModal = container.querySelector('bt-filesink-modal') as FileSinkModal;
+  const portModal = container.querySelector('bt-port-modal') as PortModal;
   const sinkModal = container.querySelector('bt-sink-modal') as SinkModal;
   const networkModal = container.querySelector('bt-network-modal') as NetworkModal;
+  const packagesModal = container.querySelector('bt-packages-modal') as PackagesModal;
   const presetsModal = container.querySelector('bt-presets-modal') as PresetsModal;
+  const blueprintsModal = container.querySelector('bt-blueprints-modal') as BlueprintsModal;
+  const snapshotsModal = container.querySelector('bt-snapshots-modal') as SnapshotsModal;
   const settingsModal = container.querySelector('bt-settings-modal') as SettingsModal;
   const helpModal = container.querySelector('bt-help-modal') as HelpModal;
   const manualModal = container.querySelector('bt-manual-modal') as ManualModal;
@@ -155,6 +183,12 @@ export function setupModals(
       case MachineType.ROUTER:
         routerModal.configure(machine);
         break;
+      case MachineType.SPLITTER:
+        splitterModal.configure(machine);
+        break;
+      case MachineType.MERGER:
+        mergerModal.configure(machine);
+        break;
       case MachineType.GATE:
         gateModal.configure(machine);
         break;
@@ -200,12 +234,24 @@ export function setupModals(
       case MachineType.BUTTON:
         buttonModal.configure(machine);
         break;
+      case MachineType.FILESOURCE:
+        fileSourceModal.configure(machine);
+        break;
+      case MachineType.FILESINK:
+        fileSinkModal.configure(machine);
+        break;
+      case MachineType.PORT:
+        portModal.configure(machine);
+        break;
     }
   }
 
   return {
     openNetwork: () => networkModal.open(),
+    openPackages: () => packagesModal.open(),
     openPresets: () => presetsModal.open(),
+    openBlueprints: (selection) => blueprintsModal.open(selection),
+    openSnapshots: () => snapshotsModal.open(),
     openSettings: () => settingsModal.open(),
     openHelp: () => helpModal.open(),
     openManual: () => manualModal.open(),
@@ -1,6 +1,7 @@
 import { html, render } from 'lit-html';
 import { emitGameEvent, onGameEvent } from '../events/bus';
 import type { PlaceableType } from '../game/types';
+import { compositeIdOf, getCompositeDef } from '../game/composites';
 
 export interface PlaceableItem { id: PlaceableType; icon: string; label: string; key: string }
 export interface PlaceableColumn { label: string; items: PlaceableItem[] }
@@ -8,12 +9,18 @@ export interface PlaceableColumn { label: string; items: PlaceableItem[] }
 export const PLACEABLE_COLUMNS: PlaceableColumn[] = [
   { label: 'Route', items: [
     { id: 'belt', icon: '➡️', label: 'Belt', key: 'Q' },
+    { id: 'slowbelt', icon: '🐢', label: 'Slow', key: '' },
+    { id: 'expressbelt', icon: '⏩', label: 'Fast', key: '' },
+    { id: 'underground', icon: '🚇', label: 'Tunnel', key: '' },
+    { id: 'crossing', icon: '✚', label: 'Cross', key: '' },
     { id: 'splitter', icon: '⑂', label: 'Split', key: 'W' },
+    { id: 'merger', icon: '⤵️', label: 'Merge', key: '' },
     { id: 'flipper', icon: '🔀', label: 'Flip', key: 'V' },
     { id: 'duplicator', icon: '📋', label: 'Dup', key: 'D' },
     { id: 'router', icon: '🔀', label: 'Route', key: 'H' },
     { id: 'gate', icon: '🚧', label: 'Gate', key: 'I' },
     { id: 'wireless', icon: '📡', label: 'Radio', key: 'J' },
+    { id: 'port', icon: '🔌', label: 'Port', key: '' },
 
   ]},
   { label: 'Source', items: [
@@ -25,6 +32,7 @@ export const PLACEABLE_COLUMNS: PlaceableColumn[] = [
     { id: 'byte', icon: '🔢', label: 'Byte', key: '' },
     { id: 'punchcard', icon: '🎴', label: 'Card', key: 'T' },
     { id: 'button', icon: '🔘', label: 'Btn', key: '' },
+    { id: 'filesource', icon: '📄', label: 'File', key: '' },
   ]},
   { label: 'Process', items: [
     { id: 'command', icon: '🖥️', label: 'Shell', key: 'F' },
@@ -45,6 +53,7 @@ export const PLACEABLE_COLUMNS: PlaceableColumn[] = [
     { id: 'null', icon: '🕳️', label: 'Null', key: 'X' },
     { id: 'sevenseg', icon: '🔢', label: '7Seg', key: 'Z' },
     { id: 'screen', icon: '🖥️', label: 'Screen', key: '' },
+    { id: 'filesink', icon: '💾', label: 'File', key: '' },
   ]},
   { label: 'Audio', items: [
     { id: 'drum', icon: '🥁', label: 'Drum', key: 'E' },
@@ -145,8 +154,11 @@ export class PlaceableButton extends HTMLElement {
       (btn as HTMLElement).classList.toggle('active', (btn as HTMLElement).dataset.placeable === placeable);
     });
     const activeBtn = this.querySelector(`.placeable-btn[data-placeable="${placeable}"]`);
-    const icon = activeBtn?.querySelector('.tool-icon')?.textContent || '';
-    const label = activeBtn?.querySelector('.tool-label')?.textContent || 'Place';
+    // Subfactories live in the machine picker only
+    const compositeId = compositeIdOf(placeable);
+    const composite = compositeId !== null ? getCompositeDef(compositeId) : undefined;
+    const icon = activeBtn?.querySelector('.tool-icon')?.textContent || (composite ? '🧩' : '');
+    const label = activeBtn?.querySelector('.tool-label')?.textContent || composite?.label || 'Place';
     if (this.placeIcon) this.placeIcon.textContent = icon;
     if (this.placeLabel) this.placeLabel.textContent = label;
   }
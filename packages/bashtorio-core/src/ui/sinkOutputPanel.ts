@@ -1,6 +1,7 @@
 import { html, render, type TemplateResult } from 'lit-html';
 import { onGameEvent } from '../events/bus';
 import { ansiToHtml } from '../util/ansi';
+import { binaryToUtf8 } from '../util/bytes';
 import { MachineType } from '../game/types';
 
 export class SinkOutputPanel extends HTMLElement {
@@ -59,12 +60,12 @@ export class SinkOutputPanel extends HTMLElement {
     return el;
   }
 
-  /** Append output content to a sink, rendering ANSI codes. */
+  /** Append output bytes to a sink, rendering them as UTF-8 with ANSI codes. */
   appendOutput(sinkId: number, content: string, name?: string): void {
     const el = this.getOrCreate(sinkId, name);
     const raw = (el.dataset.raw || '') + content;
     el.dataset.raw = raw;
-    el.innerHTML = ansiToHtml(raw);
+    el.innerHTML = ansiToHtml(binaryToUtf8(raw));
     el.scrollTop = el.scrollHeight;
   }
 
@@ -39,6 +39,8 @@ export class Toolbar {
           <button class="action-btn save-btn">💾 Save</button>
           <button class="action-btn load-btn">📂 Load</button>
           <button class="action-btn presets-btn">📚 Presets</button>
+          <button class="action-btn blueprints-btn">📐 Blueprints</button>
+          <button class="action-btn snapshots-btn">🖴 VM Snapshots</button>
         </div>
       </div>
       <bt-event-button event="requestCopyLink" btn-class="action-btn" title="Copy factory link" label="🔗"></bt-event-button>
@@ -48,6 +50,7 @@ export class Toolbar {
       <div class="systembar-spacer"></div>
       <bt-vm-status></bt-vm-status>
       <bt-fs-cache></bt-fs-cache>
+      <bt-event-button event="openPackages" btn-class="action-btn" title="Packages" label="📦"></bt-event-button>
       <bt-event-button event="openNetwork" btn-class="action-btn" label="🌐"></bt-event-button>
       <button class="action-btn mute-btn" title="Toggle Sound">${isMuted() ? '🔇' : '🔊'}</button>
     `, systembar);
@@ -170,7 +173,7 @@ export class Toolbar {
       }
     });
 
-    // Save/Load/Presets buttons
+    // Save/Load/Presets/Blueprints/Snapshots buttons
     systembar.querySelector('.save-btn')?.addEventListener('click', () => {
       this.storagePopout.style.display = 'none';
       emitGameEvent('requestSave');
@@ -183,6 +186,14 @@ export class Toolbar {
       this.storagePopout.style.display = 'none';
       emitGameEvent('openPresets');
     });
+    systembar.querySelector('.blueprints-btn')?.addEventListener('click', () => {
+      this.storagePopout.style.display = 'none';
+      emitGameEvent('openBlueprints');
+    });
+    systembar.querySelector('.snapshots-btn')?.addEventListener('click', () => {
+      this.storagePopout.style.display = 'none';
+      emitGameEvent('openSnapshots');
+    });
 
     // Close storage popout on outside click
     document.addEventListener('click', (e) => {
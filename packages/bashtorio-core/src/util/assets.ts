@@ -4,6 +4,8 @@ export interface AssetOverrides {
   soundsUrl?: string
   spritesUrl?: string
   rootfsBaseUrl?: string
+  /** Local Alpine package repository (`<arch>/APKINDEX.tar.gz` plus `.apk` files) */
+  packagesUrl?: string
 }
 
 // ── Module-level state ────────────────────────────────────────────
@@ -12,6 +14,7 @@ let _vmBase = ''
 let _soundsBase = ''
 let _spritesBase = ''
 let _rootfsBase = ''
+let _packagesBase = ''
 
 // ── Init ──────────────────────────────────────────────────────────
 
@@ -24,6 +27,7 @@ export function initAssets(vmAssetsUrl: string, overrides?: AssetOverrides): voi
   _soundsBase = stripTrailingSlash(overrides?.soundsUrl ?? `${_vmBase}/sounds`)
   _spritesBase = stripTrailingSlash(overrides?.spritesUrl ?? `${_vmBase}/sprites`)
   _rootfsBase = stripTrailingSlash(overrides?.rootfsBaseUrl ?? `${_vmBase}/alpine-rootfs-flat`)
+  _packagesBase = stripTrailingSlash(overrides?.packagesUrl ?? `${_vmBase}/alpine-packages`)
 }
 
 // ── Base getters ──────────────────────────────────────────────────
@@ -32,6 +36,7 @@ export function vmBase(): string { return _vmBase }
 export function soundsBase(): string { return _soundsBase }
 export function spritesBase(): string { return _spritesBase }
 export function rootfsBase(): string { return _rootfsBase }
+export function packagesBase(): string { return _packagesBase }
 
 // ── Convenience resolvers ─────────────────────────────────────────
 
@@ -51,6 +56,10 @@ export function rootfsAsset(chunkPath: string): string {
   return `${_rootfsBase}/${chunkPath}`
 }
 
+export function packageAsset(repoPath: string): string {
+  return `${_packagesBase}/${repoPath}`
+}
+
 /** Absolute URLs pass through unchanged; relative filenames resolve against vmBase. */
 export function resolveUrl(urlOrFilename: string): string {
   if (urlOrFilename.startsWith('http://') || urlOrFilename.startsWith('https://') || urlOrFilename.startsWith('/')) {
@@ -0,0 +1,127 @@
+import type { Fragment } from './fragment';
+import { encodeCompressed, decodeCompressed, encodeLegacyBytes } from './saveload';
+import { createLogger } from './logger';
+
+const log = createLogger('Blueprints');
+
+const STORAGE_KEY = 'bashtorio_blueprints';
+const BLUEPRINT_VERSION = 2;
+
+/**
+ * A named, reusable factory fragment. This is also the standalone export
+ * format, so a blueprint file can be shared without the rest of a factory.
+ */
+export interface Blueprint {
+  version: number;
+  name: string;
+  description?: string;
+  fragment: Fragment;
+}
+
+export function createBlueprint(name: string, fragment: Fragment, description?: string): Blueprint {
+  return { version: BLUEPRINT_VERSION, name, description, fragment };
+}
+
+function isBlueprint(value: unknown): value is Blueprint {
+  if (!value || typeof value !== 'object') return false;
+  const bp = value as Partial<Blueprint>;
+  const f = bp.fragment;
+  return typeof bp.name === 'string'
+    && !!f
+    && typeof f.width === 'number'
+    && typeof f.height === 'number'
+    && Array.isArray(f.cells)
+    && Array.isArray(f.machines);
+}
+
+/** Bring a blueprint from an older version up to the current format */
+function upgradeBlueprint(bp: Blueprint): Blueprint {
+  const version = bp.version ?? BLUEPRINT_VERSION;
+  if (version >= BLUEPRINT_VERSION) return { ...bp, version };
+  // v1 kept byte config as typed characters rather than UTF-8 bytes
+  return {
+    ...bp,
+    version: BLUEPRINT_VERSION,
+    fragment: { ...bp.fragment, machines: bp.fragment.machines.map(encodeLegacyBytes) },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Library (localStorage)
+// ---------------------------------------------------------------------------
+
+export function loadBlueprints(): Blueprint[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) return parsed.filter(isBlueprint).map(upgradeBlueprint);
+    }
+  } catch {
+    // Ignore corrupt or unavailable storage
+  }
+  return [];
+}
+
+function saveBlueprints(list: Blueprint[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+  } catch (e) {
+    log.error('Failed to store blueprints:', e);
+  }
+}
+
+/** Add a blueprint to the library, replacing any existing one with the same name. */
+export function addBlueprint(bp: Blueprint): void {
+  const list = loadBlueprints().filter(b => b.name !== bp.name);
+  list.push(bp);
+  list.sort((a, b) => a.name.localeCompare(b.name));
+  saveBlueprints(list);
+}
+
+export function removeBlueprint(name: string): void {
+  saveBlueprints(loadBlueprints().filter(b => b.name !== name));
+}
+
+// ---------------------------------------------------------------------------
+// Import / export
+// ---------------------------------------------------------------------------
+
+export function blueprintToJSON(bp: Blueprint): string {
+  return JSON.stringify(bp, null, 2);
+}
+
+/** Compressed base64url form, using the same encoding as factory links. */
+export function blueprintToBase64(bp: Blueprint): Promise<string> {
+  return encodeCompressed(bp);
+}
+
+/**
+ * Parse a blueprint from either its JSON or its base64 form.
+ * Throws if the text is neither.
+ */
+export async function parseBlueprint(text: string): Promise<Blueprint> {
+  const trimmed = text.trim();
+  let value: unknown;
+  try {
+    value = trimmed.startsWith('{')
+      ? JSON.parse(trimmed)
+      : await decodeCompressed<unknown>(trimmed);
+  } catch {
+    throw new Error('Not a valid blueprint (expected JSON or a base64 string)');
+  }
+  if (!isBlueprint(value)) throw new Error('Not a valid blueprint');
+  return upgradeBlueprint(value);
+}
+
+export function downloadBlueprint(bp: Blueprint): void {
+  const blob = new Blob([blueprintToJSON(bp)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${bp.name.replace(/[^\w.-]+/g, '_') || 'blueprint'}.blueprint.json`;
+  a.click();
+
+  URL.revokeObjectURL(url);
+}
@@ -45,3 +45,37 @@ export function charDisplay(char: string): string {
 	if (code === 127) return 'DEL';
 	return char;
 }
+
+// ---------------------------------------------------------------------------
+// Binary strings: packet content is a string with one byte (0–255) per char.
+// Text typed by the user is UTF-8 encoded on the way in and decoded again
+// only where it is shown or spoken.
+// ---------------------------------------------------------------------------
+
+const ASCII_ONLY = /^[\x00-\x7f]*$/;
+
+export function bytesToBinary(bytes: Uint8Array): string {
+	let out = '';
+	// Chunked so large reads stay under the argument limit of fromCharCode
+	for (let i = 0; i < bytes.length; i += 8192) {
+		out += String.fromCharCode(...bytes.subarray(i, i + 8192));
+	}
+	return out;
+}
+
+export function binaryToBytes(bin: string): Uint8Array {
+	const bytes = new Uint8Array(bin.length);
+	for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i) & 0xFF;
+	return bytes;
+}
+
+export function utf8ToBinary(text: string): string {
+	if (ASCII_ONLY.test(text)) return text;
+	return bytesToBinary(new TextEncoder().encode(text));
+}
+
+/** Decode for display; invalid sequences become U+FFFD. */
+export function binaryToUtf8(bin: string): string {
+	if (ASCII_ONLY.test(bin)) return bin;
+	return new TextDecoder().decode(binaryToBytes(bin));
+}
@@ -0,0 +1,133 @@
+import { MachineType, type SinkMachine } from '../game/types';
+import { createInitialState } from '../game/state';
+import { machines } from '../game/machines';
+import { resetClock, FIXED_STEP_MS } from '../game/clock';
+import { startSimulation, stopSimulation, stepSimulation } from '../game/simulation';
+import { setShellHost } from '../game/vm';
+import type { ShellHost } from '../vm/shell';
+import { onGameEvent } from '../events/bus';
+import { deserializeState, type SaveData } from './saveload';
+import { binaryToUtf8, utf8ToBinary } from './bytes';
+
+/** What one sink should have received by the end of a test */
+export type SinkExpectation =
+  /** The whole output, byte for byte once `exact` is UTF-8 encoded */
+  | { exact: string }
+  /** A pattern the whole output must match (anchor it yourself) */
+  | { regex: string; flags?: string }
+  /** These lines in any order, and no others */
+  | { lines: string[] };
+
+/**
+ * A factory plus what its sinks should produce. Plain JSON, so tests can
+ * live next to the saves they exercise.
+ */
+export interface FactoryTest {
+  name: string;
+  save: SaveData;
+  /** Expected output keyed by sink name */
+  expect: Record<string, SinkExpectation>;
+  /** Simulated time before the test fails (ms) */
+  timeoutMs: number;
+}
+
+export interface SinkResult {
+  sink: string;
+  passed: boolean;
+  /** Received bytes, decoded as UTF-8 */
+  actual: string;
+  /** Why the sink failed, when it did */
+  reason?: string;
+}
+
+export interface FactoryTestResult {
+  name: string;
+  passed: boolean;
+  /** Simulated time the run took, up to the timeout */
+  elapsedMs: number;
+  sinks: SinkResult[];
+}
+
+export interface FactoryTestOptions {
+  /** Stand-in for the VM while the test runs; commands stay idle without one unless the VM is up */
+  shellHost?: ShellHost;
+  /** Pace steps against the wall clock, for the real VM whose shells answer in real time */
+  realtime?: boolean;
+  stepMs?: number;
+}
+
+function checkSink(sink: string, expectation: SinkExpectation, received: string): SinkResult {
+  const actual = binaryToUtf8(received);
+  if ('exact' in expectation) {
+    return received === utf8ToBinary(expectation.exact)
+      ? { sink, passed: true, actual }
+      : { sink, passed: false, actual, reason: `expected ${JSON.stringify(expectation.exact)}` };
+  }
+  if ('regex' in expectation) {
+    return new RegExp(expectation.regex, expectation.flags).test(actual)
+      ? { sink, passed: true, actual }
+      : { sink, passed: false, actual, reason: `expected to match /${expectation.regex}/${expectation.flags ?? ''}` };
+  }
+  const got = actual.split('\n');
+  if (got[got.length - 1] === '') got.pop();
+  const want = [...expectation.lines].sort();
+  got.sort();
+  const same = got.length === want.length && got.every((line, i) => line === want[i]);
+  return same
+    ? { sink, passed: true, actual }
+    : { sink, passed: false, actual, reason: `expected lines ${JSON.stringify(expectation.lines)} in any order` };
+}
+
+const nextTask = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Load the test's factory, run it in fixed steps and compare what reaches
+ * each named sink. Passes as soon as every sink matches; fails at the timeout.
+ *
+ * Loading replaces whatever is on the grid, the same as opening a save.
+ * Between steps the runner yields to the event loop so shell reads resolve.
+ */
+export async function runFactoryTest(test: FactoryTest, options: FactoryTestOptions = {}): Promise<FactoryTestResult> {
+  const stepMs = options.stepMs ?? FIXED_STEP_MS;
+  const state = createInitialState();
+  const prevHost = options.shellHost ? setShellHost(options.shellHost) : null;
+
+  deserializeState(state, test.save);
+
+  // Only top-level sinks count; a composite's inner sinks may reuse names
+  const sinks = new Set(machines.filter((m): m is SinkMachine => m.type === MachineType.SINK));
+  const output = new Map<string, string>();
+  const off = onGameEvent('sinkOutput', ({ sink, content }) => {
+    if (sinks.has(sink)) output.set(sink.name, (output.get(sink.name) ?? '') + content);
+  });
+
+  const names = Object.keys(test.expect);
+  const missing = names.filter(name => ![...sinks].some(s => s.name === name));
+  const check = () => names.map(name => missing.includes(name)
+    ? { sink: name, passed: false, actual: '', reason: 'no sink with this name' }
+    : checkSink(name, test.expect[name], output.get(name) ?? ''));
+
+  // A Shell machine set to stop on failure ends the run early
+  let stopped = false;
+  const offStop = onGameEvent('endSimulation', () => { stopped = true; });
+
+  let elapsedMs = 0;
+  let results = check();
+  try {
+    resetClock(0);
+    await startSimulation(state);
+    while (missing.length === 0 && !stopped && elapsedMs < test.timeoutMs && !results.every(r => r.passed)) {
+      stepSimulation(state, stepMs);
+      elapsedMs += stepMs;
+      await nextTask(options.realtime ? stepMs : 0);
+      results = check();
+    }
+  } finally {
+    stopSimulation(state);
+    off();
+    offStop();
+    if (options.shellHost) setShellHost(prevHost);
+  }
+
+  return { name: test.name, passed: results.every(r => r.passed), elapsedMs, sinks: results };
+}
@@ -0,0 +1,214 @@
+import { CellType, MachineType, Direction, type GridRect, type Machine } from '../game/types';
+import { forEachNonEmpty, getBeltDir, getBeltTier, getBeltKind, getCellType } from '../game/grid';
+import { getMachineAt, getSplitterSecondary, placeBelt, placeCrossing, clearCell, insertMachine, shiftMachines } from '../game/edit';
+import { beginGesture, endGesture } from '../game/history';
+import { machines, nextSinkId } from '../game/machines';
+import { usedCompositeDefs, adoptCompositeDefs, type CompositeDef } from '../game/composites';
+import { emitGameEvent } from '../events/bus';
+import { serializeMachine, deserializeMachine, beltCell, cellTier, cellKind, type SerializedCellV2, type SerializedMachine } from './saveload';
+
+/**
+ * A rectangular piece of a factory, detached from the grid. Uses the same
+ * cell and machine records as SaveData, with coordinates relative to the
+ * fragment's top-left corner. Belts and crossings live in `cells`; machines carry their
+ * own position.
+ */
+export interface Fragment {
+  width: number;
+  height: number;
+  cells: SerializedCellV2[];
+  machines: SerializedMachine[];
+  composites?: CompositeDef[];  // definitions the fragment's composites run, so it can be pasted anywhere
+}
+
+/** Machine config fields holding a Direction, turned along with the fragment */
+const DIRECTION_FIELDS = [
+  'flipperDir', 'packerDir', 'splitterDir',
+  'routerMatchDir', 'routerElseDir',
+  'gateDataDir', 'gateControlDir',
+  'latchDataDir', 'latchControlDir',
+  'mergerPriorityDir',
+  'portSide', 'stderrDir',
+] as const satisfies readonly (keyof SerializedMachine)[];
+
+export function rectContains(rect: GridRect, x: number, y: number): boolean {
+  return x >= rect.minX && x <= rect.maxX && y >= rect.minY && y <= rect.maxY;
+}
+
+/** Normalize two corner cells into a rectangle. */
+export function rectFromCorners(x0: number, y0: number, x1: number, y1: number): GridRect {
+  return {
+    minX: Math.min(x0, x1), minY: Math.min(y0, y1),
+    maxX: Math.max(x0, x1), maxY: Math.max(y0, y1),
+  };
+}
+
+/** Machines with every cell inside `rect` (a splitter half-outside is left alone). */
+function machinesInRect(rect: GridRect): Machine[] {
+  return machines.filter(m => {
+    if (!rectContains(rect, m.x, m.y)) return false;
+    if (m.type !== MachineType.SPLITTER) return true;
+    const sec = getSplitterSecondary(m);
+    return rectContains(rect, sec.x, sec.y);
+  });
+}
+
+/** Copy the belts, crossings and machines inside `rect`. Returns null if the region is empty. */
+export function copyRegion(rect: GridRect): Fragment | null {
+  const cells: SerializedCellV2[] = [];
+  forEachNonEmpty((x, y, cellType) => {
+    if (!rectContains(rect, x, y)) return;
+    if (cellType === CellType.BELT) {
+      cells.push(beltCell(x - rect.minX, y - rect.minY, getBeltDir(x, y), getBeltTier(x, y), getBeltKind(x, y)));
+    } else if (cellType === CellType.CROSSING) {
+      cells.push({ x: x - rect.minX, y: y - rect.minY, type: 'crossing' });
+    }
+  });
+
+  const serialized = machinesInRect(rect).map(m => {
+    const sm = serializeMachine(m);
+    sm.x -= rect.minX;
+    sm.y -= rect.minY;
+    return sm;
+  });
+
+  if (cells.length === 0 && serialized.length === 0) return null;
+  const fragment: Fragment = {
+    width: rect.maxX - rect.minX + 1,
+    height: rect.maxY - rect.minY + 1,
+    cells,
+    machines: serialized,
+  };
+  const composites = usedCompositeDefs(fragment);
+  if (composites.length > 0) fragment.composites = composites;
+  return fragment;
+}
+
+/** Remove the belts, crossings and machines that copyRegion(rect) would capture. */
+export function eraseRegion(rect: GridRect): void {
+  beginGesture();
+  for (const m of machinesInRect(rect)) {
+    clearCell(m.x, m.y);
+  }
+  eraseLaid(rect);
+  endGesture();
+}
+
+/** Remove just the belts and crossings inside `rect`. */
+function eraseLaid(rect: GridRect): void {
+  const belts: { x: number; y: number }[] = [];
+  forEachNonEmpty((x, y, cellType) => {
+    if ((cellType === CellType.BELT || cellType === CellType.CROSSING) && rectContains(rect, x, y)) belts.push({ x, y });
+  });
+  for (const b of belts) clearCell(b.x, b.y);
+}
+
+/** Rotate a fragment 90° clockwise, turning belts and directional machine config with it. */
+export function rotateFragment(f: Fragment): Fragment {
+  const turn = (d: number) => ((d + 1) % 4) as Direction;
+  const rot = (x: number, y: number) => ({ x: f.height - 1 - y, y: x });
+
+  const cells = f.cells.map(c => ({
+    ...c,
+    ...rot(c.x, c.y),
+    dir: c.dir != null ? turn(c.dir) : c.dir,
+  }));
+
+  const rotated = f.machines.map(sm => {
+    const out: SerializedMachine = { ...sm, ...rot(sm.x, sm.y) };
+    for (const field of DIRECTION_FIELDS) {
+      if (out[field] != null) out[field] = turn(out[field]!);
+    }
+    if (sm.type === MachineType.SPLITTER) {
+      // The anchor is whichever rotated cell has the other as its secondary
+      const dir = out.splitterDir ?? Direction.RIGHT;
+      const oldSec = getSplitterSecondary({ x: sm.x, y: sm.y, dir: sm.splitterDir ?? Direction.RIGHT });
+      const sec = rot(oldSec.x, oldSec.y);
+      const expected = getSplitterSecondary({ x: out.x, y: out.y, dir });
+      if (expected.x !== sec.x || expected.y !== sec.y) {
+        out.x = sec.x;
+        out.y = sec.y;
+      }
+    }
+    return out;
+  });
+
+  return { ...f, width: f.height, height: f.width, cells, machines: rotated };
+}
+
+/** Every grid cell the fragment would occupy with its top-left at (x, y). */
+function fragmentCells(f: Fragment, x: number, y: number): { x: number; y: number }[] {
+  const out = f.cells.map(c => ({ x: x + c.x, y: y + c.y }));
+  for (const sm of f.machines) {
+    out.push({ x: x + sm.x, y: y + sm.y });
+    if (sm.type === MachineType.SPLITTER) {
+      const sec = getSplitterSecondary({ x: x + sm.x, y: y + sm.y, dir: sm.splitterDir ?? Direction.RIGHT });
+      out.push(sec);
+    }
+  }
+  return out;
+}
+
+/**
+ * Whether the fragment fits with its top-left at (x, y). Belts underneath are
+ * overwritten; existing machines block, unless they are in `ignore` (the
+ * machines a move takes along). A splitter cut by a move's edge still blocks.
+ */
+export function canPlaceFragment(f: Fragment, x: number, y: number, ignore: readonly Machine[] = []): boolean {
+  return fragmentCells(f, x, y).every(c => {
+    if (getCellType(c.x, c.y) !== CellType.MACHINE) return true;
+    const m = getMachineAt(c.x, c.y);
+    return m != null && ignore.includes(m);
+  });
+}
+
+/**
+ * Stamp a fragment onto the grid with its top-left at (x, y) as one undo step.
+ * Pasted sinks get fresh ids so their output stays separate, and the
+ * subfactory definitions the fragment carries are registered first.
+ */
+export function pasteFragment(f: Fragment, x: number, y: number): boolean {
+  if (!canPlaceFragment(f, x, y)) return false;
+
+  const own = adoptCompositeDefs(f);
+  if (own !== f) emitGameEvent('compositesChanged');
+  beginGesture();
+  for (const sm of own.machines) {
+    const machine = deserializeMachine({ ...sm, x: x + sm.x, y: y + sm.y });
+    if (machine.type === MachineType.SINK) {
+      const id = nextSinkId();
+      if (machine.name === `Sink ${machine.sinkId}`) machine.name = `Sink ${id}`;
+      machine.sinkId = id;
+    }
+    insertMachine(machine);
+  }
+  placeLaid(own, x, y);
+  endGesture();
+  return true;
+}
+
+/** Lay the fragment's belts and crossings with its top-left at (x, y). */
+function placeLaid(f: Fragment, x: number, y: number): void {
+  for (const c of f.cells) {
+    if (c.type === 'belt') placeBelt(x + c.x, y + c.y, c.dir ?? Direction.RIGHT, cellTier(c), cellKind(c));
+    else if (c.type === 'crossing') placeCrossing(x + c.x, y + c.y);
+  }
+}
+
+/**
+ * Move the contents of `rect` so its top-left lands on (x, y), as one undo
+ * step. Machines are moved rather than copied, so they keep their identity.
+ */
+export function moveRegion(rect: GridRect, x: number, y: number): boolean {
+  const f = copyRegion(rect);
+  if (!f) return false;
+  const moving = machinesInRect(rect);
+  if (!canPlaceFragment(f, x, y, moving)) return false;
+
+  beginGesture();
+  eraseLaid(rect);
+  shiftMachines(moving, x - rect.minX, y - rect.minY);
+  placeLaid(f, x, y);
+  endGesture();
+  return true;
+}
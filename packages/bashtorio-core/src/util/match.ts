@@ -0,0 +1,150 @@
+import type { MatchMode } from '../game/types';
+import { binaryToUtf8, utf8ToBinary } from './bytes';
+
+// ---------------------------------------------------------------------------
+// Packet matching for Filter and Router: exact byte, byte set, or regex
+// ---------------------------------------------------------------------------
+
+type Matcher = (content: string) => boolean;
+
+const CLASSES: Record<string, (c: number) => boolean> = {
+  alpha: c => (c >= 0x41 && c <= 0x5A) || (c >= 0x61 && c <= 0x7A),
+  digit: c => c >= 0x30 && c <= 0x39,
+  alnum: c => CLASSES.alpha(c) || CLASSES.digit(c),
+  upper: c => c >= 0x41 && c <= 0x5A,
+  lower: c => c >= 0x61 && c <= 0x7A,
+  space: c => c === 0x20 || (c >= 0x09 && c <= 0x0D),
+  blank: c => c === 0x20 || c === 0x09,
+  punct: c => CLASSES.graph(c) && !CLASSES.alnum(c),
+  print: c => c >= 0x20 && c <= 0x7E,
+  graph: c => c > 0x20 && c <= 0x7E,
+  cntrl: c => c < 0x20 || c === 0x7F,
+  xdigit: c => CLASSES.digit(c) || (c >= 0x41 && c <= 0x46) || (c >= 0x61 && c <= 0x66),
+};
+
+const ESCAPES: Record<string, number> = { n: 0x0A, t: 0x09, r: 0x0D, '0': 0x00, '\\': 0x5C, '-': 0x2D, '^': 0x5E, ']': 0x5D };
+
+/**
+ * Parse a byte set in `tr`/bracket-expression style: single bytes, ranges
+ * (`0-9`), classes (`[:alpha:]`), escapes (`\n`, `\t`, `\xHH`), and a
+ * leading `^` to negate. Outer brackets are optional, so `[a-f0-9]` and
+ * `a-f0-9` are the same set. A typed character stands for its UTF-8 bytes,
+ * so `é` adds both of them; only `\xHH` names a raw byte above 0x7F. Throws
+ * on anything it can't read.
+ */
+export function parseByteSet(pattern: string): Uint8Array {
+  let body = pattern;
+  if (body.length > 2 && body[0] === '[' && body[1] !== ':' && body.endsWith(']') && !body.endsWith(':]')) {
+    body = body.slice(1, -1);
+  }
+  const negate = body.startsWith('^') && body.length > 1;
+  if (negate) body = body.slice(1);
+  if (body.length === 0) throw new Error('Empty byte set');
+
+  const set = new Uint8Array(256);
+  let i = 0;
+
+  /** The bytes of the next character or escape */
+  const readBytes = (): number[] => {
+    if (body[i] !== '\\' || i + 1 >= body.length) {
+      const ch = String.fromCodePoint(body.codePointAt(i)!);
+      i += ch.length;
+      return Array.from(utf8ToBinary(ch), c => c.charCodeAt(0));
+    }
+    i++;
+    const esc = body[i++];
+    if (esc === 'x') {
+      const hex = body.slice(i, i + 2);
+      if (!/^[0-9a-fA-F]{2}$/.test(hex)) throw new Error(`Bad escape: \\x${hex}`);
+      i += 2;
+      return [parseInt(hex, 16)];
+    }
+    if (esc in ESCAPES) return [ESCAPES[esc]];
+    throw new Error(`Bad escape: \\${esc}`);
+  };
+
+  while (i < body.length) {
+    if (body.startsWith('[:', i)) {
+      const end = body.indexOf(':]', i + 2);
+      const name = end < 0 ? '' : body.slice(i + 2, end);
+      const test = CLASSES[name];
+      if (!test) throw new Error(`Unknown class: ${end < 0 ? body.slice(i) : `[:${name}:]`}`);
+      for (let c = 0; c < 256; c++) if (test(c)) set[c] = 1;
+      i = end + 2;
+      continue;
+    }
+    const start = i;
+    const lo = readBytes();
+    // A trailing or leading `-` is literal, as in `tr`
+    if (body[i] === '-' && i + 1 < body.length) {
+      i++;
+      const hi = readBytes();
+      if (lo.length > 1 || hi.length > 1) throw new Error(`Range ends must be single bytes: ${body.slice(start, i)}`);
+      if (hi[0] < lo[0]) throw new Error(`Backwards range: ${String.fromCharCode(lo[0])}-${String.fromCharCode(hi[0])}`);
+      for (let c = lo[0]; c <= hi[0]; c++) set[c] = 1;
+    } else {
+      for (const b of lo) set[b] = 1;
+    }
+  }
+
+  if (negate) for (let c = 0; c < 256; c++) set[c] ^= 1;
+  return set;
+}
+
+/** Compile a set or regex pattern, throwing on a bad one so editors can say why. */
+export function compileMatcher(mode: 'set' | 'regex', pattern: string): Matcher {
+  if (mode === 'regex') {
+    const re = new RegExp(pattern);
+    return content => re.test(binaryToUtf8(content));
+  }
+  const set = parseByteSet(pattern);
+  return content => {
+    if (content.length === 0) return false;
+    for (let i = 0; i < content.length; i++) {
+      if (!set[content.charCodeAt(i) & 0xFF]) return false;
+    }
+    return true;
+  };
+}
+
+/** Examples of each syntax, for empty pattern fields */
+export const MATCH_EXAMPLES: Record<MatchMode, string> = {
+  byte: '',
+  set: '[:alnum:]_-',
+  regex: '^ERROR',
+};
+
+/** Why a Filter/Router rule can't be used, or null when it can. */
+export function patternError(mode: MatchMode, pattern: string): string | null {
+  if (mode === 'byte') return null;
+  const what = mode === 'set' ? 'byte set' : 'regex';
+  if (!pattern) return `Empty ${what}`;
+  try {
+    compileMatcher(mode, pattern);
+    return null;
+  } catch (e) {
+    return `Invalid ${what}: ${e instanceof Error ? e.message : e}`;
+  }
+}
+
+const cache = new Map<string, Matcher>();
+
+/**
+ * Whether a packet matches a machine's rule. `byte` compares with the exact
+ * byte; `set` wants every byte of the packet in the set; `regex` tests the
+ * whole packet as text. A pattern that doesn't compile matches nothing.
+ */
+export function matchPacket(mode: MatchMode, byte: string, pattern: string, content: string): boolean {
+  if (mode === 'byte') return content === byte;
+  const key = `${mode}:${pattern}`;
+  let matcher = cache.get(key);
+  if (!matcher) {
+    try {
+      matcher = compileMatcher(mode, pattern);
+    } catch {
+      matcher = () => false;
+    }
+    cache.set(key, matcher);
+  }
+  return matcher(content);
+}
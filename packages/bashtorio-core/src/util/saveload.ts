@@ -1,17 +1,28 @@
 import type { GameState } from '../game/state';
-import type { Machine, MathOp } from '../game/types';
-import { CellType, MachineType, Direction } from '../game/types';
+import type { Machine, MathOp, PortMode, CommandFailureMode, CommandFraming, SplitterMode, SplitterSide, MergerPolicy, MatchMode } from '../game/types';
+import { CellType, MachineType, Direction, BeltTier, BeltKind, BELT_TIERS } from '../game/types';
 import { EmitTimer } from '../game/clock';
 import {
   clearGrid,
-  forEachNonEmpty, getMachineIndex, getBeltDir,
-  setBelt, setMachineCell,
+  forEachNonEmpty, getMachineIndex, getBeltDir, getBeltTier, getBeltKind,
+  setBelt, setCrossing, setMachineCell,
 } from '../game/grid';
 import { getSplitterSecondary } from '../game/edit';
+import { clearHistory } from '../game/history';
+import { getCompositeDefs, registerCompositeDef, clearCompositeDefs, createCompositeWorld, type CompositeDef } from '../game/composites';
 import { machines, getSinkIdCounter, setSinkIdCounter, getCommandIdCounter, setCommandIdCounter, clearMachines } from '../game/machines';
 import { emitGameEvent, onGameEvent } from '../events/bus';
 import { PRESETS } from './presets';
 import { createLogger } from './logger';
+import { bytesToBinary, binaryToBytes, utf8ToBinary } from './bytes';
+import {
+  getWorkspace, setWorkspace, captureWorkspace,
+  getFactorySnapshot, setFactorySnapshot, getBootedSnapshot,
+  getFactoryPackages, setFactoryPackages,
+} from '../game/vm';
+import { hasSnapshot, getBootSnapshot, setBootSnapshot } from './snapshots';
+import type { TreeFile } from '../vm/bridge';
+import { isPackageName } from '../vm/packages';
 
 const log = createLogger('Save');
 
@@ -29,6 +40,16 @@ export interface SaveData {
   sinkIdCounter: number;
   commandIdCounter?: number;
   beltSpeed?: number;
+  composites?: CompositeDef[];       // subfactory definitions used by COMPOSITE machines
+  workspace?: SerializedFile[];      // files in the factory's guest workspace
+  vmSnapshot?: string;               // local VM snapshot the factory expects to run on
+  packages?: string[];               // Alpine packages installed from the local cache at start
+}
+
+/** A workspace file, path relative to the workspace and contents base64 */
+export interface SerializedFile {
+  path: string;
+  data: string;
 }
 
 /** V1 cell format (dense 2D array) */
@@ -39,15 +60,34 @@ interface SerializedCellV1 {
 }
 
 /** V2 cell format (sparse list) */
-interface SerializedCellV2 {
+export interface SerializedCellV2 {
   x: number;
   y: number;
-  type: string;           // 'belt' | 'machine'
+  type: string;           // 'belt' | 'crossing' | 'machine'
   dir?: number;
+  tier?: BeltTier;        // belts only; absent for NORMAL
+  kind?: BeltKind;        // belts only; absent for PLAIN
   machineIdx?: number;
 }
 
-interface SerializedMachine {
+/** A belt cell record, leaving out tier and kind when they are the defaults */
+export function beltCell(x: number, y: number, dir: Direction, tier: BeltTier, kind: BeltKind): SerializedCellV2 {
+  const cell: SerializedCellV2 = { x, y, type: 'belt', dir };
+  if (tier !== BeltTier.NORMAL) cell.tier = tier;
+  if (kind !== BeltKind.PLAIN) cell.kind = kind;
+  return cell;
+}
+
+/** Tier of a belt cell record; unknown values from hand-edited saves fall back to NORMAL */
+export function cellTier(sc: SerializedCellV2): BeltTier {
+  return sc.tier !== undefined && sc.tier in BELT_TIERS ? sc.tier : BeltTier.NORMAL;
+}
+
+export function cellKind(sc: SerializedCellV2): BeltKind {
+  return sc.kind === BeltKind.ENTRANCE || sc.kind === BeltKind.EXIT ? sc.kind : BeltKind.PLAIN;
+}
+
+export interface SerializedMachine {
   x: number;
   y: number;
   type: MachineType;
@@ -63,17 +103,38 @@ interface SerializedMachine {
   constantInterval?: number; // legacy: old saves used this for CONSTANT
   loop?: boolean;
   filterByte?: string;
+  filterMatch?: MatchMode;
+  filterPattern?: string;
   filterMode?: 'pass' | 'block';
   counterTrigger?: string;
   delayMs?: number;
   stream?: boolean;
   async?: boolean; // legacy: old saves used this for stream
+  repl?: boolean;
+  replEnd?: string;
+  replSentinel?: string;
   inputMode?: 'pipe' | 'args';
+  cwd?: string;
+  env?: Record<string, string>;
+  stderrDir?: number;
+  onFailure?: CommandFailureMode;
+  timeoutMs?: number;
+  cpuLimit?: number;
+  outputLimit?: number;
+  workers?: number;
+  ordered?: boolean;
+  batchLines?: number;
+  batchMs?: number;
+  framing?: CommandFraming;
+  recordDelimiter?: string;
+  recordLength?: number;
   sourceText?: string;
   packerDelimiter?: string;
   preserveDelimiter?: boolean;
   packerDir?: number;
   routerByte?: string;
+  routerMatch?: MatchMode;
+  routerPattern?: string;
   routerMatchDir?: number;
   routerElseDir?: number;
   gateDataDir?: number;
@@ -87,6 +148,11 @@ interface SerializedMachine {
   latchDataDir?: number;
   latchControlDir?: number;
   splitterDir?: number;
+  splitterMode?: SplitterMode;
+  splitterSide?: SplitterSide;
+  splitterSet?: string;
+  mergerPolicy?: MergerPolicy;
+  mergerPriorityDir?: number;
   waveform?: string;
   dutyCycle?: number;
   noiseMode?: string;
@@ -106,9 +172,198 @@ interface SerializedMachine {
   tntExploded?: boolean;
   buttonByte?: string;
   buttonChannel?: number;
+  portMode?: PortMode;
+  portSide?: number;
+  compositeId?: string;
+  filePath?: string;
+  fileAppend?: boolean;
 }
 
-const SAVE_VERSION = 2;
+const SAVE_VERSION = 3;
+
+/** Config fields holding bytes. Before v3 they held the typed character instead. */
+const BYTE_FIELDS = [
+  'filterByte', 'routerByte', 'counterTrigger', 'packerDelimiter', 'clockByte',
+  'buttonByte', 'speakDelimiter', 'recordDelimiter', 'replaceFrom', 'replaceTo',
+] as const satisfies readonly (keyof SerializedMachine)[];
+
+/** UTF-8 encode the byte fields of a machine saved before v3 */
+export function encodeLegacyBytes(sm: SerializedMachine): SerializedMachine {
+  const out = { ...sm };
+  for (const key of BYTE_FIELDS) {
+    const value = out[key];
+    if (value !== undefined) out[key] = utf8ToBinary(value);
+  }
+  return out;
+}
+
+/**
+ * Serialize a single machine's configuration (runtime state is dropped)
+ */
+export function serializeMachine(m: Machine): SerializedMachine {
+  const base: SerializedMachine = { x: m.x, y: m.y, type: m.type, command: '', autoStart: false, sinkId: 0 };
+  switch (m.type) {
+    case MachineType.SOURCE:
+      base.emitInterval = m.clock.interval;
+      base.sourceText = m.sourceText;
+      base.loop = m.loop;
+      if (m.gapTimer.interval > 0) base.gapInterval = m.gapTimer.interval;
+      break;
+    case MachineType.SINK:
+      base.sinkId = m.sinkId;
+      base.name = m.name;
+      break;
+    case MachineType.COMMAND:
+      base.command = m.command;
+      base.label = m.label;
+      base.autoStart = m.autoStart;
+      base.stream = m.stream;
+      if (m.repl) base.repl = true;
+      if (m.replEnd) base.replEnd = m.replEnd;
+      if (m.replSentinel) base.replSentinel = m.replSentinel;
+      if (m.inputMode !== 'pipe') base.inputMode = m.inputMode;
+      if (m.cwd !== '/') base.cwd = m.cwd;
+      if (Object.keys(m.env).length > 0) base.env = { ...m.env };
+      if (m.stderrDir != null) base.stderrDir = m.stderrDir;
+      if (m.onFailure !== 'ignore') base.onFailure = m.onFailure;
+      if (m.timeoutMs > 0) base.timeoutMs = m.timeoutMs;
+      if (m.cpuLimit > 0) base.cpuLimit = m.cpuLimit;
+      if (m.outputLimit > 0) base.outputLimit = m.outputLimit;
+      if (m.workers > 1) base.workers = m.workers;
+      if (!m.ordered) base.ordered = false;
+      if (m.batchLines > 1) {
+        base.batchLines = m.batchLines;
+        base.batchMs = m.batchMs;
+      }
+      if (m.framing !== 'delimiter') base.framing = m.framing;
+      if (m.recordDelimiter !== '\n') base.recordDelimiter = m.recordDelimiter;
+      if (m.framing === 'fixed') base.recordLength = m.recordLength;
+      break;
+    case MachineType.LINEFEED:
+      base.emitInterval = m.clock.interval;
+      break;
+    case MachineType.FLIPPER:
+      base.flipperDir = m.flipperDir;
+      break;
+    case MachineType.FILTER:
+      base.filterByte = m.filterByte;
+      if (m.filterMatch !== 'byte') {
+        base.filterMatch = m.filterMatch;
+        base.filterPattern = m.filterPattern;
+      }
+      base.filterMode = m.filterMode;
+      break;
+    case MachineType.COUNTER:
+      base.counterTrigger = m.counterTrigger;
+      break;
+    case MachineType.DELAY:
+      base.delayMs = m.delayMs;
+      break;
+    case MachineType.PACKER:
+      base.packerDelimiter = m.packerDelimiter;
+      base.preserveDelimiter = m.preserveDelimiter;
+      base.packerDir = m.packerDir;
+      break;
+    case MachineType.ROUTER:
+      base.routerByte = m.routerByte;
+      if (m.routerMatch !== 'byte') {
+        base.routerMatch = m.routerMatch;
+        base.routerPattern = m.routerPattern;
+      }
+      base.routerMatchDir = m.routerMatchDir;
+      base.routerElseDir = m.routerElseDir;
+      break;
+    case MachineType.GATE:
+      base.gateDataDir = m.gateDataDir;
+      base.gateControlDir = m.gateControlDir;
+      break;
+    case MachineType.WIRELESS:
+      base.wirelessChannel = m.wirelessChannel;
+      break;
+    case MachineType.REPLACE:
+      base.replaceFrom = m.replaceFrom;
+      base.replaceTo = m.replaceTo;
+      break;
+    case MachineType.MATH:
+      base.mathOp = m.mathOp;
+      base.mathOperand = m.mathOperand;
+      break;
+    case MachineType.CLOCK:
+      base.clockByte = m.clockByte;
+      base.emitInterval = m.clock.interval;
+      break;
+    case MachineType.LATCH:
+      base.latchDataDir = m.latchDataDir;
+      base.latchControlDir = m.latchControlDir;
+      break;
+    case MachineType.SPLITTER:
+      base.splitterDir = m.dir;
+      if (m.splitterMode !== 'round-robin') base.splitterMode = m.splitterMode;
+      if (m.splitterSide !== 'left') base.splitterSide = m.splitterSide;
+      if (m.splitterSet !== '0-9') base.splitterSet = m.splitterSet;
+      break;
+    case MachineType.MERGER:
+      base.mergerPolicy = m.mergerPolicy;
+      base.mergerPriorityDir = m.mergerPriorityDir;
+      break;
+    case MachineType.SEVENSEG:
+      break;
+    case MachineType.DRUM:
+      base.bitmask = m.bitmask;
+      break;
+    case MachineType.TONE:
+      base.waveform = m.waveform;
+      if (m.dutyCycle !== 0.5) base.dutyCycle = m.dutyCycle;
+      break;
+    case MachineType.NOISE:
+      base.noiseMode = m.noiseMode;
+      break;
+    case MachineType.SPEAK:
+      base.speakRate = m.speakRate;
+      base.speakPitch = m.speakPitch;
+      base.speakDelimiter = m.speakDelimiter;
+      break;
+    case MachineType.SCREEN:
+      base.screenResolution = m.resolution;
+      base.screenBuffer = Array.from(m.buffer);
+      base.screenWritePos = m.writePos;
+      break;
+    case MachineType.BYTE:
+      base.byteData = Array.from(m.byteData);
+      base.emitInterval = m.clock.interval;
+      if (m.gapTimer.interval > 0) base.gapInterval = m.gapTimer.interval;
+      break;
+    case MachineType.PUNCHCARD:
+      base.cardData = Array.from(m.cardData);
+      base.emitInterval = m.clock.interval;
+      if (m.gapTimer.interval > 0) base.gapInterval = m.gapTimer.interval;
+      base.loop = m.loop;
+      break;
+    case MachineType.FILESOURCE:
+      base.filePath = m.filePath;
+      base.emitInterval = m.clock.interval;
+      base.loop = m.loop;
+      break;
+    case MachineType.FILESINK:
+      base.filePath = m.filePath;
+      if (m.append) base.fileAppend = true;
+      break;
+    case MachineType.TNT:
+      break;
+    case MachineType.BUTTON:
+      base.buttonByte = m.buttonByte;
+      base.buttonChannel = m.buttonChannel;
+      break;
+    case MachineType.PORT:
+      base.portMode = m.portMode;
+      base.portSide = m.portSide;
+      break;
+    case MachineType.COMPOSITE:
+      base.compositeId = m.compositeId;
+      break;
+  }
+  return base;
+}
 
 /**
  * Serialize game state to JSON-compatible object (v2 sparse format)
@@ -122,128 +377,16 @@ export function serializeState(state: GameState): SaveData {
   const cells: SerializedCellV2[] = [];
   forEachNonEmpty((x, y, cellType) => {
     if (cellType === CellType.BELT) {
-      cells.push({ x, y, type: 'belt', dir: getBeltDir(x, y) });
+      cells.push(beltCell(x, y, getBeltDir(x, y), getBeltTier(x, y), getBeltKind(x, y)));
+    } else if (cellType === CellType.CROSSING) {
+      cells.push({ x, y, type: 'crossing' });
     } else if (cellType === CellType.MACHINE) {
       const mi = getMachineIndex(x, y);
       cells.push({ x, y, type: 'machine', machineIdx: mi });
     }
   });
 
-  // Serialize machines
-  const serializedMachines: SerializedMachine[] = machines.map(m => {
-    const base: SerializedMachine = { x: m.x, y: m.y, type: m.type, command: '', autoStart: false, sinkId: 0 };
-    switch (m.type) {
-      case MachineType.SOURCE:
-        base.emitInterval = m.clock.interval;
-        base.sourceText = m.sourceText;
-        base.loop = m.loop;
-        if (m.gapTimer.interval > 0) base.gapInterval = m.gapTimer.interval;
-        break;
-      case MachineType.SINK:
-        base.sinkId = m.sinkId;
-        base.name = m.name;
-        break;
-      case MachineType.COMMAND:
-        base.command = m.command;
-        base.label = m.label;
-        base.autoStart = m.autoStart;
-        base.stream = m.stream;
-        if (m.inputMode !== 'pipe') base.inputMode = m.inputMode;
-        break;
-      case MachineType.LINEFEED:
-        base.emitInterval = m.clock.interval;
-        break;
-      case MachineType.FLIPPER:
-        base.flipperDir = m.flipperDir;
-        break;
-      case MachineType.FILTER:
-        base.filterByte = m.filterByte;
-        base.filterMode = m.filterMode;
-        break;
-      case MachineType.COUNTER:
-        base.counterTrigger = m.counterTrigger;
-        break;
-      case MachineType.DELAY:
-        base.delayMs = m.delayMs;
-        break;
-      case MachineType.PACKER:
-        base.packerDelimiter = m.packerDelimiter;
-        base.preserveDelimiter = m.preserveDelimiter;
-        base.packerDir = m.packerDir;
-        break;
-      case MachineType.ROUTER:
-        base.routerByte = m.routerByte;
-        base.routerMatchDir = m.routerMatchDir;
-        base.routerElseDir = m.routerElseDir;
-        break;
-      case MachineType.GATE:
-        base.gateDataDir = m.gateDataDir;
-        base.gateControlDir = m.gateControlDir;
-        break;
-      case MachineType.WIRELESS:
-        base.wirelessChannel = m.wirelessChannel;
-        break;
-      case MachineType.REPLACE:
-        base.replaceFrom = m.replaceFrom;
-        base.replaceTo = m.replaceTo;
-        break;
-      case MachineType.MATH:
-        base.mathOp = m.mathOp;
-        base.mathOperand = m.mathOperand;
-        break;
-      case MachineType.CLOCK:
-        base.clockByte = m.clockByte;
-        base.emitInterval = m.clock.interval;
-        break;
-      case MachineType.LATCH:
-        base.latchDataDir = m.latchDataDir;
-        base.latchControlDir = m.latchControlDir;
-        break;
-      case MachineType.SPLITTER:
-        base.splitterDir = m.dir;
-        break;
-      case MachineType.SEVENSEG:
-        break;
-      case MachineType.DRUM:
-        base.bitmask = m.bitmask;
-        break;
-      case MachineType.TONE:
-        base.waveform = m.waveform;
-        if (m.dutyCycle !== 0.5) base.dutyCycle = m.dutyCycle;
-        break;
-      case MachineType.NOISE:
-        base.noiseMode = m.noiseMode;
-        break;
-      case MachineType.SPEAK:
-        base.speakRate = m.speakRate;
-        base.speakPitch = m.speakPitch;
-        base.speakDelimiter = m.speakDelimiter;
-        break;
-      case MachineType.SCREEN:
-        base.screenResolution = m.resolution;
-        base.screenBuffer = Array.from(m.buffer);
-        base.screenWritePos = m.writePos;
-        break;
-      case MachineType.BYTE:
-        base.byteData = Array.from(m.byteData);
-        base.emitInterval = m.clock.interval;
-        if (m.gapTimer.interval > 0) base.gapInterval = m.gapTimer.interval;
-        break;
-      case MachineType.PUNCHCARD:
-        base.cardData = Array.from(m.cardData);
-        base.emitInterval = m.clock.interval;
-        if (m.gapTimer.interval > 0) base.gapInterval = m.gapTimer.interval;
-        base.loop = m.loop;
-        break;
-      case MachineType.TNT:
-        break;
-      case MachineType.BUTTON:
-        base.buttonByte = m.buttonByte;
-        base.buttonChannel = m.buttonChannel;
-        break;
-    }
-    return base;
-  });
+  const serializedMachines = machines.map(serializeMachine);
 
   return {
     version: SAVE_VERSION,
@@ -252,9 +395,43 @@ export function serializeState(state: GameState): SaveData {
     sinkIdCounter: getSinkIdCounter(),
     commandIdCounter: getCommandIdCounter(),
     beltSpeed: state.beltSpeed,
+    composites: getCompositeDefs(),
+    workspace: serializeWorkspace(getWorkspace()),
+    vmSnapshot: getFactorySnapshot() ?? undefined,
+    packages: getFactoryPackages().length > 0 ? getFactoryPackages() : undefined,
   };
 }
 
+/** Largest workspace kept in a save; bigger ones are left out rather than bloating share links */
+const WORKSPACE_SAVE_LIMIT = 1024 * 1024;
+
+function serializeWorkspace(files: TreeFile[]): SerializedFile[] | undefined {
+  if (files.length === 0) return undefined;
+  const total = files.reduce((sum, f) => sum + f.data.length, 0);
+  if (total > WORKSPACE_SAVE_LIMIT) {
+    log.warn(`Workspace is ${total} bytes, over the ${WORKSPACE_SAVE_LIMIT} byte save limit; not saved`);
+    return undefined;
+  }
+  return files.map(f => ({ path: f.path, data: btoa(bytesToBinary(f.data)) }));
+}
+
+function deserializeWorkspace(files: SerializedFile[]): TreeFile[] {
+  const out: TreeFile[] = [];
+  for (const f of files) {
+    // Paths stay inside the workspace
+    if (!f.path || f.path.startsWith('/') || f.path.split('/').some(part => part === '..' || part === '')) {
+      log.warn(`Skipping workspace file with bad path: ${f.path}`);
+      continue;
+    }
+    try {
+      out.push({ path: f.path, data: binaryToBytes(atob(f.data)) });
+    } catch {
+      log.warn(`Skipping workspace file with bad data: ${f.path}`);
+    }
+  }
+  return out;
+}
+
 /** Map v1 string cell types to CellType enum values */
 function parseCellType(t: string | number): CellType {
   if (typeof t === 'number') return t as CellType;
@@ -269,311 +446,416 @@ export function clearState(state: GameState): void {
   emitGameEvent('endSimulation');
   clearGrid();
   clearMachines();
+  clearCompositeDefs();
+  clearHistory();
+  setWorkspace([]);
+  setFactorySnapshot(null);
+  setFactoryPackages([]);
   state.packets = [];
   state.orphanedPackets = [];
+  state.selection = null;
+  state.floating = null;
+  emitGameEvent('compositesChanged');
   emitGameEvent('selectPlaceable', { placeable: 'belt' });
 }
 
+/**
+ * Rebuild a machine from its serialized form, filling defaults for fields
+ * missing from older saves. `legacySourceText` is the v1 top-level source text.
+ */
+export function deserializeMachine(sm: SerializedMachine, legacySourceText?: string): Machine {
+  const base = { x: sm.x, y: sm.y, lastCommandTime: 0 };
+  let machine: Machine;
+  switch (sm.type) {
+    case MachineType.SOURCE:
+      machine = {
+        ...base,
+        type: MachineType.SOURCE,
+        sourceText: sm.sourceText ?? legacySourceText ?? '',
+        sourceBytes: { text: '', bytes: '' },
+        sourcePos: 0,
+        clock: new EmitTimer(sm.emitInterval ?? 500),
+        gapTimer: new EmitTimer(sm.gapInterval ?? 0),
+        loop: sm.loop ?? true,
+      };
+      break;
+    case MachineType.SINK:
+      machine = {
+        ...base,
+        type: MachineType.SINK,
+        sinkId: sm.sinkId,
+        name: sm.name ?? `Sink ${sm.sinkId}`,
+        drainRing: [],
+        drainHead: 0,
+      };
+      break;
+    case MachineType.COMMAND:
+      machine = {
+        ...base,
+        type: MachineType.COMMAND,
+        label: sm.label ?? `Shell ${sm.x},${sm.y}`,
+        command: sm.command,
+        autoStart: sm.autoStart,
+        stream: sm.stream ?? sm.async ?? false,
+        repl: sm.repl ?? false,
+        replEnd: sm.replEnd ?? '',
+        replSentinel: sm.replSentinel ?? '',
+        inputMode: sm.inputMode ?? 'pipe',
+        pendingInput: '',
+        outputBuffer: '',
+        processing: false,
+        lastInputTime: 0,
+        autoStartRan: false,
+        // Saves from before the workspace ran their shells in /; new machines start there instead
+        cwd: sm.cwd ?? '/',
+        env: { ...sm.env },
+        shell: null,
+        pollPending: false,
+        bytesIn: 0,
+        bytesOut: 0,
+        stderrDir: sm.stderrDir ?? null,
+        onFailure: sm.onFailure ?? 'ignore',
+        errorBuffer: '',
+        currentInput: '',
+        timeoutMs: sm.timeoutMs ?? 0,
+        cpuLimit: sm.cpuLimit ?? 0,
+        outputLimit: sm.outputLimit ?? 0,
+        workers: Math.max(1, sm.workers ?? 1),
+        ordered: sm.ordered ?? true,
+        batchLines: Math.max(1, sm.batchLines ?? 1),
+        batchMs: sm.batchMs ?? 250,
+        framing: sm.framing ?? 'delimiter',
+        recordDelimiter: sm.recordDelimiter ?? '\n',
+        recordLength: Math.max(1, sm.recordLength ?? 8),
+        pendingPackets: [],
+      };
+      break;
+    case MachineType.DISPLAY:
+      machine = {
+        ...base,
+        type: MachineType.DISPLAY,
+        displayBuffer: '',
+        displayText: '',
+        displayTime: 0,
+        lastByteTime: 0,
+      };
+      break;
+    case MachineType.NULL:
+      machine = { ...base, type: MachineType.NULL };
+      break;
+    case MachineType.LINEFEED:
+      machine = {
+        ...base,
+        type: MachineType.LINEFEED,
+        clock: new EmitTimer(sm.emitInterval ?? 500),
+      };
+      break;
+    case MachineType.FLIPPER:
+      machine = {
+        ...base,
+        type: MachineType.FLIPPER,
+        flipperDir: sm.flipperDir ?? 0,
+        flipperState: sm.flipperDir ?? 0,
+        outputQueue: [],
+      };
+      break;
+    case MachineType.DUPLICATOR:
+      machine = { ...base, type: MachineType.DUPLICATOR, outputQueue: [] };
+      break;
+    case 'constant' as MachineType:
+      machine = {
+        ...base,
+        type: MachineType.SOURCE,
+        sourceText: sm.constantText ?? 'hello\n',
+        sourceBytes: { text: '', bytes: '' },
+        sourcePos: 0,
+        clock: new EmitTimer(sm.emitInterval ?? sm.constantInterval ?? 500),
+        gapTimer: new EmitTimer(sm.gapInterval ?? 0),
+        loop: true,
+      };
+      break;
+    case MachineType.FILTER:
+      machine = {
+        ...base,
+        type: MachineType.FILTER,
+        filterByte: sm.filterByte ?? '\n',
+        filterMatch: sm.filterMatch ?? 'byte',
+        filterPattern: sm.filterPattern ?? '',
+        filterMode: sm.filterMode ?? 'pass',
+        outputQueue: [],
+      };
+      break;
+    case MachineType.COUNTER:
+      machine = {
+        ...base,
+        type: MachineType.COUNTER,
+        counterTrigger: sm.counterTrigger ?? '\n',
+        counterCount: 0,
+        outputBuffer: '',
+      };
+      break;
+    case MachineType.DELAY:
+      machine = {
+        ...base,
+        type: MachineType.DELAY,
+        delayMs: sm.delayMs ?? 1000,
+        delayQueue: [],
+        outputQueue: [],
+      };
+      break;
+    case MachineType.KEYBOARD:
+      machine = { ...base, type: MachineType.KEYBOARD, outputBuffer: '' };
+      break;
+    case MachineType.UNPACKER:
+      machine = { ...base, type: MachineType.UNPACKER, outputBuffer: '' };
+      break;
+    case MachineType.PACKER:
+      machine = {
+        ...base,
+        type: MachineType.PACKER,
+        packerDelimiter: sm.packerDelimiter ?? '\n',
+        preserveDelimiter: sm.preserveDelimiter ?? true,
+        packerDir: sm.packerDir ?? Direction.RIGHT,
+        accumulatedBuffer: '',
+        outputBuffer: '',
+      };
+      break;
+    case MachineType.ROUTER:
+      machine = {
+        ...base,
+        type: MachineType.ROUTER,
+        routerByte: sm.routerByte ?? '\n',
+        routerMatch: sm.routerMatch ?? 'byte',
+        routerPattern: sm.routerPattern ?? '',
+        routerMatchDir: sm.routerMatchDir ?? Direction.RIGHT,
+        routerElseDir: sm.routerElseDir ?? Direction.DOWN,
+        matchQueue: [],
+        elseQueue: [],
+      };
+      break;
+    case MachineType.GATE:
+      machine = {
+        ...base,
+        type: MachineType.GATE,
+        gateDataDir: sm.gateDataDir ?? Direction.LEFT,
+        gateControlDir: sm.gateControlDir ?? Direction.UP,
+        gateOpen: false,
+        outputQueue: [],
+      };
+      break;
+    case MachineType.WIRELESS:
+      machine = {
+        ...base,
+        type: MachineType.WIRELESS,
+        wirelessChannel: sm.wirelessChannel ?? 0,
+        wifiArc: 0,
+        outputQueue: [],
+      };
+      break;
+    case MachineType.REPLACE:
+      machine = {
+        ...base,
+        type: MachineType.REPLACE,
+        replaceFrom: sm.replaceFrom ?? 'a',
+        replaceTo: sm.replaceTo ?? 'b',
+        outputBuffer: '',
+        lastActivation: 0,
+        animationProgress: 0,
+      };
+      break;
+    case MachineType.MATH:
+      machine = {
+        ...base,
+        type: MachineType.MATH,
+        mathOp: sm.mathOp ?? 'add',
+        mathOperand: sm.mathOperand ?? 1,
+        outputBuffer: '',
+      };
+      break;
+    case MachineType.CLOCK:
+      machine = {
+        ...base,
+        type: MachineType.CLOCK,
+        clockByte: sm.clockByte ?? '*',
+        clock: new EmitTimer(sm.emitInterval ?? 1000),
+      };
+      break;
+    case MachineType.LATCH:
+      machine = {
+        ...base,
+        type: MachineType.LATCH,
+        latchDataDir: sm.latchDataDir ?? Direction.LEFT,
+        latchControlDir: sm.latchControlDir ?? Direction.UP,
+        latchStored: '',
+        outputQueue: [],
+      };
+      break;
+
+    case MachineType.SPLITTER:
+      machine = {
+        ...base,
+        type: MachineType.SPLITTER,
+        dir: sm.splitterDir ?? Direction.RIGHT,
+        // 'digits' was the only filtering mode before byte sets
+        splitterMode: (sm.splitterMode as string) === 'digits' ? 'set' : sm.splitterMode ?? 'round-robin',
+        splitterSide: sm.splitterSide ?? 'left',
+        splitterSet: sm.splitterSet ?? '0-9',
+        toggle: 0,
+        outputQueue: [],
+        inputLanes: [],
+      };
+      break;
+    case MachineType.MERGER:
+      machine = {
+        ...base,
+        type: MachineType.MERGER,
+        mergerPolicy: sm.mergerPolicy ?? 'fair',
+        mergerPriorityDir: sm.mergerPriorityDir ?? Direction.LEFT,
+        inputQueues: [[], [], [], []],
+        mergerTurn: Direction.RIGHT,
+      };
+      break;
+    case MachineType.SEVENSEG:
+      machine = { ...base, type: MachineType.SEVENSEG, lastByte: -1, outputQueue: [] };
+      break;
+    case MachineType.DRUM:
+      machine = { ...base, type: MachineType.DRUM, bitmask: sm.bitmask ?? false, outputQueue: [] };
+      break;
+    case MachineType.TONE:
+      machine = { ...base, type: MachineType.TONE, waveform: (sm.waveform ?? 'sine') as OscillatorType, dutyCycle: sm.dutyCycle ?? 0.5 };
+      break;
+    case MachineType.NOISE:
+      machine = { ...base, type: MachineType.NOISE, noiseMode: (sm.noiseMode ?? '15bit') as '15bit' | '7bit' };
+      break;
+    case MachineType.SPEAK:
+      machine = {
+        ...base,
+        type: MachineType.SPEAK,
+        speakRate: sm.speakRate ?? 1,
+        speakPitch: sm.speakPitch ?? 1,
+        speakDelimiter: sm.speakDelimiter ?? '\n',
+        accumulatedBuffer: '',
+        displayText: '',
+        displayTime: 0,
+      };
+      break;
+    case MachineType.SCREEN: {
+      const res = (sm.screenResolution ?? 8) as 8 | 16 | 32;
+      const bufSize = (res * res) / 8;
+      const buf = sm.screenBuffer ? new Uint8Array(sm.screenBuffer) : new Uint8Array(bufSize);
+      machine = {
+        ...base,
+        type: MachineType.SCREEN,
+        resolution: res,
+        buffer: buf,
+        writePos: sm.screenWritePos ?? 0,
+      };
+      break;
+    }
+    case MachineType.BYTE:
+      machine = {
+        ...base,
+        type: MachineType.BYTE,
+        byteData: sm.byteData ? new Uint8Array(sm.byteData) : new Uint8Array(0),
+        bytePos: 0,
+        clock: new EmitTimer(sm.emitInterval ?? 500),
+        gapTimer: new EmitTimer(sm.gapInterval ?? 0),
+      };
+      break;
+    case MachineType.PUNCHCARD:
+      machine = {
+        ...base,
+        type: MachineType.PUNCHCARD,
+        cardData: sm.cardData ? new Uint8Array(sm.cardData) : new Uint8Array(0),
+        cardPos: 0,
+        clock: new EmitTimer(sm.emitInterval ?? 500),
+        gapTimer: new EmitTimer(sm.gapInterval ?? 0),
+        loop: sm.loop ?? false,
+      };
+      break;
+    case MachineType.FILESOURCE:
+      machine = {
+        ...base,
+        type: MachineType.FILESOURCE,
+        filePath: sm.filePath ?? '',
+        clock: new EmitTimer(sm.emitInterval ?? 100),
+        loop: sm.loop ?? false,
+        fileData: null,
+        fileLoading: false,
+        filePos: 0,
+      };
+      break;
+    case MachineType.FILESINK:
+      machine = {
+        ...base,
+        type: MachineType.FILESINK,
+        filePath: sm.filePath ?? 'out.txt',
+        append: sm.fileAppend ?? false,
+        fileBase: null,
+        fileBuffer: '',
+        fileDirty: false,
+        fileWriting: false,
+      };
+      break;
+    case MachineType.TNT:
+      machine = {
+        ...base,
+        type: MachineType.TNT,
+        packetCount: 0,
+        stored: [],
+        exploded: false,
+      };
+      break;
+    case MachineType.BUTTON:
+      machine = {
+        ...base,
+        type: MachineType.BUTTON,
+        buttonByte: sm.buttonByte ?? '1',
+        buttonChannel: sm.buttonChannel ?? 0,
+        outputQueue: [],
+      };
+      break;
+    case MachineType.PORT:
+      machine = {
+        ...base,
+        type: MachineType.PORT,
+        portMode: sm.portMode ?? 'in',
+        portSide: sm.portSide ?? Direction.LEFT,
+        outputQueue: [],
+      };
+      break;
+    case MachineType.COMPOSITE:
+      machine = {
+        ...base,
+        type: MachineType.COMPOSITE,
+        compositeId: sm.compositeId ?? '',
+        world: createCompositeWorld(sm.compositeId ?? ''),
+      };
+      break;
+    default:
+      // Fallback for unknown types in old saves
+      machine = { ...base, type: MachineType.NULL };
+      break;
+  }
+  return machine;
+}
+
 /**
  * Deserialize saved data into game state (v1 + v2 compat)
  */
 export function deserializeState(state: GameState, data: SaveData): void {
   clearState(state);
+  const upgrade = data.version < 3 ? encodeLegacyBytes : (sm: SerializedMachine) => sm;
+
+  // Composite definitions before machines, which build their worlds from them
+  for (const def of data.composites ?? []) {
+    registerCompositeDef({ ...def, fragment: { ...def.fragment, machines: def.fragment.machines.map(upgrade) } });
+  }
+  emitGameEvent('compositesChanged');
 
   // Restore machines first (we need them for grid references)
   for (const sm of data.machines) {
-    const base = { x: sm.x, y: sm.y, lastCommandTime: 0 };
-    let machine: Machine;
-    switch (sm.type) {
-      case MachineType.SOURCE:
-        machine = {
-          ...base,
-          type: MachineType.SOURCE,
-          sourceText: sm.sourceText ?? data.sourceText ?? '',
-          sourcePos: 0,
-          clock: new EmitTimer(sm.emitInterval ?? 500),
-          gapTimer: new EmitTimer(sm.gapInterval ?? 0),
-          loop: sm.loop ?? true,
-        };
-        break;
-      case MachineType.SINK:
-        machine = {
-          ...base,
-          type: MachineType.SINK,
-          sinkId: sm.sinkId,
-          name: sm.name ?? `Sink ${sm.sinkId}`,
-          drainRing: [],
-          drainHead: 0,
-        };
-        break;
-      case MachineType.COMMAND:
-        machine = {
-          ...base,
-          type: MachineType.COMMAND,
-          label: sm.label ?? `Shell ${sm.x},${sm.y}`,
-          command: sm.command,
-          autoStart: sm.autoStart,
-          stream: sm.stream ?? sm.async ?? false,
-          inputMode: sm.inputMode ?? 'pipe',
-          pendingInput: '',
-          outputBuffer: '',
-          processing: false,
-          lastInputTime: 0,
-          autoStartRan: false,
-          cwd: '/',
-          shell: null,
-          pollPending: false,
-          bytesIn: 0,
-          bytesOut: 0,
-        };
-        break;
-      case MachineType.DISPLAY:
-        machine = {
-          ...base,
-          type: MachineType.DISPLAY,
-          displayBuffer: '',
-          displayText: '',
-          displayTime: 0,
-          lastByteTime: 0,
-        };
-        break;
-      case MachineType.NULL:
-        machine = { ...base, type: MachineType.NULL };
-        break;
-      case MachineType.LINEFEED:
-        machine = {
-          ...base,
-          type: MachineType.LINEFEED,
-          clock: new EmitTimer(sm.emitInterval ?? 500),
-        };
-        break;
-      case MachineType.FLIPPER:
-        machine = {
-          ...base,
-          type: MachineType.FLIPPER,
-          flipperDir: sm.flipperDir ?? 0,
-          flipperState: sm.flipperDir ?? 0,
-          outputQueue: [],
-        };
-        break;
-      case MachineType.DUPLICATOR:
-        machine = { ...base, type: MachineType.DUPLICATOR, outputQueue: [] };
-        break;
-      case 'constant' as MachineType:
-        machine = {
-          ...base,
-          type: MachineType.SOURCE,
-          sourceText: sm.constantText ?? 'hello\n',
-          sourcePos: 0,
-          clock: new EmitTimer(sm.emitInterval ?? sm.constantInterval ?? 500),
-          gapTimer: new EmitTimer(sm.gapInterval ?? 0),
-          loop: true,
-        };
-        break;
-      case MachineType.FILTER:
-        machine = {
-          ...base,
-          type: MachineType.FILTER,
-          filterByte: sm.filterByte ?? '\n',
-          filterMode: sm.filterMode ?? 'pass',
-          outputQueue: [],
-        };
-        break;
-      case MachineType.COUNTER:
-        machine = {
-          ...base,
-          type: MachineType.COUNTER,
-          counterTrigger: sm.counterTrigger ?? '\n',
-          counterCount: 0,
-          outputBuffer: '',
-        };
-        break;
-      case MachineType.DELAY:
-        machine = {
-          ...base,
-          type: MachineType.DELAY,
-          delayMs: sm.delayMs ?? 1000,
-          delayQueue: [],
-          outputQueue: [],
-        };
-        break;
-      case MachineType.KEYBOARD:
-        machine = { ...base, type: MachineType.KEYBOARD, outputBuffer: '' };
-        break;
-      case MachineType.UNPACKER:
-        machine = { ...base, type: MachineType.UNPACKER, outputBuffer: '' };
-        break;
-      case MachineType.PACKER:
-        machine = {
-          ...base,
-          type: MachineType.PACKER,
-          packerDelimiter: sm.packerDelimiter ?? '\n',
-          preserveDelimiter: sm.preserveDelimiter ?? true,
-          packerDir: sm.packerDir ?? Direction.RIGHT,
-          accumulatedBuffer: '',
-          outputBuffer: '',
-        };
-        break;
-      case MachineType.ROUTER:
-        machine = {
-          ...base,
-          type: MachineType.ROUTER,
-          routerByte: sm.routerByte ?? '\n',
-          routerMatchDir: sm.routerMatchDir ?? Direction.RIGHT,
-          routerElseDir: sm.routerElseDir ?? Direction.DOWN,
-          matchQueue: [],
-          elseQueue: [],
-        };
-        break;
-      case MachineType.GATE:
-        machine = {
-          ...base,
-          type: MachineType.GATE,
-          gateDataDir: sm.gateDataDir ?? Direction.LEFT,
-          gateControlDir: sm.gateControlDir ?? Direction.UP,
-          gateOpen: false,
-          outputQueue: [],
-        };
-        break;
-      case MachineType.WIRELESS:
-        machine = {
-          ...base,
-          type: MachineType.WIRELESS,
-          wirelessChannel: sm.wirelessChannel ?? 0,
-          wifiArc: 0,
-          outputQueue: [],
-        };
-        break;
-      case MachineType.REPLACE:
-        machine = {
-          ...base,
-          type: MachineType.REPLACE,
-          replaceFrom: sm.replaceFrom ?? 'a',
-          replaceTo: sm.replaceTo ?? 'b',
-          outputBuffer: '',
-          lastActivation: 0,
-          animationProgress: 0,
-        };
-        break;
-      case MachineType.MATH:
-        machine = {
-          ...base,
-          type: MachineType.MATH,
-          mathOp: sm.mathOp ?? 'add',
-          mathOperand: sm.mathOperand ?? 1,
-          outputBuffer: '',
-        };
-        break;
-      case MachineType.CLOCK:
-        machine = {
-          ...base,
-          type: MachineType.CLOCK,
-          clockByte: sm.clockByte ?? '*',
-          clock: new EmitTimer(sm.emitInterval ?? 1000),
-        };
-        break;
-      case MachineType.LATCH:
-        machine = {
-          ...base,
-          type: MachineType.LATCH,
-          latchDataDir: sm.latchDataDir ?? Direction.LEFT,
-          latchControlDir: sm.latchControlDir ?? Direction.UP,
-          latchStored: '',
-          outputQueue: [],
-        };
-        break;
-
-      case MachineType.SPLITTER:
-        machine = {
-          ...base,
-          type: MachineType.SPLITTER,
-          dir: sm.splitterDir ?? Direction.RIGHT,
-          toggle: 0,
-          outputQueue: [],
-        };
-        break;
-      case MachineType.SEVENSEG:
-        machine = { ...base, type: MachineType.SEVENSEG, lastByte: -1, outputQueue: [] };
-        break;
-      case MachineType.DRUM:
-        machine = { ...base, type: MachineType.DRUM, bitmask: sm.bitmask ?? false, outputQueue: [] };
-        break;
-      case MachineType.TONE:
-        machine = { ...base, type: MachineType.TONE, waveform: (sm.waveform ?? 'sine') as OscillatorType, dutyCycle: sm.dutyCycle ?? 0.5 };
-        break;
-      case MachineType.NOISE:
-        machine = { ...base, type: MachineType.NOISE, noiseMode: (sm.noiseMode ?? '15bit') as '15bit' | '7bit' };
-        break;
-      case MachineType.SPEAK:
-        machine = {
-          ...base,
-          type: MachineType.SPEAK,
-          speakRate: sm.speakRate ?? 1,
-          speakPitch: sm.speakPitch ?? 1,
-          speakDelimiter: sm.speakDelimiter ?? '\n',
-          accumulatedBuffer: '',
-          displayText: '',
-          displayTime: 0,
-        };
-        break;
-      case MachineType.SCREEN: {
-        const res = (sm.screenResolution ?? 8) as 8 | 16 | 32;
-        const bufSize = (res * res) / 8;
-        const buf = sm.screenBuffer ? new Uint8Array(sm.screenBuffer) : new Uint8Array(bufSize);
-        machine = {
-          ...base,
-          type: MachineType.SCREEN,
-          resolution: res,
-          buffer: buf,
-          writePos: sm.screenWritePos ?? 0,
-        };
-        break;
-      }
-      case MachineType.BYTE:
-        machine = {
-          ...base,
-          type: MachineType.BYTE,
-          byteData: sm.byteData ? new Uint8Array(sm.byteData) : new Uint8Array(0),
-          bytePos: 0,
-          clock: new EmitTimer(sm.emitInterval ?? 500),
-          gapTimer: new EmitTimer(sm.gapInterval ?? 0),
-        };
-        break;
-      case MachineType.PUNCHCARD:
-        machine = {
-          ...base,
-          type: MachineType.PUNCHCARD,
-          cardData: sm.cardData ? new Uint8Array(sm.cardData) : new Uint8Array(0),
-          cardPos: 0,
-          clock: new EmitTimer(sm.emitInterval ?? 500),
-          gapTimer: new EmitTimer(sm.gapInterval ?? 0),
-          loop: sm.loop ?? false,
-        };
-        break;
-      case MachineType.TNT:
-        machine = {
-          ...base,
-          type: MachineType.TNT,
-          packetCount: 0,
-          stored: [],
-          exploded: false,
-        };
-        break;
-      case MachineType.BUTTON:
-        machine = {
-          ...base,
-          type: MachineType.BUTTON,
-          buttonByte: sm.buttonByte ?? '1',
-          buttonChannel: sm.buttonChannel ?? 0,
-          outputQueue: [],
-        };
-        break;
-      default:
-        // Fallback for unknown types in old saves
-        machine = { ...base, type: MachineType.NULL };
-        break;
-    }
-    machines.push(machine);
+    machines.push(deserializeMachine(upgrade(sm), data.sourceText));
   }
 
   // Restore grid: detect v1 (has `grid` 2D array) vs v2 (has `cells` list)
@@ -581,7 +863,9 @@ export function deserializeState(state: GameState, data: SaveData): void {
     // V2: sparse cell list
     for (const sc of data.cells) {
       if (sc.type === 'belt') {
-        setBelt(sc.x, sc.y, sc.dir ?? Direction.RIGHT);
+        setBelt(sc.x, sc.y, sc.dir ?? Direction.RIGHT, cellTier(sc), cellKind(sc));
+      } else if (sc.type === 'crossing') {
+        setCrossing(sc.x, sc.y);
       } else if (sc.type === 'machine') {
         setMachineCell(sc.x, sc.y, sc.machineIdx ?? 0);
       }
@@ -618,6 +902,9 @@ export function deserializeState(state: GameState, data: SaveData): void {
   setCommandIdCounter(data.commandIdCounter ?? 1);
   state.beltSpeed = data.beltSpeed ?? 2;
   emitGameEvent('beltSpeedChanged', { beltSpeed: state.beltSpeed });
+  setWorkspace(deserializeWorkspace(data.workspace ?? []));
+  setFactorySnapshot(data.vmSnapshot ?? null);
+  setFactoryPackages((data.packages ?? []).filter(isPackageName));
 }
 
 /**
@@ -688,11 +975,10 @@ async function decompress(input: Uint8Array): Promise<Uint8Array> {
 }
 
 /**
- * Encode save data as a compressed, base64url string (URL-safe, no padding).
+ * Encode any JSON-serializable value as a compressed, base64url string (URL-safe, no padding).
  */
-export async function saveToBase64(state: GameState): Promise<string> {
-	const data = serializeState(state);
-	const json = JSON.stringify(data);
+export async function encodeCompressed(value: unknown): Promise<string> {
+	const json = JSON.stringify(value);
 	const encoded = new TextEncoder().encode(json);
 	const compressed = await compress(encoded);
 	// Convert to base64url
@@ -704,9 +990,9 @@ export async function saveToBase64(state: GameState): Promise<string> {
 }
 
 /**
- * Decode a base64url string into SaveData.
+ * Decode a string produced by encodeCompressed back into its JSON value.
  */
-export async function loadFromBase64(base64: string): Promise<SaveData> {
+export async function decodeCompressed<T>(base64: string): Promise<T> {
 	// Restore standard base64 from base64url
 	const std = base64.replace(/-/g, '+').replace(/_/g, '/');
 	const binary = atob(std);
@@ -716,7 +1002,22 @@ export async function loadFromBase64(base64: string): Promise<SaveData> {
 	}
 	const decompressed = await decompress(bytes);
 	const json = new TextDecoder().decode(decompressed);
-	return JSON.parse(json) as SaveData;
+	return JSON.parse(json) as T;
+}
+
+/**
+ * Encode save data as a compressed, base64url string (URL-safe, no padding).
+ */
+export async function saveToBase64(state: GameState): Promise<string> {
+	await captureWorkspace();
+	return encodeCompressed(serializeState(state));
+}
+
+/**
+ * Decode a base64url string into SaveData.
+ */
+export async function loadFromBase64(base64: string): Promise<SaveData> {
+	return decodeCompressed<SaveData>(base64);
 }
 
 /**
@@ -765,12 +1066,36 @@ export function uploadSave(): Promise<SaveData> {
   });
 }
 
+/**
+ * A loaded factory saved against a VM snapshot runs on that snapshot from the
+ * next boot on, when this browser has it.
+ */
+async function adoptFactorySnapshot(): Promise<void> {
+  const name = getFactorySnapshot();
+  if (!name || name === getBootedSnapshot()) return;
+  try {
+    if (!(await hasSnapshot(name))) {
+      emitGameEvent('toast', { message: `This factory expects VM snapshot "${name}", which isn't saved in this browser` });
+      return;
+    }
+  } catch (e) {
+    log.error('Failed to look up snapshot:', e);
+    return;
+  }
+  if (getBootSnapshot() === name) return;
+  setBootSnapshot(name);
+  emitGameEvent('toast', { message: `Reload to boot this factory's VM snapshot "${name}"` });
+}
+
 export function setupSaveLoadHandlers(
   state: GameState,
 ): void {
   onGameEvent('clearAll', () => clearState(state));
 
-  onGameEvent('requestSave', () => downloadSave(state));
+  onGameEvent('requestSave', async () => {
+    await captureWorkspace();
+    downloadSave(state);
+  });
 
   onGameEvent('requestLoad', async () => {
     try {
@@ -809,6 +1134,7 @@ export function setupSaveLoadHandlers(
     };
     const msg = messages[source];
     if (msg) emitGameEvent('toast', { message: msg });
+    adoptFactorySnapshot();
   });
 
   onGameEvent('loadPresetByName', ({ id }) => {
@@ -8,6 +8,7 @@ export interface Settings {
   machineVolume: number;
   toneVolume: number;
   photoTextures: boolean;
+  fixedTimestep: boolean;
 }
 
 const DEFAULTS: Settings = {
@@ -18,6 +19,7 @@ const DEFAULTS: Settings = {
   machineVolume: 1,
   toneVolume: 0.5,
   photoTextures: false,
+  fixedTimestep: false,
 };
 
 export function loadSettings(): Settings {
@@ -0,0 +1,112 @@
+import { createLogger } from './logger';
+
+const log = createLogger('Snapshots');
+
+const DB_NAME = 'bashtorio';
+const DB_VERSION = 1;
+/** Name, size and date per snapshot, so listing never loads a state */
+const INFO_STORE = 'vm-snapshot-info';
+const STATE_STORE = 'vm-snapshot-state';
+const BOOT_KEY = 'bashtorio_boot_snapshot';
+
+/**
+ * A saved VM: memory, devices and the 9p filesystem, so packages installed
+ * with `apk` and files outside the workspace come back with it.
+ */
+export interface VMSnapshotInfo {
+  name: string;
+  createdAt: number;
+  /** Bytes of saved state */
+  size: number;
+}
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(INFO_STORE, { keyPath: 'name' });
+      req.result.createObjectStore(STATE_STORE);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Run `fn` in one transaction over both stores; resolves with its result once committed. */
+async function transact<T>(
+  mode: IDBTransactionMode,
+  fn: (info: IDBObjectStore, state: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T> {
+  const db = await openDB();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction([INFO_STORE, STATE_STORE], mode);
+      const req = fn(tx.objectStore(INFO_STORE), tx.objectStore(STATE_STORE));
+      tx.oncomplete = () => resolve(req ? req.result : undefined as T);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error ?? new Error('Snapshot transaction aborted'));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Library (IndexedDB)
+// ---------------------------------------------------------------------------
+
+/** Every stored snapshot, newest first. */
+export async function listSnapshots(): Promise<VMSnapshotInfo[]> {
+  const list = await transact<VMSnapshotInfo[]>('readonly', info => info.getAll());
+  return list.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function hasSnapshot(name: string): Promise<boolean> {
+  return (await transact<IDBValidKey | undefined>('readonly', info => info.getKey(name))) !== undefined;
+}
+
+/** The saved state for `name`, or null if there is none. */
+export async function loadSnapshot(name: string): Promise<ArrayBuffer | null> {
+  return (await transact<ArrayBuffer | undefined>('readonly', (_, state) => state.get(name))) ?? null;
+}
+
+/** Store a VM state under `name`, replacing any snapshot already called that. */
+export async function storeSnapshot(name: string, data: ArrayBuffer): Promise<VMSnapshotInfo> {
+  const info: VMSnapshotInfo = { name, createdAt: Date.now(), size: data.byteLength };
+  await transact('readwrite', (infoStore, state) => {
+    infoStore.put(info);
+    state.put(data, name);
+  });
+  log.info(`Stored snapshot "${name}" (${(data.byteLength / 1048576).toFixed(1)} MB)`);
+  return info;
+}
+
+export async function deleteSnapshot(name: string): Promise<void> {
+  await transact('readwrite', (info, state) => {
+    info.delete(name);
+    state.delete(name);
+  });
+  if (getBootSnapshot() === name) setBootSnapshot(null);
+}
+
+// ---------------------------------------------------------------------------
+// Boot choice (localStorage)
+// ---------------------------------------------------------------------------
+
+/** Snapshot the next session boots from; null boots the stock image. */
+export function getBootSnapshot(): string | null {
+  try {
+    return localStorage.getItem(BOOT_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setBootSnapshot(name: string | null): void {
+  try {
+    if (name) localStorage.setItem(BOOT_KEY, name);
+    else localStorage.removeItem(BOOT_KEY);
+  } catch (e) {
+    log.error('Failed to store boot snapshot choice:', e);
+  }
+}
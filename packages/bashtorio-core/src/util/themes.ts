@@ -193,6 +193,7 @@ function fromPalette(p: ThemePalette): ColorTheme {
 			[MachineType.LATCH]:      mc(p.blue),
 
 			[MachineType.SPLITTER]:   mc(p.purple),
+			[MachineType.MERGER]:     mc(p.purple),
 			[MachineType.SEVENSEG]:   { bg: '#000000', border: p.fg, text: p.red },
 			[MachineType.DRUM]:       mc(p.orange),
 			[MachineType.TONE]:       mc(p.purple),
@@ -203,6 +204,11 @@ function fromPalette(p: ThemePalette): ColorTheme {
 			[MachineType.PUNCHCARD]:  mc(p.yellow),
 			[MachineType.TNT]:        mc(p.red),
 			[MachineType.BUTTON]:     { bg: '#000000', border: p.fg, text: '#ccc' },
+			[MachineType.FILESOURCE]: mc(p.green),
+			[MachineType.FILESINK]:   mc(p.orange),
+
+			[MachineType.PORT]:       mc(p.cyan),
+			[MachineType.COMPOSITE]:  { bg: p.bg3, border: p.accent, text: p.fg },
 		},
 		uiBg: p.bg,
 		uiBgSurface: p.bg2,
@@ -281,6 +287,7 @@ function fromLightPalette(p: ThemePalette): ColorTheme {
 			[MachineType.CLOCK]:      mcLight(p.pink),
 			[MachineType.LATCH]:      mcLight(p.blue),
 			[MachineType.SPLITTER]:   mcLight(p.purple),
+			[MachineType.MERGER]:     mcLight(p.purple),
 			[MachineType.SEVENSEG]:   { bg: '#f5f5f5', border: p.fg, text: p.red },
 			[MachineType.DRUM]:       mcLight(p.orange),
 			[MachineType.TONE]:       mcLight(p.purple),
@@ -291,6 +298,10 @@ function fromLightPalette(p: ThemePalette): ColorTheme {
 			[MachineType.PUNCHCARD]:  mcLight(p.yellow),
 			[MachineType.TNT]:        mcLight(p.red),
 			[MachineType.BUTTON]:     { bg: p.bg, border: p.fg, text: p.fg },
+			[MachineType.FILESOURCE]: mcLight(p.green),
+			[MachineType.FILESINK]:   mcLight(p.orange),
+			[MachineType.PORT]:       mcLight(p.cyan),
+			[MachineType.COMPOSITE]:  { bg: p.bg2, border: p.accent, text: p.fg },
 		},
 		uiBg: p.bg,
 		uiBgSurface: p.bg2,
@@ -370,6 +381,7 @@ const MIDNIGHT: ColorTheme = {
 		[MachineType.LATCH]:      { bg: '#2a3a5a', border: '#4a6a9a', text: '#ccc' },
 
 		[MachineType.SPLITTER]:   { bg: '#3a2a4a', border: '#8a6aaa', text: '#ccc' },
+		[MachineType.MERGER]:     { bg: '#3a2a4a', border: '#8a6aaa', text: '#ccc' },
 		[MachineType.SEVENSEG]:   { bg: '#000000', border: '#ffffff', text: '#ff0000' },
 		[MachineType.DRUM]:       { bg: '#4a3a2a', border: '#aa7744', text: '#ffcc66' },
 		[MachineType.TONE]:       { bg: '#3a2a5a', border: '#7a4aaa', text: '#cc99ff' },
@@ -380,6 +392,11 @@ const MIDNIGHT: ColorTheme = {
 		[MachineType.PUNCHCARD]:  { bg: '#4a4a2a', border: '#8a8a4a', text: '#ddcc88' },
 		[MachineType.TNT]:        { bg: '#5a2020', border: '#aa4444', text: '#ffaaaa' },
 		[MachineType.BUTTON]:     { bg: '#000000', border: '#ffffff', text: '#ccc' },
+		[MachineType.FILESOURCE]: { bg: '#2a4a2a', border: '#5a9a5a', text: '#aaddaa' },
+		[MachineType.FILESINK]:   { bg: '#4a3a2a', border: '#9a7a4a', text: '#ddbb88' },
+
+		[MachineType.PORT]:       { bg: '#1a3a4a', border: '#3a8aaa', text: '#88ddff' },
+		[MachineType.COMPOSITE]:  { bg: '#2a2a4a', border: '#6a5acd', text: '#ddd' },
 	},
 	uiBg: '#1a1a2e',
 	uiBgSurface: '#1e1e32',
@@ -1,5 +1,5 @@
-import { V86Bridge } from './bridge';
-import { ShellInstance } from './shell';
+import { V86Bridge, type TreeFile, type DirEntry } from './bridge';
+import { ShellInstance, type ShellHost } from './shell';
 import { createLogger } from '../util/logger';
 
 const log = createLogger('VM');
@@ -17,6 +17,8 @@ export interface VMConfig {
 	screenContainer: HTMLElement;
 	/** Pre-downloaded ArrayBuffers keyed by URL (from preload progress bar) */
 	preloadBuffers?: Record<string, ArrayBuffer>;
+	/** A saved VM state to boot from instead of the stock one at vmStateUrl */
+	snapshot?: ArrayBuffer;
 	/** Status callback during boot */
 	onStatus?: (status: string) => void;
 }
@@ -25,7 +27,7 @@ export interface VMConfig {
  * Facade composing V86Bridge + ShellInstance creation.
  * Preserves the public API surface that game/vm.ts consumes.
  */
-export class LinuxVM {
+export class LinuxVM implements ShellHost {
 	private bridge = new V86Bridge();
 
 	// ---------------------------------------------------------------------------
@@ -44,12 +46,45 @@ export class LinuxVM {
 	// Shell lifecycle
 	// ---------------------------------------------------------------------------
 
-	async createShell(initialCwd?: string): Promise<ShellInstance> {
+	async createShell(initialCwd?: string, env?: Record<string, string>): Promise<ShellInstance> {
 		const shell = new ShellInstance(this.bridge);
-		await shell.start(initialCwd);
+		await shell.start(initialCwd, env);
 		return shell;
 	}
 
+	// ---------------------------------------------------------------------------
+	// Guest files
+	// ---------------------------------------------------------------------------
+
+	listDir(path: string): DirEntry[] | null {
+		return this.bridge.listDir(this.bridge.hostPath(path));
+	}
+
+	readFile(path: string): Promise<Uint8Array> {
+		return this.bridge.readFile(this.bridge.hostPath(path));
+	}
+
+	async writeFile(path: string, data: Uint8Array): Promise<void> {
+		const host = this.bridge.hostPath(path);
+		const slash = host.lastIndexOf('/');
+		if (slash > 0) this.bridge.ensure9pDir(host.slice(0, slash));
+		await this.bridge.createFile(host, data);
+	}
+
+	// ---------------------------------------------------------------------------
+	// Workspace
+	// ---------------------------------------------------------------------------
+
+	/** Read every file in the factory workspace. */
+	captureWorkspace(): Promise<TreeFile[]> {
+		return this.bridge.readTree(this.bridge.workspacePrefix);
+	}
+
+	/** Replace the factory workspace with `files`. */
+	restoreWorkspace(files: TreeFile[]): Promise<void> {
+		return this.bridge.writeTree(this.bridge.workspacePrefix, files);
+	}
+
 	// ---------------------------------------------------------------------------
 	// State / keyboard
 	// ---------------------------------------------------------------------------
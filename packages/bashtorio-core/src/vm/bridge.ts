@@ -20,9 +20,95 @@ const RELAY_STORAGE_KEY = 'bashtorio_relay_url';
 // Guest filesystem paths
 const GUEST_BASE = '/tmp/bashtorio';
 const GUEST_JOBS = `${GUEST_BASE}/jobs`;
+const GUEST_CTL = `${GUEST_BASE}/ctl`;
+const GUEST_AGENT = `${GUEST_BASE}/agent.sh`;
+const GUEST_AGENT_PID = `${GUEST_BASE}/agent.pid`;
+/** The loaded factory's files; Shell machines start here unless given another cwd */
+export const GUEST_WORKSPACE = `${GUEST_BASE}/workspace`;
 // 9p host-side paths (relative to 9p root, no leading slash)
 const HOST_BASE = 'tmp/bashtorio';
 const HOST_JOBS = `${HOST_BASE}/jobs`;
+const HOST_CTL = `${HOST_BASE}/ctl`;
+const HOST_AGENT = `${HOST_BASE}/agent.sh`;
+const HOST_WORKSPACE = `${HOST_BASE}/workspace`;
+
+const S_IFMT = 0xF000;
+const S_IFDIR = 0x4000;
+const S_IFREG = 0x8000;
+
+/**
+ * Guest-side control agent. Requests arrive in the ctl directory as
+ * `<seq>.<kind>.<shell id>` and are handled strictly in sequence order:
+ * `in` is queued for the shell's stdin FIFO, `sh` is run as a script.
+ * Files still being written are dot-prefixed, so the glob skips them.
+ *
+ * Writing a FIFO blocks while its shell is busy, so each shell gets its own
+ * background `feed` that drains its queue (`<id>_in/`) in order. The agent
+ * itself only moves files, and a shell that stops reading holds up nobody
+ * else's input, nor the kills sent by interrupt() and stop().
+ *
+ * Every loop polls every 10ms while it has work, and slows to every 100ms
+ * after ten empty polls, so idle shells cost the guest little CPU.
+ */
+const AGENT_SCRIPT = `cd ${GUEST_CTL} || exit 1
+idle=0
+nap() {
+  if [ -n "$busy" ]; then idle=0; else idle=$((idle + 1)); fi
+  if [ $idle -lt 10 ]; then sleep 0.01; else sleep 0.1; fi
+}
+feed() {
+  q=${GUEST_JOBS}/$1_in
+  idle=0
+  while [ -p ${GUEST_JOBS}/$1_fifo ]; do
+    busy=
+    for g in "$q"/[0-9]*; do
+      [ -e "$g" ] || continue
+      busy=1
+      cat "$g" > ${GUEST_JOBS}/$1_fifo
+      rm -f "$g"
+    done
+    nap
+  done
+  rm -rf "$q" ${GUEST_JOBS}/$1_in_pid
+}
+while :; do
+  busy=
+  for f in [0-9]*; do
+    [ -e "$f" ] || continue
+    busy=1
+    id=\${f#*.*.}
+    case "$f" in
+      *.in.*)
+        if [ -p ${GUEST_JOBS}/\${id}_fifo ]; then
+          if [ ! -d ${GUEST_JOBS}/\${id}_in ]; then
+            mkdir ${GUEST_JOBS}/\${id}_in
+            feed "$id" & echo $! > ${GUEST_JOBS}/\${id}_in_pid
+          fi
+          mv "$f" ${GUEST_JOBS}/\${id}_in/
+        fi ;;
+      *.sh.*) sh "$f" ;;
+    esac
+    rm -f "$f"
+  done
+  nap
+done
+`;
+
+/** A regular file under some 9p directory, with its path relative to that directory */
+export interface TreeFile {
+  path: string;
+  data: Uint8Array;
+}
+
+/** One entry of a 9p directory listing */
+export interface DirEntry {
+  name: string;
+  dir: boolean;
+  size: number;
+}
+
+/** Request kinds understood by the guest agent */
+export type ControlKind = 'in' | 'sh';
 
 /**
  * Low-level wrapper around the v86 emulator.
@@ -33,6 +119,7 @@ export class V86Bridge {
   private _ready = false;
   private _fs9pReady = false;
   private _networkRelay: string | null = null;
+  private controlSeq = 0;
 
   get ready(): boolean { return this._ready; }
   get fs9pReady(): boolean { return this._fs9pReady; }
@@ -44,6 +131,12 @@ export class V86Bridge {
   /** Guest filesystem path for job/shell files */
   get guestJobDir(): string { return GUEST_JOBS; }
 
+  /** 9p host-side path of the factory workspace */
+  get workspacePrefix(): string { return HOST_WORKSPACE; }
+
+  /** Guest filesystem path of the factory workspace */
+  get guestWorkspaceDir(): string { return GUEST_WORKSPACE; }
+
   // ---------------------------------------------------------------------------
   // Lifecycle
   // ---------------------------------------------------------------------------
@@ -51,15 +144,17 @@ export class V86Bridge {
   async init(config: VMConfig): Promise<void> {
     const {
       vmAssetsUrl, vmStateUrl, rootfsBaseUrl,
-      rootfsManifest, screenContainer, preloadBuffers, onStatus = () => {},
+      rootfsManifest, screenContainer, preloadBuffers, snapshot, onStatus = () => {},
     } = config;
 
     const networkRelayUrl = localStorage.getItem(RELAY_STORAGE_KEY) || DEFAULT_RELAY_URL;
     const stateUrl = vmStateUrl.startsWith('http') ? vmStateUrl : `${vmAssetsUrl}/${vmStateUrl}`;
 
-    // Resolve state buffer: preloaded → gzip fetch → direct URL fallback
-    let stateBuffer = preloadBuffers?.[stateUrl];
-    if (stateBuffer) {
+    // Resolve state buffer: user snapshot → preloaded → gzip fetch → direct URL fallback
+    let stateBuffer = snapshot ?? preloadBuffers?.[stateUrl];
+    if (snapshot) {
+      log.info(`Booting from saved snapshot (${(snapshot.byteLength / 1048576).toFixed(1)} MB)`);
+    } else if (stateBuffer) {
       log.info(`Using preloaded state buffer (${(stateBuffer.byteLength / 1048576).toFixed(1)} MB)`);
     } else {
       log.warn(`Preloaded buffer not found for "${stateUrl}", keys: [${preloadBuffers ? Object.keys(preloadBuffers).join(', ') : 'none'}]`);
@@ -184,11 +279,41 @@ export class V86Bridge {
     return this.emulator.read_file(path);
   }
 
+  /**
+   * Read at most `maxBytes` of a 9p file starting at `offset`. Unlike
+   * readFile this never copies the bytes before `offset`, so polling a
+   * growing file costs only what is new.
+   */
+  async readFileRange(path: string, offset: number, maxBytes: number): Promise<Uint8Array> {
+    const fs = this.emulator?.fs9p;
+    if (!fs) throw new Error('Emulator not initialized');
+    const id = fs.SearchPath(path).id;
+    if (id === -1) throw new Error(`9p: no such file ${path}`);
+    const size = fs.inodes[id].size;
+    if (offset >= size) return new Uint8Array(0);
+    return (await fs.Read(id, offset, Math.min(maxBytes, size - offset))) ?? new Uint8Array(0);
+  }
+
   createFile(path: string, data: Uint8Array): Promise<void> {
     if (!this.emulator) return Promise.reject(new Error('Emulator not initialized'));
     return this.emulator.create_file(path, data);
   }
 
+  /**
+   * Hand a request to the guest agent over 9p. The file is written under a
+   * dot-name and renamed into place once complete. Sequence numbers are taken
+   * synchronously, so requests run in the order this is called.
+   */
+  async sendControl(kind: ControlKind, target: string, data: Uint8Array): Promise<void> {
+    const fs = this.emulator?.fs9p;
+    if (!fs) throw new Error('Emulator not initialized');
+    const name = `${String(this.controlSeq++).padStart(10, '0')}.${kind}.${target}`;
+    log.debug(`sendControl ${name} (${data.byteLength}b)`);
+    await this.createFile(`${HOST_CTL}/.${name}`, data);
+    const dirId = fs.SearchPath(HOST_CTL).id;
+    await fs.Rename(dirId, `.${name}`, dirId, name);
+  }
+
   ensure9pDir(path: string): void {
     const fs = this.emulator?.fs9p;
     if (!fs) return;
@@ -204,6 +329,65 @@ export class V86Bridge {
     }
   }
 
+  /** 9p path of an absolute guest path; the guest's root is the 9p root */
+  hostPath(guestPath: string): string {
+    return guestPath.replace(/^\/+/, '');
+  }
+
+  /** Entries of a 9p directory, directories first; null if it isn't one. */
+  listDir(dir: string): DirEntry[] | null {
+    const fs = this.emulator?.fs9p;
+    if (!fs) return null;
+    const id = dir ? fs.SearchPath(dir).id : 0;
+    if (id === -1 || (fs.inodes[id].mode & S_IFMT) !== S_IFDIR) return null;
+
+    const entries: DirEntry[] = [];
+    for (const [name, childId] of fs.inodes[id].direntries) {
+      if (name === '.' || name === '..') continue;
+      const child = fs.inodes[childId];
+      entries.push({ name, dir: (child.mode & S_IFMT) === S_IFDIR, size: child.size });
+    }
+    return entries.sort((a, b) => Number(b.dir) - Number(a.dir) || a.name.localeCompare(b.name));
+  }
+
+  /** Every regular file below a 9p directory, read in full. */
+  async readTree(dir: string): Promise<TreeFile[]> {
+    const fs = this.emulator?.fs9p;
+    if (!fs) throw new Error('Emulator not initialized');
+    const rootId = fs.SearchPath(dir).id;
+    if (rootId === -1) return [];
+
+    const paths: string[] = [];
+    const walk = (id: number, prefix: string) => {
+      for (const [name, childId] of fs.inodes[id].direntries) {
+        if (name === '.' || name === '..') continue;
+        const type = fs.inodes[childId].mode & S_IFMT;
+        if (type === S_IFDIR) walk(childId, `${prefix}${name}/`);
+        else if (type === S_IFREG) paths.push(`${prefix}${name}`);
+      }
+    };
+    walk(rootId, '');
+
+    const files: TreeFile[] = [];
+    for (const path of paths) {
+      files.push({ path, data: await this.readFile(`${dir}/${path}`) });
+    }
+    return files;
+  }
+
+  /** Replace everything below a 9p directory with `files`. */
+  async writeTree(dir: string, files: TreeFile[]): Promise<void> {
+    const fs = this.emulator?.fs9p;
+    if (!fs) throw new Error('Emulator not initialized');
+    this.ensure9pDir(dir);
+    fs.RecursiveDelete(dir);
+    for (const file of files) {
+      const slash = file.path.lastIndexOf('/');
+      if (slash > 0) this.ensure9pDir(`${dir}/${file.path.slice(0, slash)}`);
+      await this.createFile(`${dir}/${file.path}`, file.data);
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // State
   // ---------------------------------------------------------------------------
@@ -241,10 +425,18 @@ export class V86Bridge {
     log.info('Setting up 9p job directory...');
     onStatus('Setting up 9p job directory...');
     this.ensure9pDir(HOST_JOBS);
+    this.ensure9pDir(HOST_CTL);
+    this.ensure9pDir(HOST_WORKSPACE);
+    await this.createFile(HOST_AGENT, new TextEncoder().encode(AGENT_SCRIPT));
     log.info('Created 9p job directory');
     onStatus('Created 9p job directory');
     const ready = this.waitForSerial(marker);
-    this.emulator.serial0_send(`mkdir -p ${GUEST_JOBS} && echo ${marker}\n`);
+    // A saved snapshot comes back with its agent and shells still running; clear them out first
+    const stale = `(kill $(cat ${GUEST_AGENT_PID} ${GUEST_JOBS}/*_pid 2>/dev/null) 2>/dev/null; rm -rf ${GUEST_JOBS}/*; true)`;
+    // The serial console is only used to bring up the control agent; shells talk over 9p
+    this.emulator.serial0_send(
+      `mkdir -p ${GUEST_JOBS} ${GUEST_CTL} ${GUEST_WORKSPACE} && ${stale} && rm -f ${GUEST_CTL}/* && (sh ${GUEST_AGENT} >/dev/null 2>&1 & echo $! > ${GUEST_AGENT_PID}) && echo ${marker}\n`,
+    );
     await ready;
     this._fs9pReady = true;
     log.info('9p filesystem ready');
@@ -255,7 +447,6 @@ export class V86Bridge {
     const fs = this.emulator?.fs9p;
     if (!fs) { log.debug('9p: no filesystem'); return; }
 
-    const S_IFDIR = 0x4000;
     const lines: string[] = [];
 
     const walk = (id: number, prefix: string, depth: number) => {
@@ -9,3 +9,19 @@ export function encodeHex(text: string): string {
 export function shellEscape(text: string): string {
   return text.replace(/'/g, "'\\''");
 }
+
+/**
+ * Escape a binary string for `printf '%b' '...'`. Printable ASCII passes
+ * through; every other byte, plus quotes and backslashes, becomes an octal
+ * escape, so NUL and non-UTF-8 input survive the trip.
+ */
+export function printfEscape(bin: string): string {
+  let out = '';
+  for (let i = 0; i < bin.length; i++) {
+    const code = bin.charCodeAt(i) & 0xFF;
+    out += code >= 0x20 && code < 0x7F && code !== 0x27 && code !== 0x5C
+      ? bin[i]
+      : `\\0${code.toString(8).padStart(3, '0')}`;
+  }
+  return out;
+}
@@ -2,5 +2,9 @@ export { LinuxVM } from './LinuxVM';
 export type { VMConfig } from './LinuxVM';
 export { V86Bridge } from './bridge';
 export { ShellInstance } from './shell';
-export { encodeHex, shellEscape } from './commands';
+export { encodeHex, shellEscape, printfEscape } from './commands';
 export { MarkerShell } from './markerShell';
+export { ReplShell } from './replShell';
+export { installPackages, parsePackageList, isPackageName, GUEST_PACKAGE_REPO } from './packages';
+export { StubShell, StubShellHost } from './stubShell';
+export type { StubCommandHandler } from './stubShell';
@@ -1,61 +1,84 @@
-import type { ShellInstance } from './shell'
-import { shellEscape } from './commands'
+import type { Shell } from './shell'
+import { shellEscape, printfEscape } from './commands'
+import { utf8ToBinary } from '../util/bytes'
+
+/** Output of one marker-wrapped command and its exit status */
+export interface MarkerResult {
+  output: string
+  exitCode: number
+}
+
+/** `(ulimit -t N; <cmd>)`, so the limit dies with the subshell instead of sticking to the shell */
+function limitCpu(cmd: string, seconds: number): string {
+  return seconds > 0 ? `(ulimit -t ${Math.ceil(seconds)}; ${cmd})` : cmd
+}
 
 /**
- * Thin wrapper around a ShellInstance that encapsulates the
- * `__S_N__` / `__E_N__` marker protocol used by non-stream COMMAND machines.
+ * Thin wrapper around a Shell that encapsulates the
+ * `__S_N__` / `__E_N_<status>__` marker protocol used by non-stream COMMAND machines.
  *
  * Owns the command counter, raw output buffer, and marker parsing logic —
- * keeping simulation.ts focused on orchestration.
+ * keeping simulation.ts focused on orchestration. Input and output are binary
+ * strings; pipe-mode input is octal-escaped so any byte reaches the command.
  */
 export class MarkerShell {
-  private shell: ShellInstance
+  private shell: Shell
   private counter = 0
   private rawBuffer = ''
   private _lastExecTime = 0
 
-  constructor(shell: ShellInstance) {
+  constructor(shell: Shell) {
     this.shell = shell
   }
 
-  /** Timestamp (performance.now()) of the most recent exec/execBare call */
+  /** When the most recent exec/execBare call ran, on the caller's clock (performance.now() by default) */
   get lastExecTime(): number { return this._lastExecTime }
 
-  /** Wrap a command with input and markers, write to shell */
-  exec(command: string, input: string, inputMode: 'pipe' | 'args'): void {
+  /** Output read so far that no complete marker pair has claimed yet */
+  get pendingBytes(): number { return this.rawBuffer.length }
+
+  /**
+   * Wrap a command with input and markers, write to shell. A `cpuLimit`
+   * (seconds) runs it in a subshell under `ulimit -t`; `at` is stamped as
+   * `lastExecTime`.
+   */
+  exec(command: string, input: string, inputMode: 'pipe' | 'args', cpuLimit = 0, at = performance.now()): void {
     const n = this.counter++
     const startM = `__S_${n}__`
-    const endM = `__E_${n}__`
+    const endM = `__E_${n}_`
 
+    // Arguments can't carry NUL; every other byte passes through the quotes
+    const bin = utf8ToBinary(command)
     let cmd: string
     if (inputMode === 'args') {
-      cmd = `${command} '${shellEscape(input)}'`
+      cmd = `${bin} '${shellEscape(input)}'`
     } else {
-      cmd = `printf '%s' '${shellEscape(input)}' | ${command}`
+      cmd = `printf '%b' '${printfEscape(input)}' | ${bin}`
     }
 
-    this._lastExecTime = performance.now()
-    this.shell.write(`echo '${startM}'; ${cmd}; echo '${endM}'\n`)
+    this._lastExecTime = at
+    this.shell.write(`echo '${startM}'; ${limitCpu(cmd, cpuLimit)}; echo "${endM}$?__"\n`)
   }
 
   /** Wrap a bare command (no input) with markers, write to shell */
-  execBare(command: string): void {
+  execBare(command: string, cpuLimit = 0, at = performance.now()): void {
     const n = this.counter++
     const startM = `__S_${n}__`
-    const endM = `__E_${n}__`
-    this._lastExecTime = performance.now()
-    this.shell.write(`echo '${startM}'; ${command}; echo '${endM}'\n`)
+    const endM = `__E_${n}_`
+    this._lastExecTime = at
+    this.shell.write(`echo '${startM}'; ${limitCpu(utf8ToBinary(command), cpuLimit)}; echo "${endM}$?__"\n`)
   }
 
   /**
-   * Read from shell, parse markers. Returns extracted output or null if
-   * no complete marker pair found yet.
+   * Read from shell (at most `maxBytes` this call), parse markers. Returns
+   * extracted output and exit status, or null if no complete marker pair
+   * found yet.
    */
-  async poll(): Promise<string | null> {
-    const output = await this.shell.read()
+  async poll(maxBytes?: number): Promise<MarkerResult | null> {
+    const output = await this.shell.read(maxBytes)
     if (output) this.rawBuffer += output
 
-    const endPattern = /__E_\d+__\n?/
+    const endPattern = /__E_\d+_(\d+)__\n?/
     const endMatch = this.rawBuffer.match(endPattern)
     if (!endMatch) return null
 
@@ -72,8 +95,8 @@ export class MarkerShell {
     const afterEnd = this.rawBuffer.substring(endIdx + endMatch[0].length)
     this.rawBuffer = beforeStart + afterEnd
 
-    if (cmdOutput.length === 0) return ''
-    return cmdOutput.endsWith('\n') ? cmdOutput : cmdOutput + '\n'
+    // Byte for byte what the command wrote, trailing newline or not
+    return { output: cmdOutput, exitCode: Number(endMatch[1]) }
   }
 
   /** Reset internal state (counter, buffer) */
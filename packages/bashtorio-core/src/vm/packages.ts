@@ -0,0 +1,100 @@
+import type { LinuxVM } from './LinuxVM';
+import { MarkerShell, type MarkerResult } from './markerShell';
+import { packageAsset } from '../util/assets';
+import { createLogger } from '../util/logger';
+
+const log = createLogger('Packages');
+
+/** Alpine architecture of the guest; v86 emulates 32-bit x86 */
+const ARCH = 'x86';
+/** Guest copy of the local repository; apk reads `<repo>/<arch>/APKINDEX.tar.gz` */
+export const GUEST_PACKAGE_REPO = '/var/cache/bashtorio/packages';
+const GUEST_ARCH_DIR = `${GUEST_PACKAGE_REPO}/${ARCH}`;
+
+/** Only the local copy is consulted: no network, no configured mirrors */
+const APK_ADD = `apk add --no-network --allow-untrusted --repositories-file /dev/null --repository ${GUEST_PACKAGE_REPO}`;
+const POLL_MS = 100;
+const INSTALL_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Alpine package names; anything else would be shell syntax */
+const PACKAGE_NAME = /^[a-zA-Z0-9][a-zA-Z0-9._+-]*$/;
+/** `(1/3) Installing oniguruma (6.9.9-r0)`, `(2/3) Upgrading musl (1.2.4-r1 -> 1.2.4-r2)` */
+const PLAN_LINE = /^\(\d+\/\d+\) (?:Installing|Upgrading|Replacing) (\S+) \((?:\S+ -> )?(\S+)\)/gm;
+
+export function isPackageName(name: string): boolean {
+  return PACKAGE_NAME.test(name);
+}
+
+/** Split a space- or comma-separated package list, dropping invalid names and repeats. */
+export function parsePackageList(text: string): string[] {
+  return [...new Set(text.split(/[\s,]+/).filter(isPackageName))];
+}
+
+async function run(marker: MarkerShell, command: string): Promise<MarkerResult> {
+  marker.execBare(`${command} 2>&1`);
+  const deadline = performance.now() + INSTALL_TIMEOUT_MS;
+  while (performance.now() < deadline) {
+    const result = await marker.poll();
+    if (result) return result;
+    await new Promise(r => setTimeout(r, POLL_MS));
+  }
+  throw new Error(`Timed out running: ${command}`);
+}
+
+/** apk's first ERROR line, which names the package it couldn't resolve */
+function apkFailure(result: MarkerResult): Error {
+  const lines = result.output.trim().split('\n');
+  return new Error(lines.find(l => l.startsWith('ERROR')) ?? (lines[lines.length - 1] || `apk exited with status ${result.exitCode}`));
+}
+
+async function fetchAsset(repoPath: string): Promise<Uint8Array> {
+  const url = packageAsset(repoPath);
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url}: ${res.status} ${res.statusText}`);
+  return new Uint8Array(await res.arrayBuffer());
+}
+
+/**
+ * Install Alpine packages from the local repository served at
+ * `packagesBase()`, without touching the network. The index goes into the
+ * guest first so apk itself resolves dependencies and skips what is already
+ * installed; only the `.apk` files in its plan are fetched, and files already
+ * copied in (by an earlier install, or kept in a VM snapshot) are reused.
+ */
+export async function installPackages(
+  vm: LinuxVM,
+  names: string[],
+  onStatus?: (status: string) => void,
+): Promise<void> {
+  const bad = names.filter(n => !isPackageName(n));
+  if (bad.length > 0) throw new Error(`Invalid package name: ${bad.join(' ')}`);
+  if (names.length === 0) return;
+
+  onStatus?.('Fetching package index...');
+  await vm.writeFile(`${GUEST_ARCH_DIR}/APKINDEX.tar.gz`, await fetchAsset(`${ARCH}/APKINDEX.tar.gz`));
+
+  const shell = await vm.createShell('/');
+  try {
+    const marker = new MarkerShell(shell);
+    const list = names.join(' ');
+
+    const plan = await run(marker, `${APK_ADD} --simulate ${list}`);
+    if (plan.exitCode !== 0) throw apkFailure(plan);
+
+    const cached = new Set(vm.listDir(GUEST_ARCH_DIR)?.map(e => e.name));
+    const files = [...plan.output.matchAll(PLAN_LINE)]
+      .map(([, name, version]) => `${name}-${version}.apk`)
+      .filter(file => !cached.has(file));
+    for (const [i, file] of files.entries()) {
+      onStatus?.(`Fetching ${file} (${i + 1}/${files.length})...`);
+      await vm.writeFile(`${GUEST_ARCH_DIR}/${file}`, await fetchAsset(`${ARCH}/${file}`));
+    }
+
+    onStatus?.(`Installing ${list}...`);
+    const result = await run(marker, `${APK_ADD} ${list}`);
+    if (result.exitCode !== 0) throw apkFailure(result);
+    log.info(`Installed ${list} (${files.length} fetched)`);
+  } finally {
+    await shell.stop();
+  }
+}
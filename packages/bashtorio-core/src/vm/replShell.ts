@@ -0,0 +1,90 @@
+import type { Shell } from './shell';
+import { utf8ToBinary } from '../util/bytes';
+
+/**
+ * Drives one long-lived interactive program (bc, sqlite3, python -i ...)
+ * inside a Shell, one input record at a time.
+ *
+ * The end of each response is found with `endPattern`, a multiline regex
+ * matched against the program's output:
+ * - with a `sentinel`, that line is written after every record and the
+ *   pattern matches what the program prints for it. This is the mode for
+ *   bc, sqlite3 and python -i, which print no prompt on stdout when their
+ *   input is a pipe: sentinel `.print __END__` for sqlite3,
+ *   `print "__END__\n"` for bc or `print("__END__")` for python -i, each
+ *   with pattern `^__END__\n`;
+ * - without one, the pattern is a prompt the program prints before every
+ *   input, including the first, so nothing is sent until it has appeared.
+ *   Only programs that still prompt when reading a pipe fit here;
+ * - with neither, each output line is one response.
+ *
+ * Input and output are binary strings (see util/bytes).
+ */
+export class ReplShell {
+  private shell: Shell;
+  private endPattern: RegExp | null;
+  private sentinel: string;
+  private rawBuffer = '';
+  private _ready: boolean;
+  private _lastSendTime = 0;
+
+  /** Throws if `endPattern` is not a valid regex. */
+  constructor(shell: Shell, endPattern: string, sentinel: string) {
+    this.shell = shell;
+    this.endPattern = endPattern ? new RegExp(utf8ToBinary(endPattern), 'm') : null;
+    this.sentinel = utf8ToBinary(sentinel);
+    this._ready = !this.endPattern || this.sentinel !== '';
+  }
+
+  /** False until a prompt-delimited program has shown its first prompt */
+  get ready(): boolean { return this._ready; }
+
+  /** When the most recent send() ran, on the caller's clock (performance.now() by default) */
+  get lastSendTime(): number { return this._lastSendTime; }
+
+  /** Launch the program; it keeps running for the rest of the run. */
+  start(command: string): void {
+    this.shell.write(`stdbuf -o0 ${utf8ToBinary(command)}\n`);
+  }
+
+  /** Feed one record (without its trailing newline), stamping `at` as `lastSendTime`. */
+  send(record: string, at = performance.now()): void {
+    this._lastSendTime = at;
+    this.shell.write(this.sentinel ? `${record}\n${this.sentinel}\n` : `${record}\n`);
+  }
+
+  /**
+   * Read from the shell (at most `maxBytes` this call) and cut off the next
+   * complete response. Returns null while it is still arriving, and while
+   * waiting for the first prompt.
+   */
+  async poll(maxBytes?: number): Promise<string | null> {
+    const output = await this.shell.read(maxBytes);
+    if (output) this.rawBuffer += output;
+
+    const response = this.takeResponse();
+    if (response === null || this._ready) return response;
+
+    // Whatever preceded the first prompt is a banner, not an answer
+    this._ready = true;
+    return this.takeResponse();
+  }
+
+  private takeResponse(): string | null {
+    if (!this.endPattern) {
+      const nl = this.rawBuffer.indexOf('\n');
+      if (nl === -1) return null;
+      const line = this.rawBuffer.slice(0, nl + 1);
+      this.rawBuffer = this.rawBuffer.slice(nl + 1);
+      return line;
+    }
+
+    // An empty match can't mark an end: it would never consume anything
+    const match = this.endPattern.exec(this.rawBuffer);
+    if (!match || match[0].length === 0) return null;
+    const response = this.rawBuffer.slice(0, match.index);
+    this.rawBuffer = this.rawBuffer.slice(match.index + match[0].length);
+    if (response.length === 0) return '';
+    return response.endsWith('\n') ? response : response + '\n';
+  }
+}
@@ -1,22 +1,65 @@
 import type { V86Bridge } from './bridge';
-import { encodeHex } from './commands';
 import { createLogger } from '../util/logger';
+import { bytesToBinary, binaryToBytes } from '../util/bytes';
+import { shellEscape } from './commands';
 
 const log = createLogger('Shell');
 
 let shellIdCounter = 0;
 
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Shell function that SIGKILLs every descendant of pid $1, deepest first */
+const KILL_TREE = 'k() { for c in $(pgrep -P "$1"); do k "$c"; kill -9 "$c" 2>/dev/null; done; }';
+
+/** Default upper bound on bytes returned by one read()/readErr() */
+export const READ_CHUNK_BYTES = 4096;
+
+/**
+ * What the simulation needs from a shell: a byte pipe in, stdout/stderr out.
+ * All data is binary strings (one byte per char, see util/bytes).
+ */
+export interface Shell {
+  readonly id: string;
+  readonly started: boolean;
+  write(text: string): void;
+  /** New stdout since the last read, at most `maxBytes` of it */
+  read(maxBytes?: number): Promise<string>;
+  readErr(maxBytes?: number): Promise<string>;
+  getCwd(): Promise<string>;
+  /** Kill whatever the shell is running, leaving the shell itself alive */
+  interrupt(): Promise<void>;
+  stop(): Promise<void>;
+}
+
+/**
+ * Something that can hand out shells: the real LinuxVM, or a stand-in
+ * (see StubShellHost) for runs without an emulator.
+ */
+export interface ShellHost {
+  readonly ready: boolean;
+  readonly fs9pReady: boolean;
+  createShell(initialCwd?: string, env?: Record<string, string>): Promise<Shell>;
+  /** Whole contents of an absolute guest path */
+  readFile(path: string): Promise<Uint8Array>;
+  /** Create or replace an absolute guest path, making parent directories */
+  writeFile(path: string, data: Uint8Array): Promise<void>;
+}
+
 /**
  * A persistent FIFO-based `sh` process running inside the VM guest.
  *
  * On `start()`, creates a named pipe (FIFO) and launches `sh` reading from it,
- * with stdout+stderr redirected to an output file readable via 9p.
+ * with stdout and stderr redirected to files readable via 9p. Everything sent
+ * to the guest goes through the bridge's 9p control channel, not the serial
+ * console.
  *
  * - `write(text)` sends data to the shell's stdin via the FIFO.
- * - `read()` returns new output bytes since the last read (non-blocking).
+ * - `read()` returns new output bytes since the last read (non-blocking),
+ *   reading from a byte offset so each poll costs only what is new.
  * - `getCwd()` queries the shell's current working directory.
  */
-export class ShellInstance {
+export class ShellInstance implements Shell {
   readonly id: string;
   private bridge: V86Bridge;
   private bytesRead = 0;
@@ -43,11 +86,12 @@ export class ShellInstance {
 
   /**
    * Start the shell process in the guest.
-   * Pre-creates the output file via 9p, sends setup command via serial.
-   * Uses the same FIFO pattern as the old startStream: stdbuf -o0 sh <> FIFO > OUT 2>&1
+   * Pre-creates the output files via 9p, then queues the setup script on the control channel.
+   * Uses the same FIFO pattern as the old startStream: stdbuf -o0 sh <> FIFO > OUT 2>&1,
+   * exec'd so the pid file names the shell itself rather than a wrapping subshell.
    * No blocking wait — the shell is ready by the next poll cycle.
    */
-  async start(initialCwd = '/'): Promise<void> {
+  async start(initialCwd = '/', env: Record<string, string> = {}): Promise<void> {
     log.debug(`${this.id} starting (cwd: ${initialCwd}, jobPrefix: ${this.bridge.jobPrefix}, guestDir: ${this.bridge.guestJobDir})`);
 
     // Ensure host-side 9p directory exists and pre-create empty output + error files
@@ -59,10 +103,15 @@ export class ShellInstance {
     const out = this.guestPath('out');
     const err = this.guestPath('err');
     const pid = this.guestPath('pid');
-    const cmd = `mkfifo ${fifo}; (cd ${initialCwd} 2>/dev/null || cd /; stdbuf -o0 sh <> ${fifo} > ${out} 2> ${err}) & echo $! > ${pid}`;
+    // $WORKSPACE always points at the factory's files; names that aren't valid identifiers are dropped
+    const exports = Object.entries({ WORKSPACE: this.bridge.guestWorkspaceDir, ...env })
+      .filter(([name]) => ENV_NAME.test(name))
+      .map(([name, value]) => `export ${name}='${shellEscape(value)}'; `)
+      .join('');
+    const cmd = `mkfifo ${fifo}; (cd '${shellEscape(initialCwd)}' 2>/dev/null || cd /; ${exports}exec stdbuf -o0 sh <> ${fifo} > ${out} 2> ${err}) & echo $! > ${pid}`;
 
-    log.debug(`${this.id} sending serial cmd (${cmd.length} chars)`);
-    this.bridge.sendSerial(cmd + '\n');
+    log.debug(`${this.id} sending setup cmd (${cmd.length} chars)`);
+    await this.bridge.sendControl('sh', this.id, new TextEncoder().encode(cmd + '\n'));
 
     this._started = true;
     this.bytesRead = 0;
@@ -70,24 +119,23 @@ export class ShellInstance {
     log.info(`${this.id} started (cwd: ${initialCwd})`);
   }
 
-  /** Write text to the shell's stdin FIFO */
+  /** Write a binary string to the shell's stdin FIFO */
   write(text: string): void {
     if (!this._started) { log.debug(`${this.id} write() ignored — not started`); return; }
-    const hex = encodeHex(text);
-    log.debug(`${this.id} write(${text.length} chars) → hex(${hex.length} chars)`);
-    this.bridge.sendSerial(`printf '%b' '${hex}' > ${this.guestPath('fifo')}\n`);
+    log.debug(`${this.id} write(${text.length} bytes)`);
+    this.bridge.sendControl('in', this.id, binaryToBytes(text))
+      .catch(e => log.error(`${this.id} write() failed:`, e));
   }
 
   /** Read new output bytes since last read. Non-blocking — returns '' if nothing new. */
-  async read(): Promise<string> {
+  async read(maxBytes = READ_CHUNK_BYTES): Promise<string> {
     if (!this._started) return '';
     try {
-      const data = await this.bridge.readFile(this.filePath('out'));
-      if (data.byteLength > this.bytesRead) {
-        const newBytes = data.slice(this.bytesRead);
-        this.bytesRead = data.byteLength;
-        const text = new TextDecoder().decode(newBytes);
-        log.debug(`${this.id} read() → ${text.length} new chars (total ${data.byteLength}b)`);
+      const data = await this.bridge.readFileRange(this.filePath('out'), this.bytesRead, maxBytes);
+      if (data.byteLength > 0) {
+        this.bytesRead += data.byteLength;
+        const text = bytesToBinary(data);
+        log.debug(`${this.id} read() → ${text.length} new bytes (offset ${this.bytesRead}b)`);
         return text;
       }
     } catch (e) {
@@ -97,15 +145,14 @@ export class ShellInstance {
   }
 
   /** Read new stderr bytes since last read. Non-blocking — returns '' if nothing new. */
-  async readErr(): Promise<string> {
+  async readErr(maxBytes = READ_CHUNK_BYTES): Promise<string> {
     if (!this._started) return '';
     try {
-      const data = await this.bridge.readFile(this.filePath('err'));
-      if (data.byteLength > this.errBytesRead) {
-        const newBytes = data.slice(this.errBytesRead);
-        this.errBytesRead = data.byteLength;
-        const text = new TextDecoder().decode(newBytes);
-        log.debug(`${this.id} readErr() → ${text.length} new chars (total ${data.byteLength}b)`);
+      const data = await this.bridge.readFileRange(this.filePath('err'), this.errBytesRead, maxBytes);
+      if (data.byteLength > 0) {
+        this.errBytesRead += data.byteLength;
+        const text = bytesToBinary(data);
+        log.debug(`${this.id} readErr() → ${text.length} new bytes (offset ${this.errBytesRead}b)`);
         return text;
       }
     } catch (e) {
@@ -131,16 +178,28 @@ export class ShellInstance {
     }
   }
 
-  /** Stop the shell process and clean up guest files */
+  /**
+   * SIGKILL every process the shell has started. The shell carries on with
+   * its next line, so a marker-wrapped command still reports its end (status 137).
+   */
+  async interrupt(): Promise<void> {
+    if (!this._started) return;
+    log.debug(`${this.id} interrupting`);
+    await this.bridge.sendControl('sh', this.id, new TextEncoder().encode(
+      `${KILL_TREE}; k $(cat ${this.guestPath('pid')})\n`
+    )).catch(e => log.error(`${this.id} interrupt() failed:`, e));
+  }
+
+  /** Stop the shell process and its children, and clean up guest files */
   async stop(): Promise<void> {
     if (!this._started) { log.debug(`${this.id} stop() ignored — not started`); return; }
     this._started = false;
     const guestDir = this.bridge.guestJobDir;
     const id = this.id;
     log.debug(`${this.id} stopping — killing PID and cleaning up`);
-    this.bridge.sendSerial(
-      `kill $(cat ${guestDir}/${id}_pid) 2>/dev/null; rm -f ${guestDir}/${id}_fifo ${guestDir}/${id}_out ${guestDir}/${id}_err ${guestDir}/${id}_pid ${guestDir}/${id}_cwd\n`
-    );
+    await this.bridge.sendControl('sh', id, new TextEncoder().encode(
+      `${KILL_TREE}; k $(cat ${guestDir}/${id}_pid); kill $(cat ${guestDir}/${id}_pid ${guestDir}/${id}_in_pid) 2>/dev/null; rm -rf ${guestDir}/${id}_fifo ${guestDir}/${id}_out ${guestDir}/${id}_err ${guestDir}/${id}_pid ${guestDir}/${id}_cwd ${guestDir}/${id}_in ${guestDir}/${id}_in_pid\n`
+    )).catch(e => log.error(`${this.id} stop() failed:`, e));
     log.info(`${this.id} stopped`);
   }
 }
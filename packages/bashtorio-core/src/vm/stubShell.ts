@@ -0,0 +1,181 @@
+import { READ_CHUNK_BYTES, type Shell, type ShellHost } from './shell';
+import { binaryToUtf8, utf8ToBinary } from '../util/bytes';
+
+/**
+ * Answers a command run by a stub shell. `input` is the record (delimiter
+ * included) for pipe mode and the chunk just written for stream mode, which
+ * starts with an empty one so a program can print a banner or prompt;
+ * args-mode input arrives already quoted onto the end of `command`. Input
+ * and the returned output are binary strings (see util/bytes); `command` is
+ * decoded text. Throwing writes the message to stderr instead and makes the
+ * command exit with status 1. Returning null makes a marker-wrapped command
+ * hang until the shell is interrupted, for exercising timeouts.
+ */
+export type StubCommandHandler = (command: string, input: string) => string | null;
+
+let stubIdCounter = 0;
+
+/** `echo '__S_N__'; <body>; echo "__E_N_$?__"` as written by MarkerShell */
+const MARKER_LINE = /^echo '(__S_\d+__)'; (.*); echo "(__E_\d+_)\$\?__"$/s;
+/** Pipe-mode body: `printf '%b' '<escaped input>' | <command>` */
+const PIPE_BODY = /^printf '%b' '([^']*)' \| (.*)$/s;
+/** CPU-limited body: `(ulimit -t N; <body>)` */
+const ULIMIT_BODY = /^\(ulimit -t \d+; (.*)\)$/s;
+const STREAM_START = 'stdbuf -o0 ';
+
+/** Undo vm/commands printfEscape */
+function printfUnescape(text: string): string {
+  return text.replace(/\\0([0-7]{3})/g, (_, oct: string) => String.fromCharCode(parseInt(oct, 8)));
+}
+
+/**
+ * A shell with no VM behind it. It understands just enough of what the
+ * simulation writes (marker-wrapped commands and stream starts) to hand each
+ * command to a JS handler, so factories with COMMAND machines can run in CI.
+ */
+export class StubShell implements Shell {
+  readonly id = `stub_${stubIdCounter++}`;
+  private handler: StubCommandHandler;
+  private cwd: string;
+  /** Variables the shell was started with; handlers can read them off the shell */
+  readonly env: Record<string, string>;
+  private _started = true;
+  private inBuffer = '';
+  private streamCommand: string | null = null;
+  /** End marker of the command left hanging, until interrupt() */
+  private hungEnd: string | null = null;
+  private out = '';
+  private err = '';
+
+  constructor(handler: StubCommandHandler, cwd = '/', env: Record<string, string> = {}) {
+    this.handler = handler;
+    this.cwd = cwd;
+    this.env = { ...env };
+  }
+
+  get started(): boolean { return this._started; }
+
+  write(text: string): void {
+    if (!this._started) return;
+
+    if (this.streamCommand !== null) {
+      this.run(this.streamCommand, text);
+      return;
+    }
+
+    this.inBuffer += text;
+    this.drain();
+  }
+
+  private drain(): void {
+    let nl: number;
+    while (this.streamCommand === null && this.hungEnd === null && (nl = this.inBuffer.indexOf('\n')) !== -1) {
+      const line = this.inBuffer.slice(0, nl);
+      this.inBuffer = this.inBuffer.slice(nl + 1);
+      this.runLine(line);
+    }
+    // Anything after the stream start line is already stream input
+    if (this.streamCommand !== null && this.inBuffer) {
+      const rest = this.inBuffer;
+      this.inBuffer = '';
+      this.run(this.streamCommand, rest);
+    }
+  }
+
+  private runLine(line: string): void {
+    if (line.startsWith(STREAM_START)) {
+      this.streamCommand = line.slice(STREAM_START.length);
+      this.run(this.streamCommand, '');
+      return;
+    }
+
+    const marked = line.match(MARKER_LINE);
+    if (!marked) {
+      this.run(line, '');
+      return;
+    }
+    const [, startM, wrapped, endM] = marked;
+    const body = wrapped.match(ULIMIT_BODY)?.[1] ?? wrapped;
+    const piped = body.match(PIPE_BODY);
+    this.out += `${startM}\n`;
+    const status = piped
+      ? this.run(piped[2], printfUnescape(piped[1]))
+      : this.run(body, '');
+    if (status === null) this.hungEnd = endM;
+    else this.out += `${endM}${status}__\n`;
+  }
+
+  /**
+   * Run one command, its output going out exactly as returned. Returns the
+   * exit status: 1 if the handler threw, null if it hung.
+   */
+  private run(command: string, input: string): number | null {
+    try {
+      const result = this.handler(binaryToUtf8(command), input);
+      if (result === null) return null;
+      this.out += result;
+      return 0;
+    } catch (e) {
+      this.err += utf8ToBinary(`${e instanceof Error ? e.message : String(e)}\n`);
+      return 1;
+    }
+  }
+
+  async read(maxBytes = READ_CHUNK_BYTES): Promise<string> {
+    const text = this.out.slice(0, maxBytes);
+    this.out = this.out.slice(text.length);
+    return text;
+  }
+
+  async readErr(maxBytes = READ_CHUNK_BYTES): Promise<string> {
+    const text = this.err.slice(0, maxBytes);
+    this.err = this.err.slice(text.length);
+    return text;
+  }
+
+  async getCwd(): Promise<string> {
+    return this.cwd;
+  }
+
+  /** End a hung command as if SIGKILLed, then run whatever queued up behind it */
+  async interrupt(): Promise<void> {
+    if (this.hungEnd === null) return;
+    this.out += `${this.hungEnd}137__\n`;
+    this.hungEnd = null;
+    this.drain();
+  }
+
+  async stop(): Promise<void> {
+    this._started = false;
+  }
+}
+
+/**
+ * Stand-in for the VM that hands out StubShells. Install it with
+ * `setShellHost()`; without a handler every command echoes its input.
+ * Guest files live in `files`, keyed by absolute path.
+ */
+export class StubShellHost implements ShellHost {
+  readonly ready = true;
+  readonly fs9pReady = true;
+  readonly files = new Map<string, Uint8Array>();
+  private handler: StubCommandHandler;
+
+  constructor(handler: StubCommandHandler = (_command, input) => input) {
+    this.handler = handler;
+  }
+
+  async createShell(initialCwd?: string, env?: Record<string, string>): Promise<Shell> {
+    return new StubShell(this.handler, initialCwd, env);
+  }
+
+  async readFile(path: string): Promise<Uint8Array> {
+    const data = this.files.get(path);
+    if (!data) throw new Error(`${path}: No such file or directory`);
+    return data;
+  }
+
+  async writeFile(path: string, data: Uint8Array): Promise<void> {
+    this.files.set(path, data.slice());
+  }
+}
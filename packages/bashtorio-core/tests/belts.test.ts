@@ -0,0 +1,49 @@
+import { describe, it } from 'vitest';
+import { placeBelt, placeCrossing, placeMachine } from '../src/game/edit';
+import { BeltTier, Direction, MachineType } from '../src/game/types';
+import { buildFactory, expectFactory, placeSource } from './factory';
+
+const TEXT = 'hello, factory\n';
+
+describe('belts', () => {
+  it('carry packets in order along a line with a turn', async () => {
+    const save = buildFactory(() => {
+      placeSource(0, 0, TEXT);
+      for (let x = 1; x <= 4; x++) placeBelt(x, 0, Direction.RIGHT);
+      placeBelt(5, 0, Direction.DOWN);
+      placeBelt(5, 1, Direction.DOWN);
+      placeMachine(5, 2, MachineType.SINK);
+    });
+    await expectFactory({ name: 'turn', save, expect: { 'Sink 1': { exact: TEXT } }, timeoutMs: 30_000 });
+  });
+
+  it('keep order across slow, normal and express tiers', async () => {
+    const tiers = [BeltTier.EXPRESS, BeltTier.SLOW, BeltTier.NORMAL];
+    const save = buildFactory(() => {
+      placeSource(0, 0, TEXT);
+      for (let x = 1; x <= 9; x++) placeBelt(x, 0, Direction.RIGHT, tiers[Math.floor((x - 1) / 3)]);
+      placeMachine(10, 0, MachineType.SINK);
+    });
+    await expectFactory({ name: 'tiers', save, expect: { 'Sink 1': { exact: TEXT } }, timeoutMs: 60_000 });
+  });
+
+  it('pass both lines straight through a crossing', async () => {
+    const across = 'left to right\n';
+    const down = 'top to bottom\n';
+    const save = buildFactory(() => {
+      placeSource(0, 3, across);
+      for (let x = 1; x <= 5; x++) placeBelt(x, 3, Direction.RIGHT);
+      placeMachine(6, 3, MachineType.SINK);
+      placeSource(3, 0, down);
+      for (let y = 1; y <= 5; y++) placeBelt(3, y, Direction.DOWN);
+      placeMachine(3, 6, MachineType.SINK);
+      placeCrossing(3, 3);
+    });
+    await expectFactory({
+      name: 'crossing',
+      save,
+      expect: { 'Sink 1': { exact: across }, 'Sink 2': { exact: down } },
+      timeoutMs: 30_000,
+    });
+  });
+});
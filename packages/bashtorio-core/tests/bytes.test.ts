@@ -0,0 +1,62 @@
+import { describe, it } from 'vitest';
+import { placeBelt, placeMachine, updateConfig } from '../src/game/edit';
+import { Direction, MachineType } from '../src/game/types';
+import { utf8ToBinary } from '../src/util/bytes';
+import { buildFactory, expectFactory, placeSource } from './factory';
+
+describe('byte config', () => {
+  it('packs on a delimiter typed as a multi-byte character', async () => {
+    const save = buildFactory(() => {
+      placeSource(0, 0, 'one→two→');
+      placeBelt(1, 0, Direction.RIGHT);
+      placeMachine(2, 0, MachineType.PACKER);
+      updateConfig(2, 0, MachineType.PACKER, { packerDelimiter: utf8ToBinary('→'), preserveDelimiter: false });
+      placeBelt(3, 0, Direction.RIGHT);
+      placeMachine(4, 0, MachineType.SINK);
+    });
+    await expectFactory({
+      name: 'packer utf-8 delimiter',
+      save,
+      expect: { 'Sink 1': { exact: 'onetwo' } },
+      timeoutMs: 30_000,
+    });
+  });
+
+  it('encodes the typed characters of saves from before v3', async () => {
+    const save = buildFactory(() => {
+      placeSource(0, 0, 'aba');
+      placeBelt(1, 0, Direction.RIGHT);
+      placeMachine(2, 0, MachineType.REPLACE);
+      placeBelt(3, 0, Direction.RIGHT);
+      placeMachine(4, 0, MachineType.SINK);
+    });
+    save.version = 2;
+    const replace = save.machines.find(m => m.type === MachineType.REPLACE)!;
+    replace.replaceTo = 'é';
+    await expectFactory({
+      name: 'legacy replace',
+      save,
+      expect: { 'Sink 1': { exact: 'ébé' } },
+      timeoutMs: 30_000,
+    });
+  });
+
+  it('reads a typed character in a byte set as its UTF-8 bytes', async () => {
+    const save = buildFactory(() => {
+      for (const [y, filterPattern] of [[0, 'é'], [2, '\\xC3\\xA9']] as const) {
+        placeSource(0, y, 'aéb');
+        placeBelt(1, y, Direction.RIGHT);
+        placeMachine(2, y, MachineType.FILTER);
+        updateConfig(2, y, MachineType.FILTER, { filterMatch: 'set', filterPattern });
+        placeBelt(3, y, Direction.RIGHT);
+        placeMachine(4, y, MachineType.SINK);
+      }
+    });
+    await expectFactory({
+      name: 'utf-8 byte set',
+      save,
+      expect: { 'Sink 1': { exact: 'é' }, 'Sink 2': { exact: 'é' } },
+      timeoutMs: 30_000,
+    });
+  });
+});
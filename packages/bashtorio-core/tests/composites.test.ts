@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { placeBelt, placeComposite, placeMachine } from '../src/game/edit';
+import { defineComposite } from '../src/game/composites';
+import { Direction, MachineType, type SinkMachine } from '../src/game/types';
+import { machines } from '../src/game/machines';
+import { onGameEvent } from '../src/events/bus';
+import { buildFactory, expectFactory, placeSource } from './factory';
+
+describe('composites', () => {
+  it('prefix the event ids of their machines with their own', async () => {
+    const save = buildFactory(() => {
+      defineComposite('Beep', {
+        width: 2, height: 1, cells: [],
+        machines: [
+          { x: 0, y: 0, type: MachineType.TONE, command: '', autoStart: false, sinkId: 0 },
+          { x: 1, y: 0, type: MachineType.PORT, command: '', autoStart: false, sinkId: 0 },
+        ],
+      });
+      placeMachine(0, 0, MachineType.TONE);
+      placeComposite(0, 2, 'beep');
+      placeSource(0, 4, 'ab');
+      placeBelt(1, 4, Direction.RIGHT);
+      placeMachine(2, 4, MachineType.SINK);
+    });
+    const ids = new Set<string>();
+    const off = onGameEvent('toneNote', ({ machineId }) => { ids.add(machineId); });
+    try {
+      await expectFactory({ name: 'composite ids', save, expect: { 'Sink 1': { exact: 'ab' } }, timeoutMs: 30_000 });
+    } finally {
+      off();
+    }
+    expect([...ids].sort()).toEqual(['m_0_0', 'm_0_2/m_0_0']);
+  });
+
+  it('keep the output of their inner sinks to themselves', async () => {
+    const save = buildFactory(() => {
+      defineComposite('Drain', {
+        width: 3, height: 1,
+        cells: [{ x: 1, y: 0, type: 'belt', dir: Direction.RIGHT }],
+        machines: [
+          { x: 0, y: 0, type: MachineType.PORT, command: '', autoStart: false, sinkId: 0, portMode: 'in', portSide: Direction.LEFT },
+          { x: 2, y: 0, type: MachineType.SINK, command: '', autoStart: false, sinkId: 1, name: 'Sink 1' },
+        ],
+      });
+      for (const y of [0, 2]) {
+        placeSource(0, y, y === 0 ? 'ab' : 'cd');
+        placeBelt(1, y, Direction.RIGHT);
+        placeComposite(2, y, 'drain');
+      }
+      placeSource(0, 4, 'ef', 1500);
+      placeBelt(1, 4, Direction.RIGHT);
+      placeMachine(2, 4, MachineType.SINK);
+    });
+    const outside: string[] = [];
+    const inside: string[] = [];
+    const off = onGameEvent('sinkOutput', ({ sink, content }) => { outside.push(`${sink.name}:${content}`); });
+    const offReceive = onGameEvent('sinkReceive', ({ char }) => { inside.push(char); });
+    try {
+      await expectFactory({ name: 'inner sinks', save, expect: { 'Sink 1': { exact: 'ef' } }, timeoutMs: 30_000 });
+    } finally {
+      off();
+      offReceive();
+    }
+    expect(machines.filter((m): m is SinkMachine => m.type === MachineType.SINK).map(s => s.sinkId)).toEqual([1]);
+    expect(outside).toEqual(['Sink 1:e', 'Sink 1:f']);
+    // The instances still ran: their sinks took the other bytes
+    expect(inside.sort()).toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+  });
+});
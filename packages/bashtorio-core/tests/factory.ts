@@ -0,0 +1,38 @@
+import { expect } from 'vitest';
+import { createInitialState } from '../src/game/state';
+import { initGrid } from '../src/game/grid';
+import { clearMachines, setSinkIdCounter, setCommandIdCounter } from '../src/game/machines';
+import { clearCompositeDefs } from '../src/game/composites';
+import { placeMachine, updateConfig } from '../src/game/edit';
+import { MachineType } from '../src/game/types';
+import { EmitTimer } from '../src/game/clock';
+import { serializeState, type SaveData } from '../src/util/saveload';
+import { runFactoryTest, type FactoryTest, type FactoryTestOptions } from '../src/util/factoryTest';
+
+/**
+ * Lay out a factory on an empty grid and hand it back as a save, the form
+ * runFactoryTest loads. Sinks are numbered from 1 in the order they're placed.
+ */
+export function buildFactory(layout: () => void): SaveData {
+  initGrid();
+  clearMachines();
+  clearCompositeDefs();
+  setSinkIdCounter(1);
+  setCommandIdCounter(1);
+  const state = createInitialState();
+  layout();
+  return JSON.parse(JSON.stringify(serializeState(state)));
+}
+
+/** A Source emitting `sourceText` once, a byte every `emitInterval` ms */
+export function placeSource(x: number, y: number, sourceText: string, emitInterval?: number): void {
+  placeMachine(x, y, MachineType.SOURCE);
+  updateConfig(x, y, MachineType.SOURCE, { sourceText });
+  if (emitInterval !== undefined) updateConfig(x, y, MachineType.SOURCE, { clock: new EmitTimer(emitInterval) });
+}
+
+/** Run a factory test and fail with each sink's actual output when it doesn't pass */
+export async function expectFactory(test: FactoryTest, options?: FactoryTestOptions): Promise<void> {
+  const result = await runFactoryTest(test, options);
+  expect(result.sinks.filter(s => !s.passed)).toEqual([]);
+}
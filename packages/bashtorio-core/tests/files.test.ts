@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { placeBelt, placeMachine } from '../src/game/edit';
+import { Direction, MachineType } from '../src/game/types';
+import { StubShellHost } from '../src/vm/stubShell';
+import { onGameEvent } from '../src/events/bus';
+import { binaryToBytes } from '../src/util/bytes';
+import { buildFactory, expectFactory, placeSource } from './factory';
+
+describe('file sinks', () => {
+  it('write bytes that arrived before the guest filesystem was up', async () => {
+    const host = Object.assign(new StubShellHost(), { fs9pReady: false });
+    const save = buildFactory(() => {
+      placeSource(0, 0, 'abc', 100);
+      placeBelt(1, 0, Direction.RIGHT);
+      placeMachine(2, 0, MachineType.FILESINK);
+      // A slower line that keeps the run going, and brings the filesystem up part way
+      placeSource(0, 2, 'wxyz');
+      placeBelt(1, 2, Direction.RIGHT);
+      placeMachine(2, 2, MachineType.SINK);
+    });
+    const off = onGameEvent('sinkReceive', ({ char }) => {
+      if (char === 'y') Object.assign(host, { fs9pReady: true });
+    });
+    try {
+      await expectFactory(
+        { name: 'late filesystem', save, expect: { 'Sink 1': { exact: 'wxyz' } }, timeoutMs: 30_000 },
+        { shellHost: host },
+      );
+    } finally {
+      off();
+    }
+    expect([...host.files.values()]).toEqual([binaryToBytes('abc')]);
+  });
+});
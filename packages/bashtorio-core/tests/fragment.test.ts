@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { placeBelt, placeMachine, placeSplitter, placeComposite, getMachineAt, updateConfig } from '../src/game/edit';
+import { defineComposite, getCompositeDef } from '../src/game/composites';
+import { getCellType } from '../src/game/grid';
+import { clearHistory, undo } from '../src/game/history';
+import { CellType, Direction, MachineType, type CompositeMachine, type SinkMachine, type SplitterMachine } from '../src/game/types';
+import { copyRegion, moveRegion, pasteFragment, rotateFragment, type Fragment } from '../src/util/fragment';
+import { buildFactory } from './factory';
+
+describe('moving a region', () => {
+  it('keeps the machines themselves, and undoes in one step', () => {
+    let sink!: SinkMachine;
+    buildFactory(() => {
+      placeMachine(0, 0, MachineType.SINK);
+      sink = placeMachine(2, 0, MachineType.SINK) as SinkMachine;
+      placeBelt(1, 0, Direction.RIGHT);
+    });
+    clearHistory();
+
+    expect(moveRegion({ minX: 1, minY: 0, maxX: 2, maxY: 0 }, 1, 3)).toBe(true);
+    expect(getMachineAt(2, 3)).toBe(sink);
+    expect(sink).toMatchObject({ sinkId: 2, name: 'Sink 2' });
+    expect(getCellType(1, 3)).toBe(CellType.BELT);
+    expect(getCellType(1, 0)).toBe(CellType.EMPTY);
+    expect(getMachineAt(2, 0)).toBeUndefined();
+
+    undo();
+    expect(getMachineAt(2, 0)).toBe(sink);
+    expect(getCellType(1, 0)).toBe(CellType.BELT);
+    expect(getMachineAt(2, 3)).toBeUndefined();
+  });
+
+  it('refuses to land on a splitter cut by the selection edge', () => {
+    let splitter!: SplitterMachine;
+    buildFactory(() => {
+      splitter = placeSplitter(2, 0, Direction.RIGHT)!;
+      placeBelt(0, 1, Direction.RIGHT);
+      placeBelt(1, 1, Direction.RIGHT);
+    });
+
+    // The splitter's second cell is inside the selection, its first is not
+    expect(moveRegion({ minX: 0, minY: 1, maxX: 2, maxY: 1 }, 1, 1)).toBe(false);
+    expect(getMachineAt(2, 0)).toBe(splitter);
+    expect(getMachineAt(2, 1)).toBe(splitter);
+    expect(getCellType(0, 1)).toBe(CellType.BELT);
+  });
+});
+
+describe('copying a region', () => {
+  it('carries the subfactory definitions its composites run', () => {
+    const port = { x: 0, y: 0, type: MachineType.PORT, command: '', autoStart: false, sinkId: 0 };
+    let fragment!: Fragment;
+    buildFactory(() => {
+      defineComposite('Pass', { width: 1, height: 1, cells: [], machines: [port] });
+      placeComposite(0, 0, 'pass');
+      fragment = copyRegion({ minX: 0, minY: 0, maxX: 0, maxY: 0 })!;
+    });
+    expect(fragment.composites?.map(d => d.id)).toEqual(['pass']);
+
+    // A factory with a different "pass" keeps it and gets the pasted one alongside
+    buildFactory(() => {
+      defineComposite('Pass', { width: 2, height: 1, cells: [], machines: [port] });
+    });
+    expect(pasteFragment(fragment, 3, 3)).toBe(true);
+    const pasted = getMachineAt(3, 3) as CompositeMachine;
+    expect(pasted.compositeId).toBe('pass-2');
+    expect(pasted.world).not.toBeNull();
+    expect(getCompositeDef('pass')?.fragment.width).toBe(2);
+  });
+});
+
+describe('rotating a fragment', () => {
+  it('turns the side a Merger serves first', () => {
+    let fragment!: Fragment;
+    buildFactory(() => {
+      placeMachine(0, 0, MachineType.MERGER);
+      updateConfig(0, 0, MachineType.MERGER, { mergerPolicy: 'priority', mergerPriorityDir: Direction.LEFT });
+      fragment = copyRegion({ minX: 0, minY: 0, maxX: 0, maxY: 0 })!;
+    });
+    expect(rotateFragment(fragment).machines[0].mergerPriorityDir).toBe(Direction.UP);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { clearCell, getMachineAt, placeBelt, placeMachine, shiftMachines, updateConfig } from '../src/game/edit';
+import { beginGesture, canRedo, canUndo, clearHistory, endGesture, redo, undo } from '../src/game/history';
+import { machines } from '../src/game/machines';
+import { createInitialState } from '../src/game/state';
+import { EmitTimer } from '../src/game/clock';
+import { Direction, MachineType } from '../src/game/types';
+import { serializeState } from '../src/util/saveload';
+import { buildFactory } from './factory';
+
+/** The grid and machine list as a save would record them, machines in grid order */
+function snapshot() {
+  const save = serializeState(createInitialState());
+  const byPos = (a: { x: number; y: number }, b: { x: number; y: number }) => a.y - b.y || a.x - b.x;
+  return { cells: save.cells ?? [], machines: save.machines.sort(byPos), list: [...machines].sort(byPos) };
+}
+
+/** Start every test on an empty grid with no history */
+function emptyFactory(): void {
+  buildFactory(() => {});
+  clearHistory();
+}
+
+describe('undo history', () => {
+  it('walks every kind of edit back and forth', () => {
+    emptyFactory();
+    const states = [snapshot()];
+    const edits = [
+      () => placeBelt(0, 0, Direction.RIGHT),
+      () => placeMachine(1, 0, MachineType.SINK),
+      () => placeMachine(0, 2, MachineType.NULL),
+      () => clearCell(0, 2),
+      () => updateConfig(1, 0, MachineType.SINK, { name: 'Out' }),
+      () => shiftMachines([getMachineAt(1, 0)!], 3, 1),
+    ];
+    for (const edit of edits) {
+      edit();
+      states.push(snapshot());
+    }
+
+    for (let i = states.length - 1; i > 0; i--) {
+      expect(snapshot()).toEqual(states[i]);
+      undo();
+    }
+    expect(snapshot()).toEqual(states[0]);
+    expect(canUndo()).toBe(false);
+
+    for (let i = 1; i < states.length; i++) {
+      redo();
+      expect(snapshot()).toEqual(states[i]);
+    }
+    expect(canRedo()).toBe(false);
+  });
+
+  it('undoes nested gestures as one step', () => {
+    emptyFactory();
+    beginGesture();
+    placeBelt(0, 0, Direction.RIGHT);
+    beginGesture();
+    placeBelt(1, 0, Direction.RIGHT);
+    placeBelt(2, 0, Direction.RIGHT);
+    endGesture();
+    expect(canUndo()).toBe(false);
+    placeBelt(3, 0, Direction.RIGHT);
+    endGesture();
+
+    expect(undo()).toBe(true);
+    expect(snapshot().cells).toEqual([]);
+    expect(canUndo()).toBe(false);
+  });
+
+  it('drops the redo steps when a new edit is made', () => {
+    emptyFactory();
+    placeBelt(0, 0, Direction.RIGHT);
+    placeBelt(1, 0, Direction.RIGHT);
+    undo();
+    expect(canRedo()).toBe(true);
+    placeBelt(0, 1, Direction.DOWN);
+    expect(canRedo()).toBe(false);
+    expect(redo()).toBe(false);
+  });
+
+  it('keeps only the most recent 200 steps', () => {
+    emptyFactory();
+    for (let x = 0; x < 201; x++) placeBelt(x, 0, Direction.RIGHT);
+    let steps = 0;
+    while (undo()) steps++;
+    expect(steps).toBe(200);
+    // The oldest belt fell off the history and stays
+    expect(snapshot().cells.map(c => c.x)).toEqual([0]);
+  });
+
+  it('records no step for a config save that changes nothing', () => {
+    emptyFactory();
+    placeMachine(0, 0, MachineType.BYTE);
+    clearHistory();
+    // Modals rebuild timers and byte arrays on every save
+    updateConfig(0, 0, MachineType.BYTE, { clock: new EmitTimer(500), byteData: new Uint8Array(0) });
+    expect(canUndo()).toBe(false);
+    updateConfig(0, 0, MachineType.BYTE, { clock: new EmitTimer(250) });
+    expect(canUndo()).toBe(true);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it } from 'vitest';
+import { placeBelt, placeMachine, updateConfig } from '../src/game/edit';
+import { Direction, MachineType } from '../src/game/types';
+import { buildFactory, expectFactory, placeSource } from './factory';
+
+const LOG = 'INFO start\nERROR disk full\nINFO retry\nERROR gave up\n';
+
+/** Source, a Packer cutting lines, then `machine` at (4, 0) fed from the left */
+function packedLines(text: string, machine: () => void): () => void {
+  return () => {
+    placeSource(0, 0, text);
+    placeBelt(1, 0, Direction.RIGHT);
+    placeMachine(2, 0, MachineType.PACKER);
+    placeBelt(3, 0, Direction.RIGHT);
+    machine();
+  };
+}
+
+describe('router', () => {
+  it('sends matching bytes one way and the rest the other', async () => {
+    const save = buildFactory(() => {
+      placeSource(0, 0, 'a,b,c\n');
+      placeBelt(1, 0, Direction.RIGHT);
+      placeMachine(2, 0, MachineType.ROUTER);
+      updateConfig(2, 0, MachineType.ROUTER, { routerByte: ',', routerMatchDir: Direction.DOWN, routerElseDir: Direction.RIGHT });
+      placeBelt(3, 0, Direction.RIGHT);
+      placeMachine(4, 0, MachineType.SINK);
+      placeBelt(2, 1, Direction.DOWN);
+      placeMachine(2, 2, MachineType.SINK);
+    });
+    await expectFactory({
+      name: 'router byte',
+      save,
+      expect: { 'Sink 1': { exact: 'abc\n' }, 'Sink 2': { exact: ',,' } },
+      timeoutMs: 30_000,
+    });
+  });
+
+  it('routes whole lines by regex', async () => {
+    const save = buildFactory(packedLines(LOG, () => {
+      placeMachine(4, 0, MachineType.ROUTER);
+      updateConfig(4, 0, MachineType.ROUTER, {
+        routerMatch: 'regex',
+        routerPattern: '^ERROR',
+        routerMatchDir: Direction.DOWN,
+        routerElseDir: Direction.RIGHT,
+      });
+      placeBelt(5, 0, Direction.RIGHT);
+      placeMachine(6, 0, MachineType.SINK);
+      placeBelt(4, 1, Direction.DOWN);
+      placeMachine(4, 2, MachineType.SINK);
+    }));
+    await expectFactory({
+      name: 'router regex',
+      save,
+      expect: {
+        'Sink 1': { exact: 'INFO start\nINFO retry\n' },
+        'Sink 2': { exact: 'ERROR disk full\nERROR gave up\n' },
+      },
+      timeoutMs: 60_000,
+    });
+  });
+});
+
+describe('filter', () => {
+  it('passes only packets made of bytes in a set', async () => {
+    const save = buildFactory(packedLines('12\nab\n3c\n45\n', () => {
+      placeMachine(4, 0, MachineType.FILTER);
+      updateConfig(4, 0, MachineType.FILTER, { filterMatch: 'set', filterPattern: '[:digit:]\\n' });
+      placeBelt(5, 0, Direction.RIGHT);
+      placeMachine(6, 0, MachineType.SINK);
+    }));
+    await expectFactory({ name: 'filter set', save, expect: { 'Sink 1': { exact: '12\n45\n' } }, timeoutMs: 60_000 });
+  });
+
+  it('blocks a single byte', async () => {
+    const save = buildFactory(() => {
+      placeSource(0, 0, 'a b c\n');
+      placeBelt(1, 0, Direction.RIGHT);
+      placeMachine(2, 0, MachineType.FILTER);
+      updateConfig(2, 0, MachineType.FILTER, { filterByte: ' ', filterMode: 'block' });
+      placeBelt(3, 0, Direction.RIGHT);
+      placeMachine(4, 0, MachineType.SINK);
+    });
+    await expectFactory({ name: 'filter block', save, expect: { 'Sink 1': { exact: 'abc\n' } }, timeoutMs: 30_000 });
+  });
+});
@@ -0,0 +1,329 @@
+import { describe, expect, it } from 'vitest';
+import { placeBelt, placeMachine, updateConfig } from '../src/game/edit';
+import { Direction, MachineType, type CommandKillReason } from '../src/game/types';
+import { StubShell, StubShellHost } from '../src/vm/stubShell';
+import type { Shell } from '../src/vm/shell';
+import { onGameEvent } from '../src/events/bus';
+import { runFactoryTest } from '../src/util/factoryTest';
+import { buildFactory, expectFactory, placeSource } from './factory';
+
+describe('shell machines', () => {
+  it('run each input line through the command', async () => {
+    const host = new StubShellHost((command, input) => {
+      if (command !== 'tr a-z A-Z') throw new Error(`unexpected command: ${command}`);
+      return input.toUpperCase();
+    });
+    const save = buildFactory(() => {
+      placeSource(0, 0, 'abc\ndef\n');
+      placeBelt(1, 0, Direction.RIGHT);
+      placeMachine(2, 0, MachineType.COMMAND);
+      updateConfig(2, 0, MachineType.COMMAND, { command: 'tr a-z A-Z' });
+      placeBelt(3, 0, Direction.RIGHT);
+      placeMachine(4, 0, MachineType.SINK);
+    });
+    await expectFactory(
+      { name: 'pipe mode', save, expect: { 'Sink 1': { exact: 'ABC\nDEF\n' } }, timeoutMs: 60_000 },
+      { shellHost: host },
+    );
+  });
+
+  it('pass command output on byte for byte, with no newline added', async () => {
+    const host = new StubShellHost((_command, input) => String(input.length));
+    const save = buildFactory(() => {
+      placeSource(0, 0, 'ab\ncde\n');
+      placeBelt(1, 0, Direction.RIGHT);
+      placeMachine(2, 0, MachineType.COMMAND);
+      updateConfig(2, 0, MachineType.COMMAND, { command: 'wc -c' });
+      placeBelt(3, 0, Direction.RIGHT);
+      placeMachine(4, 0, MachineType.SINK);
+    });
+    await expectFactory(
+      { name: 'no trailing newline', save, expect: { 'Sink 1': { exact: '34' } }, timeoutMs: 60_000 },
+      { shellHost: host },
+    );
+  });
+
+  it('stop handing out lines while too many wait on a slow one', async () => {
+    const started: string[] = [];
+    const host = new StubShellHost((_command, input) => {
+      started.push(input);
+      return input === 'slow\n' ? null : input;
+    });
+    const save = buildFactory(() => {
+      placeSource(0, 0, 'slow\na\nb\nc\nd\ne\n', 20);
+      placeBelt(1, 0, Direction.RIGHT);
+      placeMachine(2, 0, MachineType.COMMAND);
+      updateConfig(2, 0, MachineType.COMMAND, { command: 'cat', workers: 2, ordered: true });
+      placeBelt(3, 0, Direction.RIGHT);
+      placeMachine(4, 0, MachineType.SINK);
+    });
+    const result = await runFactoryTest(
+      { name: 'held lines', save, expect: { 'Sink 1': { exact: 'never' } }, timeoutMs: 5_000 },
+      { shellHost: host },
+    );
+    expect(result.sinks[0].actual).toBe('');
+    // The second worker runs a pool's worth of lines past the hung one, then waits
+    expect(started).toEqual(['slow\n', 'a\n', 'b\n']);
+  });
+});
+
+/** Lay out source -> Shell -> sink with the given command config. */
+function shellLine(text: string, config: Parameters<typeof updateConfig<MachineType.COMMAND>>[3]) {
+  return buildFactory(() => {
+    placeSource(0, 0, text, 20);
+    placeBelt(1, 0, Direction.RIGHT);
+    placeMachine(2, 0, MachineType.COMMAND);
+    updateConfig(2, 0, MachineType.COMMAND, config);
+    placeBelt(3, 0, Direction.RIGHT);
+    placeMachine(4, 0, MachineType.SINK);
+  });
+}
+
+/** Run `fn`, collecting the kill reason of every finished command. */
+async function collectKills(fn: () => Promise<void>): Promise<(CommandKillReason | undefined)[]> {
+  const kills: (CommandKillReason | undefined)[] = [];
+  const off = onGameEvent('commandComplete', ({ killed }) => { kills.push(killed); });
+  try {
+    await fn();
+  } finally {
+    off();
+  }
+  return kills;
+}
+
+describe('shell machine limits', () => {
+  it('kill a line that runs past the timeout and go on with the next', async () => {
+    const host = new StubShellHost((_command, input) => input === 'slow\n' ? null : input);
+    const save = shellLine('slow\nfast\n', { command: 'cat', timeoutMs: 500 });
+    const kills = await collectKills(() => expectFactory(
+      { name: 'timeout', save, expect: { 'Sink 1': { exact: 'fast\n' } }, timeoutMs: 5_000 },
+      { shellHost: host },
+    ));
+    expect(kills).toEqual(['timeout', undefined]);
+  });
+
+  it('kill a line that prints past the output cap and keep what fit', async () => {
+    const host = new StubShellHost(() => 'x'.repeat(10_000));
+    const save = shellLine('a\n', { command: 'yes', outputLimit: 10 });
+    const kills = await collectKills(() => expectFactory(
+      { name: 'output cap', save, expect: { 'Sink 1': { exact: 'x'.repeat(10) } }, timeoutMs: 10_000 },
+      { shellHost: host },
+    ));
+    expect(kills).toEqual(['output']);
+  });
+
+  it('replace a shell that never answers its kill', async () => {
+    /** Hands out a first shell whose interrupt is lost */
+    class WedgedHost extends StubShellHost {
+      shells = 0;
+      override async createShell(initialCwd?: string, env?: Record<string, string>): Promise<Shell> {
+        const shell = await super.createShell(initialCwd, env);
+        if (this.shells++ === 0) (shell as StubShell).interrupt = async () => {};
+        return shell;
+      }
+    }
+    const hang = (_command: string, input: string) => input === 'slow\n' ? null : input;
+    const save = shellLine('slow\nfast\n', { command: 'cat', timeoutMs: 500 });
+
+    // Within the grace period the hung line is still waiting on its kill
+    const early = await collectKills(async () => {
+      const result = await runFactoryTest(
+        { name: 'wedged shell', save, expect: { 'Sink 1': { exact: 'fast\n' } }, timeoutMs: 2_000 },
+        { shellHost: new WedgedHost(hang) },
+      );
+      expect(result.sinks[0].actual).toBe('');
+    });
+    expect(early).toEqual([]);
+
+    const host = new WedgedHost(hang);
+    const kills = await collectKills(() => expectFactory(
+      { name: 'wedged shell', save, expect: { 'Sink 1': { exact: 'fast\n' } }, timeoutMs: 10_000 },
+      { shellHost: host },
+    ));
+    expect(kills).toEqual(['timeout', undefined]);
+    expect(host.shells).toBe(2);
+  });
+});
+
+describe('shell machine stderr', () => {
+  const host = new StubShellHost((_command, input) => {
+    if (input === 'bad\n') throw new Error('oops');
+    return input;
+  });
+
+  it('leaves through the error side while stdout keeps to its own', async () => {
+    const save = buildFactory(() => {
+      placeSource(0, 0, 'ok\nbad\nok\n', 20);
+      placeBelt(1, 0, Direction.RIGHT);
+      placeMachine(2, 0, MachineType.COMMAND);
+      updateConfig(2, 0, MachineType.COMMAND, { command: 'check', stderrDir: Direction.DOWN });
+      placeBelt(3, 0, Direction.RIGHT);
+      placeMachine(4, 0, MachineType.SINK);
+      placeBelt(2, 1, Direction.DOWN);
+      placeMachine(2, 2, MachineType.SINK);
+    });
+    await expectFactory(
+      { name: 'stderr side', save, expect: { 'Sink 1': { exact: 'ok\nok\n' }, 'Sink 2': { exact: 'oops\n' } }, timeoutMs: 30_000 },
+      { shellHost: host },
+    );
+  });
+
+  it('is dropped without an error side', async () => {
+    const save = shellLine('ok\nbad\nok\n', { command: 'check' });
+    await expectFactory(
+      { name: 'stderr dropped', save, expect: { 'Sink 1': { exact: 'ok\nok\n' } }, timeoutMs: 30_000 },
+      { shellHost: host },
+    );
+  });
+});
+
+describe('shell machine failure policies', () => {
+  const host = new StubShellHost((command, input) => {
+    if (input === 'bad\n' || command.endsWith("'bad'")) throw new Error('oops');
+    return input;
+  });
+
+  it('put the exit status on the belt with exitCode', async () => {
+    const save = shellLine('ok\nbad\n', { command: 'check', onFailure: 'exitCode' });
+    await expectFactory(
+      { name: 'exit code', save, expect: { 'Sink 1': { exact: 'ok\n\x01' } }, timeoutMs: 30_000 },
+      { shellHost: host },
+    );
+  });
+
+  it('send the failed line out the error side with errorSide', async () => {
+    for (const inputMode of ['pipe', 'args'] as const) {
+      const save = buildFactory(() => {
+        placeSource(0, 0, 'ok\nbad\n', 20);
+        placeBelt(1, 0, Direction.RIGHT);
+        placeMachine(2, 0, MachineType.COMMAND);
+        updateConfig(2, 0, MachineType.COMMAND, { command: 'check', inputMode, onFailure: 'errorSide', stderrDir: Direction.DOWN });
+        placeBelt(3, 0, Direction.RIGHT);
+        placeMachine(4, 0, MachineType.SINK);
+        placeBelt(2, 1, Direction.DOWN);
+        placeMachine(2, 2, MachineType.SINK);
+      });
+      // Args mode drops the delimiter from the line; it comes back for the belt
+      await expectFactory(
+        { name: `error side (${inputMode})`, save, expect: { 'Sink 2': { regex: '^(oops\\nbad\\n|bad\\noops\\n)$' } }, timeoutMs: 30_000 },
+        { shellHost: host },
+      );
+    }
+  });
+
+  it('end the run with stop', async () => {
+    const toasts: string[] = [];
+    const off = onGameEvent('toast', ({ message }) => { toasts.push(message); });
+    const save = shellLine('bad\nok\n', { command: 'check', onFailure: 'stop' });
+    const result = await runFactoryTest(
+      { name: 'stop', save, expect: { 'Sink 1': { exact: 'ok\n' } }, timeoutMs: 30_000 },
+      { shellHost: host },
+    );
+    off();
+    expect(result.sinks[0].actual).toBe('');
+    expect(result.elapsedMs).toBeLessThan(30_000);
+    expect(toasts).toEqual(['Shell 1: command exited with status 1']);
+  });
+});
+
+describe('shell machine input', () => {
+  /** A host that echoes, remembering each invocation's input */
+  function recordingHost(): { host: StubShellHost; calls: string[] } {
+    const calls: string[] = [];
+    return { host: new StubShellHost((_command, input) => { calls.push(input); return input; }), calls };
+  }
+
+  it('hand a batching machine up to batchLines lines at once', async () => {
+    const { host, calls } = recordingHost();
+    const save = shellLine('a\nb\nc\nd\ne\nf\n', { command: 'cat', batchLines: 3, batchMs: 60_000 });
+    await expectFactory(
+      { name: 'batch', save, expect: { 'Sink 1': { exact: 'a\nb\nc\nd\ne\nf\n' } }, timeoutMs: 30_000 },
+      { shellHost: host },
+    );
+    expect(calls).toEqual(['a\nb\nc\n', 'd\ne\nf\n']);
+  });
+
+  it('run a short batch once it has waited batchMs', async () => {
+    const { host, calls } = recordingHost();
+    const save = shellLine('a\nb\n', { command: 'cat', batchLines: 3, batchMs: 2_000 });
+    await expectFactory(
+      { name: 'short batch', save, expect: { 'Sink 1': { exact: 'a\nb\n' } }, timeoutMs: 30_000 },
+      { shellHost: host },
+    );
+    expect(calls).toEqual(['a\nb\n']);
+  });
+
+  it('frame records on a delimiter or a fixed length', async () => {
+    const framings = [
+      { config: { framing: 'delimiter', recordDelimiter: ',' }, text: 'ab,c,', records: ['ab,', 'c,'] },
+      { config: { framing: 'fixed', recordLength: 2 }, text: 'abcd', records: ['ab', 'cd'] },
+    ] as const;
+    for (const { config, text, records } of framings) {
+      const { host, calls } = recordingHost();
+      const save = shellLine(text, { command: 'cat', ...config });
+      await expectFactory(
+        { name: config.framing, save, expect: { 'Sink 1': { exact: text } }, timeoutMs: 30_000 },
+        { shellHost: host },
+      );
+      expect(calls).toEqual(records);
+    }
+  });
+
+  it('frame records as the packets they arrived in', async () => {
+    const { host, calls } = recordingHost();
+    const save = buildFactory(() => {
+      placeSource(0, 0, 'ab\ncde\n', 20);
+      placeBelt(1, 0, Direction.RIGHT);
+      placeMachine(2, 0, MachineType.PACKER);
+      updateConfig(2, 0, MachineType.PACKER, { preserveDelimiter: false });
+      placeBelt(3, 0, Direction.RIGHT);
+      placeMachine(4, 0, MachineType.COMMAND);
+      updateConfig(4, 0, MachineType.COMMAND, { command: 'cat', framing: 'packet' });
+      placeBelt(5, 0, Direction.RIGHT);
+      placeMachine(6, 0, MachineType.SINK);
+    });
+    await expectFactory(
+      { name: 'packet', save, expect: { 'Sink 1': { exact: 'abcde' } }, timeoutMs: 30_000 },
+      { shellHost: host },
+    );
+    expect(calls).toEqual(['ab', 'cde']);
+  });
+});
+
+describe('shell machine REPLs', () => {
+  /** A program that prints `start` when it starts, then `answer(line)` for each line it reads */
+  function replHost(answer: (line: string) => string, start = ''): StubShellHost {
+    return new StubShellHost((_command, input) => {
+      if (input === '') return start;
+      return input.split('\n').slice(0, -1).map(answer).join('');
+    });
+  }
+
+  it('find the end of each response with a sentinel', async () => {
+    // Two output lines per record, then what the program prints for the sentinel
+    const host = replHost(line => line === 'print "__END__\\n"' ? '__END__\n' : `${line}\n${line.toUpperCase()}\n`);
+    const save = shellLine('ab\ncd\n', { command: 'bc', repl: true, replEnd: '^__END__\\n', replSentinel: 'print "__END__\\n"' });
+    await expectFactory(
+      { name: 'sentinel repl', save, expect: { 'Sink 1': { exact: 'ab\nAB\ncd\nCD\n' } }, timeoutMs: 30_000 },
+      { shellHost: host },
+    );
+  });
+
+  it('find the end of each response at the next prompt, skipping the banner', async () => {
+    const host = replHost(line => `${line.toUpperCase()}\n> `, 'Welcome\n> ');
+    const save = shellLine('ab\ncd\n', { command: 'calc', repl: true, replEnd: '^> ' });
+    await expectFactory(
+      { name: 'prompt repl', save, expect: { 'Sink 1': { exact: 'AB\nCD\n' } }, timeoutMs: 30_000 },
+      { shellHost: host },
+    );
+  });
+
+  it('end a response that stops mid-line with a newline', async () => {
+    const host = replHost(line => line === '.end' ? '#\n' : line.toUpperCase());
+    const save = shellLine('ab\ncd\n', { command: 'calc', repl: true, replEnd: '#\\n', replSentinel: '.end' });
+    await expectFactory(
+      { name: 'unterminated repl', save, expect: { 'Sink 1': { exact: 'AB\nCD\n' } }, timeoutMs: 30_000 },
+      { shellHost: host },
+    );
+  });
+});
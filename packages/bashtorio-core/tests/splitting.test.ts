@@ -0,0 +1,97 @@
+import { describe, it } from 'vitest';
+import { placeBelt, placeMachine, placeSplitter, updateConfig } from '../src/game/edit';
+import { Direction, MachineType, type MergerPolicy } from '../src/game/types';
+import { buildFactory, expectFactory, placeSource } from './factory';
+
+describe('splitter', () => {
+  it('alternates packets between its two outputs', async () => {
+    const save = buildFactory(() => {
+      placeSource(0, 0, 'abcdef');
+      placeBelt(1, 0, Direction.RIGHT);
+      placeSplitter(2, 0, Direction.RIGHT);
+      placeBelt(3, 0, Direction.RIGHT);
+      placeMachine(4, 0, MachineType.SINK);
+      placeBelt(3, 1, Direction.RIGHT);
+      placeMachine(4, 1, MachineType.SINK);
+    });
+    await expectFactory({
+      name: 'round-robin',
+      save,
+      expect: { 'Sink 1': { regex: '^[a-f]{3}$' }, 'Sink 2': { regex: '^[a-f]{3}$' } },
+      timeoutMs: 30_000,
+    });
+  });
+
+  it('sends everything to the preferred side while it keeps up', async () => {
+    const save = buildFactory(() => {
+      placeSource(0, 0, 'abcdef');
+      placeBelt(1, 0, Direction.RIGHT);
+      placeSplitter(2, 0, Direction.RIGHT);
+      updateConfig(2, 0, MachineType.SPLITTER, { splitterMode: 'output-priority', splitterSide: 'right' });
+      placeBelt(3, 0, Direction.RIGHT);
+      placeMachine(4, 0, MachineType.SINK);
+      placeBelt(3, 1, Direction.RIGHT);
+      placeMachine(4, 1, MachineType.SINK);
+    });
+    // Travelling right, the right-hand side is the lower cell
+    await expectFactory({
+      name: 'output-priority',
+      save,
+      expect: { 'Sink 1': { exact: '' }, 'Sink 2': { exact: 'abcdef' } },
+      timeoutMs: 30_000,
+    });
+  });
+
+  it('sends bytes in its set to the preferred side and the rest to the other', async () => {
+    const save = buildFactory(() => {
+      placeSource(0, 0, 'a1,b2;c3');
+      placeBelt(1, 0, Direction.RIGHT);
+      placeSplitter(2, 0, Direction.RIGHT);
+      updateConfig(2, 0, MachineType.SPLITTER, { splitterMode: 'set', splitterSet: '[:alpha:],' });
+      placeBelt(3, 0, Direction.RIGHT);
+      placeMachine(4, 0, MachineType.SINK);
+      placeBelt(3, 1, Direction.RIGHT);
+      placeMachine(4, 1, MachineType.SINK);
+    });
+    await expectFactory({
+      name: 'byte set',
+      save,
+      expect: { 'Sink 1': { exact: 'a,bc' }, 'Sink 2': { exact: '12;3' } },
+      timeoutMs: 30_000,
+    });
+  });
+});
+
+describe('merger', () => {
+  /** Lines packed on two belts, one from the left and one from below, into a merger at (4, 0) */
+  function twoInputs(policy: MergerPolicy) {
+    return buildFactory(() => {
+      placeSource(0, 0, 'one\ntwo\n');
+      placeBelt(1, 0, Direction.RIGHT);
+      placeMachine(2, 0, MachineType.PACKER);
+      placeBelt(3, 0, Direction.RIGHT);
+
+      placeSource(4, 5, 'three\nfour\n');
+      placeBelt(4, 4, Direction.UP);
+      placeMachine(4, 3, MachineType.PACKER, Direction.UP);
+      placeBelt(4, 2, Direction.UP);
+      placeBelt(4, 1, Direction.UP);
+
+      placeMachine(4, 0, MachineType.MERGER);
+      updateConfig(4, 0, MachineType.MERGER, { mergerPolicy: policy, mergerPriorityDir: Direction.DOWN });
+      placeBelt(5, 0, Direction.RIGHT);
+      placeMachine(6, 0, MachineType.SINK);
+    });
+  }
+
+  for (const policy of ['fair', 'priority'] as const) {
+    it(`delivers every line from both inputs (${policy})`, async () => {
+      await expectFactory({
+        name: `merger ${policy}`,
+        save: twoInputs(policy),
+        expect: { 'Sink 1': { lines: ['one', 'two', 'three', 'four'] } },
+        timeoutMs: 60_000,
+      });
+    });
+  }
+});
@@ -0,0 +1,41 @@
+import { describe, it } from 'vitest';
+import { placeBelt, placeMachine, placeUnderground } from '../src/game/edit';
+import { Direction, MachineType } from '../src/game/types';
+import { buildFactory, expectFactory, placeSource } from './factory';
+
+describe('underground belts', () => {
+  it('carry one line under another that crosses it', async () => {
+    const across = 'abcdefghijklmnop';
+    const down = '0123456789ABCDEF';
+    const save = buildFactory(() => {
+      placeSource(0, 5, across);
+      placeBelt(1, 5, Direction.RIGHT);
+      placeBelt(2, 5, Direction.RIGHT);
+      placeUnderground(3, 5, 8, 5, Direction.RIGHT);
+      placeBelt(9, 5, Direction.RIGHT);
+      placeMachine(10, 5, MachineType.SINK);
+      placeSource(5, 0, down);
+      for (let y = 1; y <= 9; y++) placeBelt(5, y, Direction.DOWN);
+      placeMachine(5, 10, MachineType.SINK);
+    });
+    await expectFactory({
+      name: 'tunnel under a line',
+      save,
+      expect: { 'Sink 1': { exact: across }, 'Sink 2': { exact: down } },
+      timeoutMs: 60_000,
+    });
+  });
+
+  it('keep packets in order when the entrance backs up', async () => {
+    const text = 'abcdefghij\n';
+    const save = buildFactory(() => {
+      // Emitting faster than the belt moves, so packets queue up at the entrance
+      placeSource(0, 0, text, 50);
+      placeUnderground(1, 0, 4, 0, Direction.RIGHT);
+      placeBelt(5, 0, Direction.RIGHT);
+      placeBelt(6, 0, Direction.RIGHT);
+      placeMachine(7, 0, MachineType.SINK);
+    });
+    await expectFactory({ name: 'tunnel order', save, expect: { 'Sink 1': { exact: text } }, timeoutMs: 60_000 });
+  });
+});
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so test runs skip the library build plugins
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    // Factory tests step whole simulations; slow machines need the headroom
+    testTimeout: 60_000,
+  },
+});
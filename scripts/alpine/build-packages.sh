@@ -0,0 +1,59 @@
+#!/usr/bin/env bash
+set -euo pipefail
+
+# Build the local Alpine package repository that factories install their
+# declared packages from at simulation start. Packages come from the same
+# Alpine release as the rootfs, with everything they depend on, and get an
+# unsigned APKINDEX (the guest installs with --allow-untrusted).
+#
+# Usage: build-packages.sh [package...]
+# With no arguments the packages listed in packages.txt are fetched. Running
+# it again adds to the repository and reindexes it.
+
+SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
+ROOT_DIR="$(cd "$SCRIPT_DIR/../.." && pwd)"
+REPO_DIR="$ROOT_DIR/apps/web/public/v86/alpine-packages"
+ARCH=x86
+
+if command -v podman &>/dev/null; then
+	CTR=podman
+elif command -v docker &>/dev/null; then
+	CTR=docker
+elif command -v nerdctl &>/dev/null; then
+	CTR=nerdctl
+else
+	echo "Error: no container runtime found (docker, podman, or nerdctl)" >&2
+	exit 1
+fi
+
+if [ $# -gt 0 ]; then
+	PACKAGES="$*"
+else
+	PACKAGES="$(sed 's/#.*//' "$SCRIPT_DIR/packages.txt" | xargs)"
+fi
+if [ -z "$PACKAGES" ]; then
+	echo "Error: no packages to fetch" >&2
+	exit 1
+fi
+
+# The release the rootfs is built from, so versions match what is installed
+IMAGE="$(sed -n 's/^FROM //p' "$SCRIPT_DIR/Dockerfile" | head -n 1)"
+
+echo "=== Alpine package repository (using $CTR, $IMAGE) ==="
+echo ""
+
+mkdir -p "$REPO_DIR/$ARCH"
+
+echo ">> Fetching $PACKAGES and their dependencies..."
+$CTR run --rm --platform linux/386 -v "$REPO_DIR/$ARCH:/repo" "$IMAGE" sh -euc "
+	apk update -q
+	cd /repo
+	apk fetch -q --recursive $PACKAGES
+	echo '>> Indexing...'
+	apk index -q --allow-untrusted -o APKINDEX.tar.gz *.apk
+"
+
+echo ""
+echo "=== Build complete! ==="
+echo "  Repository: $REPO_DIR/$ARCH/"
+echo "  $(ls "$REPO_DIR/$ARCH"/*.apk | wc -l) packages indexed"